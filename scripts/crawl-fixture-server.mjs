@@ -0,0 +1,45 @@
+/**
+ * Local help-center site for trying the website crawler (src/utils/websiteCrawler.ts)
+ *
+ * Serves fixtures/crawl-site with CORS enabled, so the crawl dialog in the
+ * knowledge base admin can read it straight from the browser:
+ *
+ *   npm run fixtures:crawl
+ *
+ * Then crawl http://localhost:4545/ with "/login" under "Never follow" and a
+ * link depth of 2. Expected: 4 pages ingested (home, getting started, advanced
+ * setup, billing), release notes skipped for having no text, the login page
+ * and example.com never fetched. Crawling again replaces the pages' chunks
+ * instead of adding copies.
+ */
+
+import { createServer } from 'node:http'
+import { readFile } from 'node:fs/promises'
+import { extname, join, normalize } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = fileURLToPath(new URL('../fixtures/crawl-site/', import.meta.url))
+const port = Number(process.env.PORT) || 4545
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+}
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${port}`)
+  const relative = normalize(decodeURIComponent(pathname)).replace(/^([/\\]|\.\.[/\\])+/, '')
+  const file = join(root, relative.endsWith('/') || relative === '' ? join(relative, 'index.html') : relative)
+
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  try {
+    const body = await readFile(file)
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] || 'application/octet-stream' })
+    res.end(body)
+  } catch {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' })
+    res.end('Not found')
+  }
+}).listen(port, () => {
+  console.log(`Crawl fixture site on http://localhost:${port}/`)
+})
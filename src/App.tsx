@@ -1,20 +1,33 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { AgentInterceptorProvider } from '@/components/AgentInterceptorProvider'
+import { AppConfigProvider } from '@/components/AppConfigProvider'
 import ErrorBoundary, { GlobalErrorModal } from '@/components/ErrorBoundary'
+import { Toaster } from '@/components/ui/sonner'
 import Home from './pages/Home'
 import NotFound from './pages/NotFound'
+import KnowledgeAdmin from './pages/KnowledgeAdmin'
+import KnowledgePlayground from './pages/KnowledgePlayground'
+import KnowledgeGaps from './pages/KnowledgeGaps'
+import WorkflowEditor from './pages/WorkflowEditor'
 
 export default function App() {
   return (
     <BrowserRouter>
       <ErrorBoundary>
-        <AgentInterceptorProvider>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </AgentInterceptorProvider>
+        <AppConfigProvider>
+          <AgentInterceptorProvider>
+            <Routes>
+              <Route path="/" element={<Home />} />
+              <Route path="/admin/knowledge" element={<KnowledgeAdmin />} />
+              <Route path="/admin/knowledge/playground" element={<KnowledgePlayground />} />
+              <Route path="/admin/knowledge/gaps" element={<KnowledgeGaps />} />
+              <Route path="/workflow" element={<WorkflowEditor />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </AgentInterceptorProvider>
+        </AppConfigProvider>
         <GlobalErrorModal />
+        <Toaster position="bottom-right" theme="dark" />
       </ErrorBoundary>
     </BrowserRouter>
   )
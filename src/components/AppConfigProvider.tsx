@@ -0,0 +1,43 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react'
+import { Loader2 } from 'lucide-react'
+import { getAppConfig, loadAppConfig, setAppConfig, type AppConfig } from '@/utils/appConfig'
+
+const AppConfigContext = createContext<AppConfig | null>(null)
+
+/**
+ * Loads the runtime config (env, config.json, URL parameters) before
+ * rendering the app, and makes it available through useAppConfig
+ */
+export function AppConfigProvider({ children }: { children: ReactNode }) {
+  const [config, setConfig] = useState<AppConfig | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadAppConfig().then(({ config, warnings }) => {
+      warnings.forEach(warning => console.warn(warning))
+      if (cancelled) return
+      setAppConfig(config)
+      setConfig(config)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (!config) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900">
+        <Loader2 className="h-8 w-8 text-white/70 animate-spin" />
+      </div>
+    )
+  }
+
+  return <AppConfigContext.Provider value={config}>{children}</AppConfigContext.Provider>
+}
+
+/**
+ * The runtime config. Outside an AppConfigProvider, the env/default config.
+ */
+export function useAppConfig(): AppConfig {
+  return useContext(AppConfigContext) ?? getAppConfig()
+}
@@ -0,0 +1,45 @@
+import * as React from 'react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { CONVERSATION_EXPORT_FORMATS, type ConversationExportFormat } from '@/utils/conversationExport'
+
+interface ConversationExportMenuProps {
+  /** Element that opens the menu - rendered with asChild */
+  children: React.ReactNode
+  label?: string
+  onExport: (format: ConversationExportFormat) => void
+  align?: 'start' | 'center' | 'end'
+}
+
+/**
+ * Dropdown listing the conversation export formats
+ */
+export function ConversationExportMenu({ children, label = 'Export as', onExport, align = 'end' }: ConversationExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent
+        align={align}
+        className="backdrop-blur-xl bg-slate-900/95 border-white/20 text-white"
+      >
+        <DropdownMenuLabel className="text-xs text-white/60 font-normal">{label}</DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-white/10" />
+        {CONVERSATION_EXPORT_FORMATS.map(format => (
+          <DropdownMenuItem
+            key={format.value}
+            onSelect={() => onExport(format.value)}
+            className="focus:bg-white/15 focus:text-white"
+          >
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,179 @@
+import * as React from 'react'
+import { Archive, ArchiveRestore, Download, Pencil, Pin, PinOff, Trash2 } from 'lucide-react'
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from '@/components/ui/context-menu'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { CONVERSATION_EXPORT_FORMATS, type ConversationExportFormat } from '@/utils/conversationExport'
+import type { Conversation } from '@/types'
+
+export interface ConversationMenuActions {
+  onRename: () => void
+  onTogglePin: () => void
+  onToggleArchive: () => void
+  /** Omit to hide the Export submenu */
+  onExport?: (format: ConversationExportFormat) => void
+  onDelete: () => void
+}
+
+interface ConversationMenuProps extends ConversationMenuActions {
+  conversation: Conversation
+  /** Element that opens the menu - rendered with asChild */
+  children: React.ReactNode
+}
+
+// Context and dropdown menus share item props, so one item list serves both
+interface MenuParts {
+  Item: React.ElementType
+  Separator: React.ElementType
+  Sub: React.ElementType
+  SubTrigger: React.ElementType
+  SubContent: React.ElementType
+}
+
+const CONTEXT_MENU_PARTS: MenuParts = {
+  Item: ContextMenuItem,
+  Separator: ContextMenuSeparator,
+  Sub: ContextMenuSub,
+  SubTrigger: ContextMenuSubTrigger,
+  SubContent: ContextMenuSubContent,
+}
+
+const DROPDOWN_MENU_PARTS: MenuParts = {
+  Item: DropdownMenuItem,
+  Separator: DropdownMenuSeparator,
+  Sub: DropdownMenuSub,
+  SubTrigger: DropdownMenuSubTrigger,
+  SubContent: DropdownMenuSubContent,
+}
+
+const contentClass = 'backdrop-blur-xl bg-slate-900/95 border-white/20 text-white'
+const itemClass = 'gap-2 focus:bg-white/15 focus:text-white data-[state=open]:bg-white/15'
+
+function ConversationMenuItems({
+  parts,
+  conversation,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onExport,
+  onDelete
+}: ConversationMenuActions & { parts: MenuParts; conversation: Conversation }) {
+  const { Item, Separator, Sub, SubTrigger, SubContent } = parts
+
+  return (
+    <>
+      <Item onSelect={onRename} className={itemClass}>
+        <Pencil className="h-4 w-4" />
+        Rename
+      </Item>
+      <Item onSelect={onTogglePin} className={itemClass}>
+        {conversation.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+        {conversation.pinned ? 'Unpin' : 'Pin to top'}
+      </Item>
+      <Item onSelect={onToggleArchive} className={itemClass}>
+        {conversation.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+        {conversation.archived ? 'Unarchive' : 'Archive'}
+      </Item>
+      {onExport && (
+        <Sub>
+          <SubTrigger className={itemClass}>
+            <Download className="h-4 w-4" />
+            Export
+          </SubTrigger>
+          <SubContent className={contentClass}>
+            {CONVERSATION_EXPORT_FORMATS.map(format => (
+              <Item key={format.value} onSelect={() => onExport(format.value)} className={itemClass}>
+                {format.label}
+              </Item>
+            ))}
+          </SubContent>
+        </Sub>
+      )}
+      <Separator className="bg-white/10" />
+      <Item onSelect={onDelete} className={`${itemClass} text-red-300 focus:text-red-200`}>
+        <Trash2 className="h-4 w-4" />
+        Delete
+      </Item>
+    </>
+  )
+}
+
+/**
+ * Keep focus where Rename puts it (the title input) instead of returning it
+ * to the menu trigger when the menu closes
+ */
+function useRenameFocus(onRename: () => void) {
+  const isRenamingRef = React.useRef(false)
+
+  return {
+    onRename: () => {
+      isRenamingRef.current = true
+      onRename()
+    },
+    onCloseAutoFocus: (e: Event) => {
+      if (isRenamingRef.current) {
+        isRenamingRef.current = false
+        e.preventDefault()
+      }
+    },
+  }
+}
+
+/**
+ * Right-click menu for a sidebar conversation
+ */
+export function ConversationContextMenu({ children, conversation, onRename, ...actions }: ConversationMenuProps) {
+  const renameFocus = useRenameFocus(onRename)
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent className={contentClass} onCloseAutoFocus={renameFocus.onCloseAutoFocus}>
+        <ConversationMenuItems
+          parts={CONTEXT_MENU_PARTS}
+          conversation={conversation}
+          onRename={renameFocus.onRename}
+          {...actions}
+        />
+      </ContextMenuContent>
+    </ContextMenu>
+  )
+}
+
+/**
+ * The same actions behind a "more" button, for keyboard and touch users
+ */
+export function ConversationDropdownMenu({ children, conversation, onRename, ...actions }: ConversationMenuProps) {
+  const renameFocus = useRenameFocus(onRename)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className={contentClass} onCloseAutoFocus={renameFocus.onCloseAutoFocus}>
+        <ConversationMenuItems
+          parts={DROPDOWN_MENU_PARTS}
+          conversation={conversation}
+          onRename={renameFocus.onRename}
+          {...actions}
+        />
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,128 @@
+import * as React from 'react'
+import { ThumbsUp, ThumbsDown } from 'lucide-react'
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { FEEDBACK_REASONS } from '@/utils/feedback'
+import type { FeedbackReason, MessageFeedback } from '@/types'
+
+interface FeedbackControlsProps {
+  feedback?: MessageFeedback
+  onFeedback: (feedback: MessageFeedback | undefined) => void
+  className?: string
+}
+
+/**
+ * Thumbs up/down controls for an agent answer.
+ * Thumbs down opens an optional reason picker and comment box.
+ */
+export function FeedbackControls({ feedback, onFeedback, className }: FeedbackControlsProps) {
+  const [isReasonOpen, setIsReasonOpen] = React.useState(false)
+  const [reason, setReason] = React.useState<FeedbackReason | undefined>(feedback?.reason)
+  const [comment, setComment] = React.useState(feedback?.comment || '')
+
+  const handleThumbsUp = () => {
+    setIsReasonOpen(false)
+    // Clicking the active rating again clears it
+    onFeedback(feedback?.rating === 'up' ? undefined : { rating: 'up', createdAt: new Date() })
+  }
+
+  const handleThumbsDown = () => {
+    if (feedback?.rating === 'down' && !isReasonOpen) {
+      onFeedback(undefined)
+      return
+    }
+    setReason(feedback?.reason)
+    setComment(feedback?.comment || '')
+    setIsReasonOpen(true)
+  }
+
+  const handleSubmitReason = () => {
+    onFeedback({
+      rating: 'down',
+      reason,
+      comment: comment.trim() || undefined,
+      createdAt: new Date(),
+    })
+    setIsReasonOpen(false)
+  }
+
+  const buttonClass = 'p-1 rounded text-white/50 hover:text-white hover:bg-white/10 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60'
+
+  return (
+    <Popover open={isReasonOpen} onOpenChange={setIsReasonOpen}>
+      <PopoverAnchor asChild>
+        <div className={cn('flex items-center gap-0.5', className)}>
+          <button
+            type="button"
+            onClick={handleThumbsUp}
+            aria-label="Helpful"
+            aria-pressed={feedback?.rating === 'up'}
+            className={cn(buttonClass, feedback?.rating === 'up' && 'text-green-300')}
+          >
+            <ThumbsUp className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={handleThumbsDown}
+            aria-label="Not helpful"
+            aria-pressed={feedback?.rating === 'down'}
+            className={cn(buttonClass, feedback?.rating === 'down' && 'text-red-300')}
+          >
+            <ThumbsDown className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-72 backdrop-blur-xl bg-slate-900/95 border-white/20 text-white shadow-2xl"
+      >
+        <p className="text-sm font-medium mb-2">What was wrong with this answer?</p>
+        <div className="flex flex-wrap gap-1.5 mb-3" role="radiogroup" aria-label="Reason">
+          {FEEDBACK_REASONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              role="radio"
+              aria-checked={reason === option.value}
+              onClick={() => setReason(reason === option.value ? undefined : option.value)}
+              className={cn(
+                'px-2.5 py-1 rounded-full text-xs border transition-colors',
+                reason === option.value
+                  ? 'bg-white/30 border-white/50 text-white'
+                  : 'bg-white/5 border-white/20 text-white/80 hover:bg-white/15'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Tell us more (optional)"
+          rows={3}
+          maxLength={1000}
+          className="w-full px-3 py-2 mb-3 backdrop-blur-md bg-white/10 border border-white/20 rounded-lg text-sm text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-blue-400/50 resize-none"
+        />
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setIsReasonOpen(false)}
+            className="text-white/80 hover:text-white hover:bg-white/10"
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSubmitReason}
+            className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white"
+          >
+            Send feedback
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
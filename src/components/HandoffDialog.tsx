@@ -0,0 +1,142 @@
+import * as React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Headphones, Loader2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Button } from '@/components/ui/button'
+import type { HandoffContact } from '@/utils/handoff'
+
+const handoffSchema = z.object({
+  name: z.string().trim().min(1, 'Please enter your name').max(100),
+  email: z.string().trim().email('Please enter a valid email address'),
+  summary: z.string().trim().min(10, 'Please describe your issue in a few words').max(2000),
+})
+
+interface HandoffDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Prefill for the issue summary, e.g. the customer's last question */
+  defaultSummary?: string
+  /** Resolve with an error message to keep the dialog open and show it */
+  onSubmit: (contact: HandoffContact) => Promise<string | void>
+}
+
+const fieldClass = 'backdrop-blur-md bg-white/10 border-white/20 text-white placeholder:text-white/50 focus-visible:ring-blue-400/50'
+
+/**
+ * "Talk to a human" form collecting name, email and an issue summary
+ */
+export function HandoffDialog({ open, onOpenChange, defaultSummary = '', onSubmit }: HandoffDialogProps) {
+  const [submitError, setSubmitError] = React.useState<string | null>(null)
+  const form = useForm<HandoffContact>({
+    resolver: zodResolver(handoffSchema),
+    defaultValues: { name: '', email: '', summary: defaultSummary },
+  })
+
+  // Refresh the summary prefill each time the dialog opens, keeping contact details
+  React.useEffect(() => {
+    if (open) {
+      setSubmitError(null)
+      form.reset({ ...form.getValues(), summary: defaultSummary })
+    }
+  }, [open, defaultSummary, form])
+
+  const handleSubmit = async (values: HandoffContact) => {
+    setSubmitError(null)
+    const error = await onSubmit(values)
+    if (error) {
+      setSubmitError(error)
+    }
+  }
+
+  const isSubmitting = form.formState.isSubmitting
+
+  return (
+    <Dialog open={open} onOpenChange={isSubmitting ? undefined : onOpenChange}>
+      <DialogContent className="backdrop-blur-2xl bg-slate-900/95 border-white/20 text-white shadow-2xl [&>button]:text-white/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Headphones className="h-5 w-5 text-blue-300" />
+            Talk to a human
+          </DialogTitle>
+          <DialogDescription className="text-white/70">
+            Leave your details and a member of our support team will follow up by email.
+            We'll include this conversation so you don't have to repeat yourself.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white/90">Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} autoComplete="name" placeholder="Jane Doe" className={fieldClass} />
+                  </FormControl>
+                  <FormMessage className="text-red-300" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white/90">Email</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="email" autoComplete="email" placeholder="jane@example.com" className={fieldClass} />
+                  </FormControl>
+                  <FormMessage className="text-red-300" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="summary"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white/90">Issue summary</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={4} placeholder="What do you need help with?" className={`${fieldClass} resize-none`} />
+                  </FormControl>
+                  <FormMessage className="text-red-300" />
+                </FormItem>
+              )}
+            />
+
+            {submitError && (
+              <p className="text-sm text-red-300" role="alert">{submitError}</p>
+            )}
+
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isSubmitting}
+                onClick={() => onOpenChange(false)}
+                className="backdrop-blur-md bg-white/10 hover:bg-white/20 text-white border-white/30"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white"
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create ticket
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,13 +1,31 @@
 'use client'
 
 import * as React from 'react'
-import { useRAGKnowledgeBase, SUPPORTED_FILE_TYPES, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import { SUPPORTED_FILE_EXTENSIONS, useRAGKnowledgeBase, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import {
+  getDroppedFiles,
+  summarizeUploads,
+  useUploadQueue,
+  type UploadItemStatus,
+} from '@/utils/uploadQueue'
+import { retireDocumentVersions } from '@/utils/documentVersions'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 
+const UPLOAD_STATUS_LABELS: Record<UploadItemStatus, string> = {
+  queued: 'Queued',
+  parsing: 'Parsing...',
+  training: 'Training...',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
 interface KnowledgeBaseUploadProps {
   ragId: string
   className?: string
+  /** Files uploading at once */
+  concurrency?: number
   onUploadSuccess?: (document: { documentId?: string; documentCount?: number }) => void
   onDeleteSuccess?: (fileName: string) => void
 }
@@ -15,6 +33,7 @@ interface KnowledgeBaseUploadProps {
 export function KnowledgeBaseUpload({
   ragId,
   className,
+  concurrency,
   onUploadSuccess,
   onDeleteSuccess,
 }: KnowledgeBaseUploadProps) {
@@ -23,13 +42,31 @@ export function KnowledgeBaseUpload({
     loading,
     error,
     fetchDocuments,
-    uploadDocument,
     removeDocuments,
   } = useRAGKnowledgeBase()
 
+  const {
+    items: uploads,
+    add,
+    retry,
+    retryFailed,
+    cancel,
+    cancelAll,
+    remove,
+    clearFinished,
+  } = useUploadQueue({
+    concurrency,
+    onItemSettled: (item) => {
+      if (item.status !== 'done' || item.unchanged) return
+      fetchDocuments(ragId)
+      onUploadSuccess?.({ documentCount: item.documentCount })
+    },
+  })
+  const summary = summarizeUploads(uploads.filter(item => item.ragId === ragId))
+
   const [isDragging, setIsDragging] = React.useState(false)
-  const [uploadProgress, setUploadProgress] = React.useState<string | null>(null)
   const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const folderInputRef = React.useRef<HTMLInputElement>(null)
 
   React.useEffect(() => {
     fetchDocuments(ragId)
@@ -49,40 +86,18 @@ export function KnowledgeBaseUpload({
     e.preventDefault()
     setIsDragging(false)
 
-    const files = Array.from(e.dataTransfer.files)
+    const files = await getDroppedFiles(e.dataTransfer)
     if (files.length > 0) {
-      await handleFileUpload(files[0])
-    }
-  }
-
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files
-    if (files && files.length > 0) {
-      await handleFileUpload(files[0])
-    }
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ''
+      add(ragId, files)
     }
   }
 
-  const handleFileUpload = async (file: File) => {
-    if (!SUPPORTED_FILE_TYPES.includes(file.type as typeof SUPPORTED_FILE_TYPES[number])) {
-      alert('Unsupported file type. Please upload PDF, DOCX, or TXT files.')
-      return
-    }
-
-    setUploadProgress(`Uploading ${file.name}...`)
-
-    const result = await uploadDocument(ragId, file)
-
-    if (result.success) {
-      setUploadProgress(null)
-      await fetchDocuments(ragId)
-      onUploadSuccess?.({ documentId: result.documentId, documentCount: result.documentCount })
-    } else {
-      setUploadProgress(null)
-      alert(result.error || 'Upload failed')
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    if (files.length > 0) {
+      add(ragId, files)
     }
+    e.target.value = ''
   }
 
   const handleDelete = async (fileName: string) => {
@@ -91,6 +106,7 @@ export function KnowledgeBaseUpload({
     const result = await removeDocuments(ragId, [fileName])
 
     if (result.success) {
+      retireDocumentVersions(ragId, [fileName])
       onDeleteSuccess?.(fileName)
     } else {
       alert(result.error || 'Delete failed')
@@ -138,7 +154,18 @@ export function KnowledgeBaseUpload({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.docx,.txt"
+            multiple
+            accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <input
+            // webkitdirectory isn't in React's input types
+            ref={(input) => {
+              folderInputRef.current = input
+              input?.setAttribute('webkitdirectory', '')
+            }}
+            type="file"
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -156,13 +183,73 @@ export function KnowledgeBaseUpload({
             />
           </svg>
           <p className="mt-2 text-sm text-muted-foreground">
-            {uploadProgress || 'Drag & drop or click to upload'}
+            Drag & drop files or a folder, or click to upload
           </p>
           <p className="mt-1 text-xs text-muted-foreground">
-            PDF, DOCX, TXT supported
+            PDF, DOCX, TXT, Markdown, HTML and CSV/JSON FAQs ·{' '}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                folderInputRef.current?.click()
+              }}
+              className="underline hover:text-foreground"
+            >
+              choose a folder
+            </button>
           </p>
         </div>
 
+        {/* Upload Queue */}
+        {summary.total > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-medium">
+                {summary.done} of {summary.total} uploaded · {summary.documentCount} chunks
+                {summary.unchanged > 0 && <span className="text-muted-foreground"> · {summary.unchanged} unchanged</span>}
+                {summary.failed > 0 && <span className="text-destructive"> · {summary.failed} failed</span>}
+              </h4>
+              <div className="flex gap-1">
+                {summary.queued + summary.inProgress > 0 ? (
+                  <Button variant="ghost" size="sm" onClick={cancelAll}>Cancel all</Button>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={clearFinished}>Clear</Button>
+                )}
+                {summary.failed > 0 && (
+                  <Button variant="ghost" size="sm" onClick={retryFailed}>Retry failed</Button>
+                )}
+              </div>
+            </div>
+            <div className="divide-y rounded-md border max-h-64 overflow-y-auto">
+              {uploads.filter(item => item.ragId === ragId).map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{item.file.name}</p>
+                    <p className={cn('text-xs', item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground')}>
+                      {item.unchanged ? 'Unchanged - skipped' : UPLOAD_STATUS_LABELS[item.status]}
+                      {item.status === 'done' && !item.unchanged && item.documentCount !== undefined && ` · ${item.documentCount} chunks`}
+                      {item.status === 'done' && !item.unchanged && item.version > 1 && ` · version ${item.version}`}
+                      {item.warning && ` · ${item.warning}`}
+                      {item.error && ` · ${item.error}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    {(item.status === 'queued' || item.status === 'parsing' || item.status === 'training') && (
+                      <Button variant="ghost" size="sm" onClick={() => cancel(item.id)}>Cancel</Button>
+                    )}
+                    {item.canRetry && (item.status === 'failed' || item.status === 'cancelled') && (
+                      <Button variant="ghost" size="sm" onClick={() => retry(item.id)}>Retry</Button>
+                    )}
+                    {(item.status === 'done' || item.status === 'failed' || item.status === 'cancelled') && (
+                      <Button variant="ghost" size="sm" onClick={() => remove(item.id)} aria-label={`Dismiss ${item.file.name}`}>×</Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
@@ -0,0 +1,109 @@
+import * as React from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeSanitize from 'rehype-sanitize'
+import { Check, Copy } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { completePartialMarkdown, getNodeText, rehypeCitations } from '@/lib/markdown'
+
+interface MarkdownContentProps {
+  content: string
+  /** Answer is still streaming - close half-received syntax before rendering */
+  isStreaming?: boolean
+  /** Number of sources; `[n]` markers up to this are passed to renderCitation */
+  citationCount?: number
+  renderCitation?: (index: number) => React.ReactNode
+  className?: string
+}
+
+/**
+ * Fenced code block with a copy button
+ */
+function CodeBlock({ code, children }: { code: string; children: React.ReactNode }) {
+  const [copied, setCopied] = React.useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (e) {
+      console.error('Failed to copy code:', e)
+    }
+  }
+
+  return (
+    <div className="relative group my-2">
+      <button
+        type="button"
+        onClick={handleCopy}
+        aria-label={copied ? 'Copied' : 'Copy code'}
+        className="absolute top-1.5 right-1.5 p-1 rounded bg-white/10 hover:bg-white/20 text-white/80 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      >
+        {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+      </button>
+      <pre className="overflow-x-auto rounded-lg bg-black/40 border border-white/10 p-3 pr-9 text-xs font-mono [&_code]:bg-transparent [&_code]:p-0">
+        {children}
+      </pre>
+    </div>
+  )
+}
+
+/**
+ * Sanitized Markdown renderer for agent answers.
+ * Raw HTML is dropped, links open in a new tab, code blocks get a copy button.
+ */
+export function MarkdownContent({
+  content,
+  isStreaming = false,
+  citationCount = 0,
+  renderCitation,
+  className,
+}: MarkdownContentProps) {
+  const markdown = isStreaming ? completePartialMarkdown(content) : content
+
+  const components: Components = {
+    a: ({ node, ...props }) => (
+      <a {...props} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:text-white/80 break-words" />
+    ),
+    pre: ({ node, children }) => <CodeBlock code={getNodeText(node)}>{children}</CodeBlock>,
+    code: ({ node, className: codeClassName, ...props }) => (
+      <code {...props} className={cn('font-mono text-[0.85em]', !codeClassName && 'px-1 py-0.5 rounded bg-black/25', codeClassName)} />
+    ),
+    p: ({ node, ...props }) => <p {...props} className="my-1.5 first:mt-0 last:mb-0" />,
+    ul: ({ node, ...props }) => <ul {...props} className="my-1.5 ml-4 list-disc space-y-0.5" />,
+    ol: ({ node, ...props }) => <ol {...props} className="my-1.5 ml-4 list-decimal space-y-0.5" />,
+    h1: ({ node, ...props }) => <h3 {...props} className="mt-3 mb-1 text-base font-semibold first:mt-0" />,
+    h2: ({ node, ...props }) => <h3 {...props} className="mt-3 mb-1 text-base font-semibold first:mt-0" />,
+    h3: ({ node, ...props }) => <h4 {...props} className="mt-2 mb-1 text-sm font-semibold first:mt-0" />,
+    blockquote: ({ node, ...props }) => <blockquote {...props} className="my-1.5 border-l-2 border-white/40 pl-3 text-white/85" />,
+    table: ({ node, ...props }) => (
+      <div className="my-2 overflow-x-auto">
+        <table {...props} className="w-full border-collapse text-xs" />
+      </div>
+    ),
+    th: ({ node, ...props }) => <th {...props} className="border border-white/20 bg-white/10 px-2 py-1 text-left font-semibold" />,
+    td: ({ node, ...props }) => <td {...props} className="border border-white/20 px-2 py-1 align-top" />,
+    hr: ({ node, ...props }) => <hr {...props} className="my-2 border-white/20" />,
+    sup: ({ node, children, ...props }) => {
+      const citation = node?.properties?.dataCitation
+      if (citation && renderCitation) {
+        return <>{renderCitation(Number(citation))}</>
+      }
+      return <sup {...props}>{children}</sup>
+    },
+  }
+
+  return (
+    <div className={cn('text-sm break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize, [rehypeCitations, { count: citationCount }]]}
+        skipHtml
+        components={components}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  )
+}
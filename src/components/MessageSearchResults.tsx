@@ -0,0 +1,50 @@
+import { cn } from '@/lib/utils'
+import type { MessageSearchResult } from '@/utils/messageSearch'
+
+interface MessageSearchResultsProps {
+  results: MessageSearchResult[]
+  onSelect: (result: MessageSearchResult) => void
+  className?: string
+}
+
+/**
+ * Matching messages with highlighted snippets, shown in the sidebar while searching
+ */
+export function MessageSearchResults({ results, onSelect, className }: MessageSearchResultsProps) {
+  if (results.length === 0) return null
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <h3 className="px-1 text-xs font-medium uppercase tracking-wide text-white/50">
+        Messages ({results.length})
+      </h3>
+      {results.map(result => (
+        <button
+          key={`${result.conversationId}-${result.messageId}`}
+          type="button"
+          onClick={() => onSelect(result)}
+          className="w-full text-left p-3 rounded-lg backdrop-blur-md bg-white/5 hover:bg-white/10 border border-white/10 transition-all duration-200"
+        >
+          <div className="flex items-center justify-between mb-1 gap-2">
+            <span className="text-xs font-medium text-white truncate">{result.conversationTitle}</span>
+            <span className="text-xs text-white/50 shrink-0">
+              {result.role === 'agent' ? 'Agent' : 'You'} ·{' '}
+              {result.timestamp.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </span>
+          </div>
+          <p className="text-xs text-white/70 line-clamp-3">
+            {result.snippet.map((part, index) =>
+              part.highlight ? (
+                <mark key={index} className="bg-yellow-300/30 text-white rounded-sm px-0.5">
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+import * as React from 'react'
+import { ExternalLink, FileText, Database } from 'lucide-react'
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { findSourceDocument, type Source } from '@/utils/sources'
+import type { RAGDocument } from '@/utils/ragKnowledgeBase'
+
+interface SourceLinkOptions {
+  /** Documents from getDocuments, used to link sources back to the knowledge base */
+  documents?: RAGDocument[]
+  /** Link target for a knowledge base document; omit to show the match without a link */
+  getDocumentHref?: (document: RAGDocument) => string
+}
+
+/**
+ * Details of a single source: retrieved chunk, page, score and links
+ */
+export function SourceDetails({
+  source,
+  documents = [],
+  getDocumentHref,
+}: SourceLinkOptions & { source: Source }) {
+  const document = findSourceDocument(source, documents)
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-start gap-2">
+        <span className="text-xs font-semibold text-white/60 mt-0.5">[{source.index}]</span>
+        <div className="min-w-0">
+          <p className="font-medium text-white break-words">{source.title}</p>
+          {source.section && <p className="text-xs text-white/60 break-words">{source.section}</p>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {source.documentName && (
+          <Badge variant="secondary" className="bg-white/10 text-white/90 border border-white/20 text-xs">
+            <FileText className="h-3 w-3 mr-1" />
+            {source.documentName}
+            {source.page !== undefined && ` · p. ${source.page}`}
+          </Badge>
+        )}
+        {source.score !== undefined && (
+          <Badge variant="secondary" className="bg-white/10 text-white/90 border border-white/20 text-xs">
+            Score {source.score <= 1 ? `${(source.score * 100).toFixed(0)}%` : source.score.toFixed(2)}
+          </Badge>
+        )}
+      </div>
+
+      {source.chunkText && (
+        <blockquote className="max-h-48 overflow-y-auto border-l-2 border-white/30 pl-3 text-xs text-white/80 whitespace-pre-wrap">
+          {source.chunkText}
+        </blockquote>
+      )}
+
+      {source.url && (
+        <a
+          href={source.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200 underline break-all"
+        >
+          <ExternalLink className="h-3 w-3 shrink-0" />
+          {source.url}
+        </a>
+      )}
+
+      {document && (
+        getDocumentHref ? (
+          <a
+            href={getDocumentHref(document)}
+            className="flex items-center gap-1 text-xs text-blue-300 hover:text-blue-200 underline"
+          >
+            <Database className="h-3 w-3 shrink-0" />
+            View in knowledge base
+          </a>
+        ) : (
+          <p className="flex items-center gap-1 text-xs text-white/60">
+            <Database className="h-3 w-3 shrink-0" />
+            In knowledge base ({document.fileType.toUpperCase()})
+          </p>
+        )
+      )}
+    </div>
+  )
+}
+
+function SourcePopover({
+  source,
+  children,
+  ...linkOptions
+}: SourceLinkOptions & { source: Source; children: React.ReactNode }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-80 backdrop-blur-xl bg-slate-900/95 border-white/20 text-white shadow-2xl"
+      >
+        <SourceDetails source={source} {...linkOptions} />
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+/**
+ * Inline `[n]` citation marker that opens the matching source
+ */
+export function CitationMarker({
+  source,
+  ...linkOptions
+}: SourceLinkOptions & { source: Source }) {
+  return (
+    <SourcePopover source={source} {...linkOptions}>
+      <button
+        type="button"
+        aria-label={`Source ${source.index}: ${source.title}`}
+        className="inline-flex items-center justify-center align-super mx-0.5 min-w-[1.1rem] h-4 px-1 rounded bg-white/25 hover:bg-white/40 text-[10px] font-semibold text-white leading-none transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60"
+      >
+        {source.index}
+      </button>
+    </SourcePopover>
+  )
+}
+
+/**
+ * Numbered list of sources under an agent answer
+ */
+export function SourceList({
+  sources,
+  className,
+  ...linkOptions
+}: SourceLinkOptions & { sources: Source[]; className?: string }) {
+  if (sources.length === 0) return null
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <p className="text-xs text-white/80 mb-1">Sources:</p>
+      {sources.map(source => (
+        <SourcePopover key={source.index} source={source} {...linkOptions}>
+          <button
+            type="button"
+            className="flex w-full items-start gap-1.5 text-left text-xs text-white/90 hover:text-white transition-colors"
+          >
+            <span className="font-semibold text-white/60">[{source.index}]</span>
+            <span className="underline decoration-white/40 underline-offset-2 break-words">{source.title}</span>
+          </button>
+        </SourcePopover>
+      ))}
+    </div>
+  )
+}
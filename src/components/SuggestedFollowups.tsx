@@ -0,0 +1,84 @@
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+
+interface SuggestedFollowupsProps {
+  suggestions: string[]
+  onSelect: (suggestion: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Clickable follow-up question chips shown under the latest agent reply.
+ * Arrow keys, Home and End move between chips; Enter or Space picks one.
+ */
+export function SuggestedFollowups({
+  suggestions,
+  onSelect,
+  disabled = false,
+  className,
+}: SuggestedFollowupsProps) {
+  const chipRefs = React.useRef<(HTMLButtonElement | null)[]>([])
+  const [focusedIndex, setFocusedIndex] = React.useState(0)
+
+  // Reset the roving tab stop when a new set of suggestions arrives
+  React.useEffect(() => {
+    setFocusedIndex(0)
+  }, [suggestions])
+
+  const focusChip = (index: number) => {
+    const count = suggestions.length
+    const next = (index + count) % count
+    setFocusedIndex(next)
+    chipRefs.current[next]?.focus()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        e.preventDefault()
+        focusChip(index + 1)
+        break
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        e.preventDefault()
+        focusChip(index - 1)
+        break
+      case 'Home':
+        e.preventDefault()
+        focusChip(0)
+        break
+      case 'End':
+        e.preventDefault()
+        focusChip(suggestions.length - 1)
+        break
+    }
+  }
+
+  if (suggestions.length === 0) return null
+
+  return (
+    <div
+      role="group"
+      aria-label="Suggested follow-up questions"
+      className={cn('flex flex-wrap gap-2', className)}
+    >
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion}
+          ref={(el) => { chipRefs.current[index] = el }}
+          type="button"
+          tabIndex={index === focusedIndex ? 0 : -1}
+          disabled={disabled}
+          onClick={() => onSelect(suggestion)}
+          onKeyDown={(e) => handleKeyDown(e, index)}
+          onFocus={() => setFocusedIndex(index)}
+          className="px-3 py-1.5 backdrop-blur-md bg-white/10 border border-white/30 text-white rounded-full text-xs hover:bg-white/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60 transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  )
+}
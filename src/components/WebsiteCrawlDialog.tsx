@@ -0,0 +1,319 @@
+import * as React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { CheckCircle2, Globe, Loader2, MinusCircle, XCircle } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  DEFAULT_CRAWL_OPTIONS,
+  ingestWebsite,
+  type CrawlProgress,
+  type IngestWebsiteResult
+} from '@/utils/websiteCrawler'
+import { normalizeUrl } from '@/utils/htmlText'
+
+const toLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean)
+
+const wholeNumber = (min: number, max: number) =>
+  z.string().trim().regex(/^\d+$/, 'Enter a whole number').refine(
+    value => Number(value) >= min && Number(value) <= max,
+    `Enter a number from ${min} to ${max}`
+  )
+
+const crawlSchema = z.object({
+  seedUrls: z.string().refine(value => toLines(value).length > 0, 'Enter at least one URL').refine(
+    value => toLines(value).every(line => normalizeUrl(line)),
+    'Every line must be an http(s) URL'
+  ),
+  include: z.string(),
+  exclude: z.string(),
+  maxDepth: wholeNumber(0, 5),
+  maxPages: wholeNumber(1, 500),
+})
+
+type CrawlFormValues = z.infer<typeof crawlSchema>
+
+interface WebsiteCrawlDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  ragId: string
+  /** Knowledge base name for the title */
+  knowledgeBaseName?: string
+  /** Called once a crawl has trained anything, to refresh document lists */
+  onComplete?: (result: IngestWebsiteResult) => void
+}
+
+const fieldClass = 'backdrop-blur-md bg-white/10 border-white/20 text-white placeholder:text-white/50 focus-visible:ring-blue-400/50'
+
+const STATUS_ICONS = {
+  ingested: <CheckCircle2 className="h-4 w-4 text-green-400 flex-shrink-0" />,
+  fetched: <CheckCircle2 className="h-4 w-4 text-green-400 flex-shrink-0" />,
+  skipped: <MinusCircle className="h-4 w-4 text-white/50 flex-shrink-0" />,
+  failed: <XCircle className="h-4 w-4 text-red-400 flex-shrink-0" />,
+}
+
+/**
+ * Crawl a website into a knowledge base: scope form, live progress and per-page results
+ */
+export function WebsiteCrawlDialog({ open, onOpenChange, ragId, knowledgeBaseName, onComplete }: WebsiteCrawlDialogProps) {
+  const [progress, setProgress] = React.useState<CrawlProgress | null>(null)
+  const [result, setResult] = React.useState<IngestWebsiteResult | null>(null)
+  const controllerRef = React.useRef<AbortController | null>(null)
+  const form = useForm<CrawlFormValues>({
+    resolver: zodResolver(crawlSchema),
+    defaultValues: {
+      seedUrls: '',
+      include: '',
+      exclude: '',
+      maxDepth: String(DEFAULT_CRAWL_OPTIONS.maxDepth),
+      maxPages: String(DEFAULT_CRAWL_OPTIONS.maxPages),
+    },
+  })
+
+  // Start from the form each time the dialog opens, keeping the last scope
+  React.useEffect(() => {
+    if (open) {
+      setProgress(null)
+      setResult(null)
+    }
+  }, [open])
+
+  // Stop crawling if the page goes away mid-crawl
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const handleSubmit = async (values: CrawlFormValues) => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setResult(null)
+    setProgress({ phase: 'crawling', pagesFetched: 0, maxPages: Number(values.maxPages) })
+
+    const ingested = await ingestWebsite(ragId, {
+      seedUrls: toLines(values.seedUrls),
+      include: toLines(values.include),
+      exclude: toLines(values.exclude),
+      maxDepth: Number(values.maxDepth),
+      maxPages: Number(values.maxPages),
+      signal: controller.signal,
+      onProgress: setProgress,
+    })
+
+    controllerRef.current = null
+    setProgress(null)
+    setResult(ingested)
+    if (ingested.documentCount > 0) onComplete?.(ingested)
+  }
+
+  const isCrawling = form.formState.isSubmitting
+  const handleOpenChange = (next: boolean) => {
+    if (!next) controllerRef.current?.abort()
+    onOpenChange(next)
+  }
+
+  const progressValue = !progress
+    ? 0
+    : progress.phase === 'crawling'
+      ? (progress.pagesFetched / progress.maxPages) * 100
+      : ((progress.chunksTrained || 0) / (progress.totalChunks || 1)) * 100
+  const counts = result && {
+    ingested: result.pages.filter(page => page.status === 'ingested').length,
+    skipped: result.pages.filter(page => page.status === 'skipped').length,
+    failed: result.pages.filter(page => page.status === 'failed').length,
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-xl backdrop-blur-2xl bg-slate-900/95 border-white/20 text-white shadow-2xl [&>button]:text-white/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5 text-blue-300" />
+            Crawl a website{knowledgeBaseName ? ` into ${knowledgeBaseName}` : ''}
+          </DialogTitle>
+          <DialogDescription className="text-white/70">
+            Pages are fetched, split into chunks and trained with their URL, so answers cite the page they came from.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isCrawling ? (
+          <div className="space-y-3 py-2" aria-live="polite">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin text-blue-300" />
+                {progress?.phase === 'training'
+                  ? `Training ${progress.chunksTrained} of ${progress.totalChunks} chunks`
+                  : `Crawling page ${progress?.pagesFetched || 0} of up to ${progress?.maxPages}`}
+              </span>
+            </div>
+            <Progress value={progressValue} className="h-1.5 bg-white/10" />
+            {progress?.phase === 'crawling' && progress.currentUrl && (
+              <p className="text-xs text-white/50 truncate">{progress.currentUrl}</p>
+            )}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => controllerRef.current?.abort()}
+                className="backdrop-blur-md bg-white/10 hover:bg-white/20 text-white border-white/30"
+              >
+                Cancel crawl
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : result ? (
+          <div className="space-y-3">
+            <p className={`text-sm ${result.success ? 'text-white/90' : 'text-red-300'}`} role={result.success ? undefined : 'alert'}>
+              {result.aborted
+                ? `Crawl cancelled. ${result.documentCount} chunks were trained before it stopped.`
+                : result.success
+                  ? `Trained ${result.documentCount} chunks from ${counts.ingested} ${counts.ingested === 1 ? 'page' : 'pages'}.`
+                  : result.details ? `${result.error}: ${result.details}` : result.error}
+            </p>
+            {result.pages.length > 0 && (
+              <>
+                <p className="text-xs text-white/60">
+                  {counts.ingested} ingested · {counts.skipped} skipped · {counts.failed} failed
+                </p>
+                <ScrollArea className="h-64 rounded-md border border-white/10">
+                  <ul className="divide-y divide-white/10">
+                    {result.pages.map(page => (
+                      <li key={page.url} className="flex items-start gap-2 px-3 py-2 text-sm">
+                        {STATUS_ICONS[page.status]}
+                        <div className="min-w-0 flex-1">
+                          <a href={page.url} target="_blank" rel="noopener noreferrer" className="block truncate text-blue-300 hover:underline">
+                            {page.title || page.url}
+                          </a>
+                          <p className="text-xs text-white/50 truncate">
+                            {page.status === 'ingested'
+                              ? `${page.chunkCount} ${page.chunkCount === 1 ? 'chunk' : 'chunks'} · depth ${page.depth}`
+                              : page.reason || page.status}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </>
+            )}
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setResult(null)}
+                className="backdrop-blur-md bg-white/10 hover:bg-white/20 text-white border-white/30"
+              >
+                Crawl again
+              </Button>
+              <Button
+                type="button"
+                onClick={() => handleOpenChange(false)}
+                className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white"
+              >
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="seedUrls"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white/90">Start URLs</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={3} placeholder="https://help.example.com/" className={`${fieldClass} resize-none font-mono text-xs`} />
+                    </FormControl>
+                    <FormDescription className="text-white/50">One per line. Only links on the same sites are followed.</FormDescription>
+                    <FormMessage className="text-red-300" />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="include"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white/90">Only follow</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} rows={3} placeholder="/docs/" className={`${fieldClass} resize-none font-mono text-xs`} />
+                      </FormControl>
+                      <FormMessage className="text-red-300" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="exclude"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white/90">Never follow</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} rows={3} placeholder={'/login\n*?page=*'} className={`${fieldClass} resize-none font-mono text-xs`} />
+                      </FormControl>
+                      <FormMessage className="text-red-300" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-xs text-white/50 -mt-2">
+                One pattern per line, matched anywhere in the URL. Use * as a wildcard to match the whole URL instead.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="maxDepth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white/90">Link depth</FormLabel>
+                      <FormControl>
+                        <Input {...field} inputMode="numeric" className={fieldClass} />
+                      </FormControl>
+                      <FormMessage className="text-red-300" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxPages"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white/90">Page limit</FormLabel>
+                      <FormControl>
+                        <Input {...field} inputMode="numeric" className={fieldClass} />
+                      </FormControl>
+                      <FormMessage className="text-red-300" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter className="gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                  className="backdrop-blur-md bg-white/10 hover:bg-white/20 text-white border-white/30"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white"
+                >
+                  Start crawl
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
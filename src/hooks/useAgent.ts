@@ -16,6 +16,7 @@
 import { useState, useCallback } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
 import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/utils/aiAgent'
+import { getAppConfig } from '@/utils/appConfig'
 
 // =============================================================================
 // Types
@@ -44,6 +45,8 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  signal?: AbortSignal
+  timeout?: number
 }
 
 interface UseAgentResult {
@@ -51,6 +54,7 @@ interface UseAgentResult {
   response: NormalizedAgentResponse
   raw_response?: string
   error?: ErrorDetails
+  aborted?: boolean
 }
 
 // =============================================================================
@@ -81,7 +85,7 @@ const createErrorDetails = (
   type,
   message,
   raw_response,
-  endpoint: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat',
+  endpoint: `${getAppConfig().api.agentBaseUrl}/inference/chat`,
   timestamp: new Date().toISOString(),
   userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
   url: typeof window !== 'undefined' ? window.location.href : 'unknown',
@@ -124,8 +128,8 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
-    const finalAgentId = agentId || options.agentId || import.meta.env.VITE_AGENT_ID
+    const { message, agentId, userId, sessionId, signal, timeout } = callOptions
+    const finalAgentId = agentId || options.agentId || getAppConfig().agentId
 
     if (!finalAgentId) {
       const err = createErrorDetails('api_error', 'No agent_id provided')
@@ -145,11 +149,23 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       const result = await callAIAgent(message, finalAgentId, {
         user_id: userId,
         session_id: sessionId,
+        signal,
+        timeout,
       })
 
       setLastResult(result)
       setResponse(result.response)
 
+      // Cancelled by the caller - nothing to report
+      if (result.aborted) {
+        return {
+          success: false,
+          response: result.response,
+          raw_response: result.raw_response,
+          aborted: true,
+        }
+      }
+
       if (!result.success) {
         const errorDetails = createErrorDetails(
           'api_error',
@@ -266,14 +282,25 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 export const callAgentAPI = async (
   message: string,
   agentId: string,
-  options?: { userId?: string; sessionId?: string }
+  options?: { userId?: string; sessionId?: string; signal?: AbortSignal; timeout?: number }
 ): Promise<UseAgentResult> => {
   try {
     const result = await callAIAgent(message, agentId, {
       user_id: options?.userId,
       session_id: options?.sessionId,
+      signal: options?.signal,
+      timeout: options?.timeout,
     })
 
+    if (result.aborted) {
+      return {
+        success: false,
+        response: result.response,
+        raw_response: result.raw_response,
+        aborted: true,
+      }
+    }
+
     if (!result.success || result.response.status === 'error') {
       const errorDetails = createErrorDetails(
         'api_error',
@@ -5,10 +5,11 @@
  * Works even when AI-generated code uses raw fetch() instead of useAgent hook
  */
 
-// Lyzr Agent API endpoint to intercept
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
 import { isInIframe } from '@/components/ErrorBoundary'
+import { getAppConfig } from '@/utils/appConfig'
+
+// Lyzr Agent API endpoint to intercept
+const getChatUrl = () => `${getAppConfig().api.agentBaseUrl}/inference/chat`
 
 interface ErrorDetails {
   type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'unknown'
@@ -103,7 +104,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'api_error',
         message: data.error,
         raw_response: data.details || data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: getChatUrl(),
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -119,7 +120,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'parse_error',
         message: 'JSON parsing failed but valid data exists in raw_response',
         raw_response: data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: getChatUrl(),
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -139,7 +140,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
             type: 'parse_error',
             message: data.response.error,
             raw_response: data.raw_response,
-            endpoint: LYZR_API_URL,
+            endpoint: getChatUrl(),
             timestamp: new Date().toISOString(),
             userAgent: navigator.userAgent,
             url: window.location.href,
@@ -190,15 +191,20 @@ async function interceptedFetch(
   const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
 
   // Only intercept Lyzr Agent API calls
-  if (!url.includes('agent-prod.studio.lyzr.ai')) {
+  if (!url.startsWith(getAppConfig().api.agentBaseUrl)) {
     return originalFetch(input, init)
   }
 
-  console.log('[AgentInterceptor] Intercepting Lyzr Agent API call')
-
   try {
     const response = await originalFetch(input, init)
 
+    // Streams and other non-JSON bodies go straight back - reading them here would hold the
+    // response until the whole stream had arrived
+    const contentType = response.headers.get('content-type') || ''
+    if (url.includes('/inference/stream/') || !contentType.includes('application/json')) {
+      return response
+    }
+
     // Clone response so we can read it without consuming
     const clonedResponse = response.clone()
 
@@ -52,7 +52,8 @@ export function parseSSEEvent(
   // Use robust JSON parser
   const parseResult = robustJSONParse<Record<string, unknown>>(data)
 
-  if (parseResult.success && parseResult.data) {
+  // Only objects can be events - bare JSON values (e.g. a streamed "42" token) fall through as raw
+  if (parseResult.success && parseResult.data && typeof parseResult.data === 'object' && !Array.isArray(parseResult.data)) {
     const eventData = parseResult.data
 
     // Ensure type field is set
@@ -72,15 +73,16 @@ export function parseSSEEvent(
       success: true,
       event: eventData as unknown as SSEEvent,
       eventType: (eventData.type || eventType) as SSEEventType,
+      raw: data,
       parseStrategy: parseResult.strategy,
     }
   }
 
-  // Parse failed - return error event
+  // Parse failed - return error event with the untrimmed data
   return {
     success: false,
     eventType: 'parse_error' as SSEEventType,
-    raw: parseResult.raw || data,
+    raw: data,
     error: parseResult.error || 'Failed to parse SSE data',
     parseStrategy: parseResult.strategy,
   }
@@ -131,6 +133,47 @@ export function parseSSEStream(rawSSE: string, requestId?: string): ParsedSSEEve
   return events
 }
 
+/**
+ * Incremental SSE decoder for streamed response bodies.
+ * Buffers partial chunks and only parses complete events (terminated by a blank line).
+ *
+ * @example
+ * ```ts
+ * const decoder = createSSEDecoder()
+ * const reader = response.body.getReader()
+ * const textDecoder = new TextDecoder()
+ * let chunk = await reader.read()
+ * while (!chunk.done) {
+ *   decoder.push(textDecoder.decode(chunk.value, { stream: true })).forEach(handle)
+ *   chunk = await reader.read()
+ * }
+ * decoder.flush().forEach(handle)
+ * ```
+ */
+export function createSSEDecoder(requestId?: string) {
+  let buffer = ''
+
+  return {
+    /** Add a chunk of text and return any events it completed */
+    push(chunk: string): ParsedSSEEvent[] {
+      buffer += chunk.replace(/\r\n/g, '\n')
+      const boundary = buffer.lastIndexOf('\n\n')
+      if (boundary === -1) return []
+
+      const complete = buffer.substring(0, boundary + 2)
+      buffer = buffer.substring(boundary + 2)
+      return parseSSEStream(complete, requestId)
+    },
+
+    /** Parse whatever is left in the buffer once the stream ends */
+    flush(): ParsedSSEEvent[] {
+      const rest = buffer
+      buffer = ''
+      return rest.trim() ? parseSSEStream(rest, requestId) : []
+    },
+  }
+}
+
 /**
  * Create an error event from a parse failure
  */
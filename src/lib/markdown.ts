@@ -0,0 +1,85 @@
+/**
+ * Markdown helpers for rendering agent answers
+ * Closes half-received syntax while streaming and turns [n] markers into citation nodes
+ */
+
+import { splitCitations } from '@/utils/sources'
+
+/**
+ * Close Markdown constructs left open by a partially streamed answer so the
+ * renderer doesn't flip the rest of the message into a code block or bold run.
+ */
+export function completePartialMarkdown(markdown: string): string {
+  let completed = markdown
+
+  // Unterminated fenced code block
+  const fences = completed.match(/^\s*(```|~~~)/gm) || []
+  if (fences.length % 2 === 1) {
+    return completed.endsWith('\n') ? `${completed}${fences[0].trim()}` : `${completed}\n${fences[0].trim()}`
+  }
+
+  // Only inline markers on the last line can still be open
+  const lastLine = completed.slice(completed.lastIndexOf('\n') + 1)
+
+  const backticks = (lastLine.match(/`/g) || []).length
+  if (backticks % 2 === 1) {
+    completed += '`'
+    return completed
+  }
+
+  const bold = (lastLine.match(/\*\*/g) || []).length
+  if (bold % 2 === 1) {
+    completed += '**'
+  }
+
+  // Half-typed link: drop the dangling "[text](" tail until the URL is complete
+  completed = completed.replace(/\[([^\]\n]*)\]\([^)\s]*$/, '$1')
+
+  return completed
+}
+
+// Elements whose text must not be turned into citation markers
+const CITATION_SKIP_TAGS = ['code', 'pre', 'a']
+
+/**
+ * Rehype plugin that replaces `[n]` markers in text with
+ * `<sup data-citation="n">` elements for the renderer to swap in.
+ * Must run after sanitization so the generated nodes survive.
+ */
+export function rehypeCitations(options: { count: number }) {
+  const transform = (node: any) => {
+    if (!node.children) return
+    if (node.type === 'element' && CITATION_SKIP_TAGS.includes(node.tagName)) return
+
+    node.children = node.children.flatMap((child: any) => {
+      if (child.type !== 'text') {
+        transform(child)
+        return [child]
+      }
+
+      return splitCitations(child.value, options.count).map(part =>
+        part.type === 'text'
+          ? { type: 'text', value: part.text }
+          : {
+              type: 'element',
+              tagName: 'sup',
+              properties: { dataCitation: String(part.index) },
+              children: [{ type: 'text', value: `[${part.index}]` }],
+            }
+      )
+    })
+  }
+
+  return (tree: any) => {
+    if (options.count > 0) transform(tree)
+  }
+}
+
+/**
+ * Plain text content of a hast node (used for copy-to-clipboard)
+ */
+export function getNodeText(node: any): string {
+  if (!node) return ''
+  if (node.type === 'text') return node.value
+  return (node.children || []).map(getNodeText).join('')
+}
@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react'
+
+/**
+ * Element that Radix portals (popovers, menus) render into.
+ * Defaults to document.body; the embeddable widget points it inside its
+ * shadow root so portalled content picks up the widget's styles.
+ */
+export const PortalContainerContext = createContext<HTMLElement | null>(null)
+
+export const usePortalContainer = () => useContext(PortalContainerContext) ?? undefined
@@ -1,10 +1,27 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
+import { SuggestedFollowups } from '@/components/SuggestedFollowups'
+import { CitationMarker, SourceList } from '@/components/SourceCitations'
+import { MarkdownContent } from '@/components/MarkdownContent'
+import { FeedbackControls } from '@/components/FeedbackControls'
+import { HandoffDialog } from '@/components/HandoffDialog'
+import { useAppConfig } from '@/components/AppConfigProvider'
+import { ConversationExportMenu } from '@/components/ConversationExportMenu'
+import { MessageSearchResults } from '@/components/MessageSearchResults'
+import {
+  ConversationContextMenu,
+  ConversationDropdownMenu,
+  type ConversationMenuActions
+} from '@/components/ConversationMenu'
+import { toast } from 'sonner'
+import { Link } from 'react-router-dom'
 import {
   Send,
   Minimize2,
@@ -13,51 +30,79 @@ import {
   MessageCircle,
   ChevronLeft,
   ChevronRight,
-  Lightbulb
+  Lightbulb,
+  Square,
+  Download,
+  Upload,
+  Headphones,
+  MoreHorizontal,
+  Loader2,
+  Pin,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  ListChecks,
+  GitBranch,
+  Workflow,
+  Database
 } from 'lucide-react'
-import { callAIAgent } from '@/utils/aiAgent'
+import { streamAIAgent, createSessionId, getBrowserUserId } from '@/utils/aiAgent'
 import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+import { getDocuments, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import { collectFeedback, createFeedbackEvent, submitFeedback } from '@/utils/feedback'
+import { normalizeSources } from '@/utils/sources'
+import { downloadFile } from '@/utils/download'
+import {
+  exportConversations,
+  mergeConversations,
+  parseConversationExport,
+  type ConversationExportFormat
+} from '@/utils/conversationExport'
+import {
+  diffConversationSnapshots,
+  getConversationStore,
+  migrateLegacyConversations,
+  syncConversationStore
+} from '@/utils/conversationStore'
+import { createTabSync, mergeRemoteConversation, type TabSync } from '@/utils/tabSync'
+import { createMessageSearchIndex, type MessageSearchResult } from '@/utils/messageSearch'
+import {
+  createTicketPayload,
+  getHandoffTrigger,
+  getLastQuestion,
+  submitTicket,
+  type HandoffContact,
+  type HandoffTrigger
+} from '@/utils/handoff'
+import { isKnowledgeGap, logUnansweredQuestion } from '@/utils/knowledgeGaps'
+import { getAgentNodes, getWorkflow, hasRouting, routeQuery, toRoutedAgent } from '@/utils/workflow'
+import type { AppConfig } from '@/utils/appConfig'
+import type { Conversation, Message, MessageFeedback, SupportResponse, WorkflowStep } from '@/types'
 
-// Agent ID from workflow.json
-const AGENT_ID = '696608c9c831c63e265e1355'
-
-// TypeScript interfaces based on actual_test_response
-interface SupportResult {
-  answer: string
-  sources: any[]
-  confidence: number
-  suggested_followup: string[]
-}
-
-interface SupportResponse {
-  status: 'success' | 'error'
-  result: SupportResult
-  metadata?: {
-    agent_name?: string
-    timestamp?: string
+// New conversation opening with the configured greeting
+function createNewConversation(config: AppConfig): Conversation {
+  const id = `conv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  const welcomeMessage: Message = {
+    id: `msg-${Date.now()}`,
+    role: 'agent',
+    content: config.greeting,
+    timestamp: new Date()
   }
-}
-
-interface Message {
-  id: string
-  role: 'agent' | 'user'
-  content: string
-  timestamp: Date
-  confidence?: number
-  sources?: any[]
-  suggested_followup?: string[]
-}
 
-interface Conversation {
-  id: string
-  title: string
-  preview: string
-  timestamp: Date
-  messages: Message[]
+  return {
+    id,
+    title: 'New Conversation',
+    preview: config.greeting.slice(0, 60),
+    timestamp: new Date(),
+    messages: [welcomeMessage],
+    sessionId: createSessionId(config.agentId),
+    userId: getBrowserUserId()
+  }
 }
 
-// Quick reply chips for initial suggestions
-const QUICK_REPLIES = ['Pricing', 'How to get started', 'Return policy', 'Contact sales']
+// Citations link to the document in the knowledge base admin, when admin links are enabled
+const getKnowledgeAdminHref = (ragId: string) => (document: RAGDocument) =>
+  `/admin/knowledge?kb=${encodeURIComponent(ragId)}&doc=${encodeURIComponent(document.fileName)}`
 
 // Typing indicator component
 function TypingIndicator() {
@@ -73,8 +118,26 @@ function TypingIndicator() {
 }
 
 // Message bubble component
-function MessageBubble({ message }: { message: Message }) {
+function MessageBubble({
+  message,
+  isStreaming = false,
+  isHighlighted = false,
+  knowledgeBaseDocuments = [],
+  knowledgeBaseRagId,
+  onFeedback
+}: {
+  message: Message
+  isStreaming?: boolean
+  // Briefly outlined after jumping here from search
+  isHighlighted?: boolean
+  knowledgeBaseDocuments?: RAGDocument[]
+  knowledgeBaseRagId?: string
+  onFeedback?: (feedback: MessageFeedback | undefined) => void
+}) {
   const isAgent = message.role === 'agent'
+  const sources = isAgent ? message.sources || [] : []
+  const agentStep = message.path?.find(step => step.type === 'Agent')
+  const getDocumentHref = knowledgeBaseRagId ? getKnowledgeAdminHref(knowledgeBaseRagId) : undefined
   const timeStr = message.timestamp.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
@@ -82,17 +145,32 @@ function MessageBubble({ message }: { message: Message }) {
   })
 
   return (
-    <div className={`flex ${isAgent ? 'justify-start' : 'justify-end'} mb-4 animate-in slide-in-from-bottom-2 duration-300`}>
+    <div id={`message-${message.id}`} className={`flex ${isAgent ? 'justify-start' : 'justify-end'} mb-4 animate-in slide-in-from-bottom-2 duration-300`}>
       <div className={`flex flex-col ${isAgent ? 'items-start' : 'items-end'} max-w-[75%]`}>
         <div
-          className={`px-4 py-3 rounded-2xl backdrop-blur-xl border shadow-lg ${
+          className={`px-4 py-3 rounded-2xl backdrop-blur-xl border shadow-lg transition-shadow duration-300 ${
             isAgent
               ? 'bg-gradient-to-br from-blue-500/80 to-purple-600/80 text-white border-white/30 rounded-bl-sm'
               : 'bg-white/20 text-white border-white/30 rounded-br-sm'
-          }`}
+          } ${isHighlighted ? 'ring-2 ring-yellow-300/80 ring-offset-2 ring-offset-slate-900' : ''}`}
           style={{ boxShadow: isAgent ? '0 8px 32px 0 rgba(59, 130, 246, 0.37)' : '0 8px 32px 0 rgba(255, 255, 255, 0.15)' }}
         >
-          <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+          {isAgent ? (
+            <MarkdownContent
+              content={message.content}
+              isStreaming={isStreaming}
+              citationCount={sources.length}
+              renderCitation={(index) => (
+                <CitationMarker source={sources[index - 1]} documents={knowledgeBaseDocuments} getDocumentHref={getDocumentHref} />
+              )}
+            />
+          ) : (
+            <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+          )}
+          {/* Caret while the answer is still streaming in */}
+          {isStreaming && (
+            <span className="inline-block w-1.5 h-4 mt-1 bg-white/80 animate-pulse" />
+          )}
 
           {/* Confidence score for agent messages */}
           {isAgent && message.confidence !== undefined && message.confidence > 0 && (
@@ -107,42 +185,33 @@ function MessageBubble({ message }: { message: Message }) {
           )}
 
           {/* Sources */}
-          {isAgent && message.sources && message.sources.length > 0 && (
-            <div className="mt-2 pt-2 border-t border-white/20">
-              <p className="text-xs text-white/80 mb-1">Sources:</p>
-              <div className="space-y-1">
-                {message.sources.map((source, idx) => {
-                  const sourceText = typeof source === 'string' ? source : JSON.stringify(source)
-                  const urlMatch = sourceText.match(/https?:\/\/[^\s]+/)
-
-                  if (urlMatch) {
-                    return (
-                      <a
-                        key={idx}
-                        href={urlMatch[0]}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-xs text-white/90 hover:text-white underline block transition-colors"
-                      >
-                        {sourceText}
-                      </a>
-                    )
-                  }
-
-                  return (
-                    <p key={idx} className="text-xs text-white/80">
-                      {sourceText}
-                    </p>
-                  )
-                })}
-              </div>
-            </div>
+          {sources.length > 0 && (
+            <SourceList
+              sources={sources}
+              documents={knowledgeBaseDocuments}
+              getDocumentHref={getDocumentHref}
+              className="mt-2 pt-2 border-t border-white/20"
+            />
           )}
         </div>
 
-        <span className={`text-xs text-white/50 mt-1 ${isAgent ? 'ml-1' : 'mr-1'}`}>
-          {timeStr}
-        </span>
+        <div className={`flex items-center gap-2 mt-1 ${isAgent ? 'ml-1' : 'mr-1'}`}>
+          <span className="text-xs text-white/50">
+            {timeStr}
+          </span>
+          {agentStep && (
+            <span
+              className="flex items-center gap-1 text-xs text-white/50"
+              title={message.path.map(step => (step.route ? `${step.label} (${step.route})` : step.label)).join(' → ')}
+            >
+              <GitBranch className="h-3 w-3" />
+              {agentStep.label}
+            </span>
+          )}
+          {onFeedback && (
+            <FeedbackControls feedback={message.feedback} onFeedback={onFeedback} />
+          )}
+        </div>
 
       </div>
     </div>
@@ -153,125 +222,308 @@ function MessageBubble({ message }: { message: Message }) {
 function ConversationItem({
   conversation,
   isActive,
-  onClick
+  isSelecting,
+  isSelected,
+  onClick,
+  onToggleSelect,
+  onRename,
+  actions
 }: {
   conversation: Conversation
   isActive: boolean
+  // Bulk selection mode - clicking toggles selection instead of opening
+  isSelecting: boolean
+  isSelected: boolean
   onClick: () => void
+  onToggleSelect: () => void
+  onRename: (title: string) => void
+  actions: Omit<ConversationMenuActions, 'onRename'>
 }) {
+  const [isRenaming, setIsRenaming] = useState(false)
   const dateStr = conversation.timestamp.toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric'
   })
 
+  const finishRename = (title: string | null) => {
+    setIsRenaming(false)
+    const trimmed = title?.trim()
+    if (trimmed && trimmed !== conversation.title) {
+      onRename(trimmed)
+    }
+  }
+
+  const itemClass = `w-full text-left p-3 rounded-lg transition-all duration-200 ${
+    isActive || isSelected
+      ? 'backdrop-blur-md bg-white/20 border border-white/40 shadow-lg'
+      : 'backdrop-blur-md bg-white/5 hover:bg-white/10 border border-white/10'
+  }`
+
+  if (isRenaming) {
+    return (
+      <div className={itemClass}>
+        <Input
+          autoFocus
+          defaultValue={conversation.title}
+          maxLength={80}
+          aria-label="Conversation title"
+          onFocus={(e) => e.target.select()}
+          onBlur={(e) => finishRename(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') finishRename(e.currentTarget.value)
+            if (e.key === 'Escape') finishRename(null)
+          }}
+          className="h-8 backdrop-blur-md bg-white/10 border-white/30 text-white text-sm"
+        />
+      </div>
+    )
+  }
+
   return (
-    <button
-      onClick={onClick}
-      className={`w-full text-left p-3 rounded-lg transition-all duration-200 ${
-        isActive
-          ? 'backdrop-blur-md bg-white/20 border border-white/40 shadow-lg'
-          : 'backdrop-blur-md bg-white/5 hover:bg-white/10 border border-white/10'
-      }`}
-    >
-      <div className="flex items-start justify-between mb-1">
-        <h4 className="text-sm font-medium text-white truncate flex-1">
-          {conversation.title}
-        </h4>
-        <span className="text-xs text-white/60 ml-2">{dateStr}</span>
+    <ConversationContextMenu conversation={conversation} onRename={() => setIsRenaming(true)} {...actions}>
+      <div className="relative group">
+        {isSelecting && (
+          <Checkbox
+            checked={isSelected}
+            onCheckedChange={onToggleSelect}
+            aria-label={`Select ${conversation.title}`}
+            className="absolute left-3 top-1/2 -translate-y-1/2 z-10 border-white/60 data-[state=checked]:bg-white data-[state=checked]:text-slate-900"
+          />
+        )}
+        <button
+          onClick={isSelecting ? onToggleSelect : onClick}
+          className={`${itemClass} ${isSelecting ? 'pl-10' : ''}`}
+        >
+          <div className="flex items-start justify-between mb-1 pr-6">
+            <h4 className="text-sm font-medium text-white truncate flex-1 flex items-center gap-1.5">
+              {conversation.pinned && <Pin className="h-3 w-3 shrink-0 text-white/70" aria-label="Pinned" />}
+              <span className="truncate">{conversation.title}</span>
+            </h4>
+            <span className="text-xs text-white/60 ml-2">{dateStr}</span>
+          </div>
+          <p className="text-xs text-white/70 truncate">{conversation.preview}</p>
+        </button>
+        {!isSelecting && (
+          <ConversationDropdownMenu conversation={conversation} onRename={() => setIsRenaming(true)} {...actions}>
+            <button
+              type="button"
+              aria-label={`Actions for ${conversation.title}`}
+              className="absolute top-2 right-2 p-1 rounded text-white/60 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </button>
+          </ConversationDropdownMenu>
+        )}
       </div>
-      <p className="text-xs text-white/70 truncate">{conversation.preview}</p>
-    </button>
+    </ConversationContextMenu>
   )
 }
 
 export default function Home() {
+  const config = useAppConfig()
+  const { agentId, features, limits } = config
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [activeConversationId, setActiveConversationId] = useState<string>('')
   const [inputValue, setInputValue] = useState('')
   const [isTyping, setIsTyping] = useState(false)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  // Knowledge base documents for citation links, keyed by RAG ID
+  const [documentsByRagId, setDocumentsByRagId] = useState<Record<string, RAGDocument[]>>({})
   const [isSidebarOpen, setIsSidebarOpen] = useState(true)
   const [searchQuery, setSearchQuery] = useState('')
   const [showFeatureRequest, setShowFeatureRequest] = useState(false)
   const [featureRequestText, setFeatureRequestText] = useState('')
+  // Why the handoff dialog was opened - null while it is closed
+  const [handoffTrigger, setHandoffTrigger] = useState<HandoffTrigger | null>(null)
+  // Conversation each other tab is currently waiting on the agent in, keyed by tab ID
+  const [otherTabRequests, setOtherTabRequests] = useState<Record<string, string>>({})
+  // Message to scroll to and outline after picking a search result
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const [conversationView, setConversationView] = useState<'active' | 'archived'>('active')
+  // Bulk selection mode in the sidebar
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  // Controller for the in-flight agent request, if any
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Last snapshot written to the conversation store - null until the store has loaded
+  const savedConversationsRef = useRef<Conversation[] | null>(null)
+  // Store writes run one after another so snapshots land in order
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const hasReportedSaveErrorRef = useRef(false)
+  const tabSyncRef = useRef<TabSync | null>(null)
+  // Conversation objects and deletions that came from another tab - not broadcast back
+  const remoteConversationsRef = useRef(new WeakSet<Conversation>())
+  const remoteDeletedIdsRef = useRef(new Set<string>())
+  // This tab's in-flight request, if any
+  const activeRequestRef = useRef<{ conversationId: string; agentMessageId: string } | null>(null)
+  const searchIndexRef = useRef(createMessageSearchIndex())
 
   // Get active conversation
   const activeConversation = conversations.find(c => c.id === activeConversationId)
 
-  // Load conversations from localStorage on mount
+  // Load conversations from the store on mount, migrating the legacy localStorage key first
   useEffect(() => {
-    const stored = localStorage.getItem('support-conversations')
-    if (stored) {
+    let cancelled = false
+    const store = getConversationStore()
+
+    async function loadConversations() {
+      let loaded: Conversation[] = []
       try {
-        const parsed = JSON.parse(stored)
-        const conversationsWithDates = parsed.map((conv: any) => ({
-          ...conv,
-          timestamp: new Date(conv.timestamp),
-          messages: conv.messages.map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }))
-        }))
-        setConversations(conversationsWithDates)
-        if (conversationsWithDates.length > 0) {
-          setActiveConversationId(conversationsWithDates[0].id)
-        }
+        await migrateLegacyConversations(store, config.agentId)
+        loaded = await store.loadConversations()
       } catch (e) {
-        console.error('Failed to parse stored conversations:', e)
+        console.error('Failed to load stored conversations:', e)
       }
+      if (cancelled) return
+
+      savedConversationsRef.current = loaded
+
+      // If no conversations, create initial one
+      const initial = loaded.length > 0 ? loaded : [createNewConversation(config)]
+      setConversations(initial)
+      setActiveConversationId(initial[0].id)
     }
 
-    // If no conversations, create initial one
-    if (!stored || JSON.parse(stored).length === 0) {
-      const initialConv = createNewConversation()
-      setConversations([initialConv])
-      setActiveConversationId(initialConv.id)
+    loadConversations()
+    return () => {
+      cancelled = true
     }
-  }, [])
+  }, [config])
 
-  // Save conversations to localStorage whenever they change
+  // Load knowledge base documents so citations can link back to them - one set per routed agent's KB
   useEffect(() => {
-    if (conversations.length > 0) {
-      localStorage.setItem('support-conversations', JSON.stringify(conversations))
+    const ragIds = new Set([config.ragId])
+    if (features.routing) {
+      getAgentNodes(getWorkflow()).forEach(node => node.ragId && ragIds.add(node.ragId))
     }
-  }, [conversations])
+    ragIds.forEach(ragId => {
+      getDocuments(ragId).then(result => {
+        if (result.success) {
+          setDocumentsByRagId(prev => ({ ...prev, [ragId]: result.documents || [] }))
+        }
+      })
+    })
+  }, [config.ragId, features.routing])
 
-  // Auto-scroll to latest message
+  // Keep other tabs in sync: merge their conversation changes and track their in-flight requests
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [activeConversation?.messages, isTyping])
+    const tabSync = createTabSync()
+    tabSyncRef.current = tabSync
 
-  // Listen for suggested question clicks
-  useEffect(() => {
-    const handleSuggestedQuestion = (e: CustomEvent) => {
-      setInputValue(e.detail)
-      inputRef.current?.focus()
+    const unsubscribe = tabSync.subscribe((event, fromTabId) => {
+      switch (event.type) {
+        case 'conversation-updated':
+          setConversations(prev => {
+            const local = prev.find(conv => conv.id === event.conversation.id)
+            const merged = mergeRemoteConversation(local, event.conversation, activeRequestRef.current?.agentMessageId)
+            remoteConversationsRef.current.add(merged)
+            return local ? prev.map(conv => (conv.id === merged.id ? merged : conv)) : [merged, ...prev]
+          })
+          break
+        case 'conversation-deleted':
+          remoteDeletedIdsRef.current.add(event.conversationId)
+          setConversations(prev => (prev.some(conv => conv.id === event.conversationId)
+            ? prev.filter(conv => conv.id !== event.conversationId)
+            : prev))
+          break
+        case 'request-state':
+          setOtherTabRequests(prev => {
+            const next = { ...prev }
+            if (event.active) {
+              next[fromTabId] = event.conversationId
+            } else {
+              delete next[fromTabId]
+            }
+            return next
+          })
+          break
+        case 'request-state-query':
+          if (activeRequestRef.current) {
+            tabSync.post({ type: 'request-state', conversationId: activeRequestRef.current.conversationId, active: true })
+          }
+          break
+      }
+    })
+
+    // Ask already-open tabs whether they are mid-request
+    tabSync.post({ type: 'request-state-query' })
+
+    // Don't leave other tabs showing a request this tab will never finish
+    const handlePageHide = () => {
+      if (activeRequestRef.current) {
+        tabSync.post({ type: 'request-state', conversationId: activeRequestRef.current.conversationId, active: false })
+      }
     }
+    window.addEventListener('pagehide', handlePageHide)
 
-    window.addEventListener('send-suggested-question', handleSuggestedQuestion as EventListener)
     return () => {
-      window.removeEventListener('send-suggested-question', handleSuggestedQuestion as EventListener)
+      handlePageHide()
+      window.removeEventListener('pagehide', handlePageHide)
+      unsubscribe()
+      tabSync.close()
+      tabSyncRef.current = null
     }
   }, [])
 
-  function createNewConversation(): Conversation {
-    const id = `conv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    const welcomeMessage: Message = {
-      id: `msg-${Date.now()}`,
-      role: 'agent',
-      content: "Hi! I'm here to help. Ask me anything about our products and services.",
-      timestamp: new Date()
+  // Write changed conversations to the store and broadcast them to other tabs.
+  // A streaming answer is saved once it completes.
+  useEffect(() => {
+    const previous = savedConversationsRef.current
+    if (!previous || streamingMessageId) return
+
+    savedConversationsRef.current = conversations
+
+    const { changed, removedIds } = diffConversationSnapshots(previous, conversations)
+    changed
+      .filter(conv => !remoteConversationsRef.current.has(conv))
+      .forEach(conv => tabSyncRef.current?.post({ type: 'conversation-updated', conversation: conv }))
+    removedIds
+      .filter(id => !remoteDeletedIdsRef.current.has(id))
+      .forEach(id => tabSyncRef.current?.post({ type: 'conversation-deleted', conversationId: id }))
+
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => syncConversationStore(getConversationStore(), previous, conversations))
+      .catch(e => {
+        console.error('Failed to save conversations:', e)
+        if (!hasReportedSaveErrorRef.current) {
+          hasReportedSaveErrorRef.current = true
+          toast.error("Couldn't save your conversations", {
+            description: 'Browser storage may be full or disabled. New messages may be lost on reload.'
+          })
+        }
+      })
+  }, [conversations, streamingMessageId])
+
+  // The conversation shown here may be deleted (here or in another tab) - fall back to the most recent active one
+  useEffect(() => {
+    if (savedConversationsRef.current && conversations.length > 0 && !activeConversation) {
+      setActiveConversationId((conversations.find(conv => !conv.archived) || conversations[0]).id)
     }
+  }, [conversations, activeConversation])
+
+  // Auto-scroll to latest message
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [activeConversation?.messages, isTyping])
+
+  // Jump to the message picked from search, then fade the outline
+  useEffect(() => {
+    if (!highlightedMessageId) return
+
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500)
+    return () => clearTimeout(timer)
+  }, [highlightedMessageId, activeConversationId])
 
-    return {
-      id,
-      title: 'New Conversation',
-      preview: 'Hi! I\'m here to help...',
-      timestamp: new Date(),
-      messages: [welcomeMessage]
+  // Cancel the in-flight request when switching conversations, starting a new chat or leaving the page
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort()
     }
-  }
+  }, [activeConversationId])
 
   function addMessageToConversation(conversationId: string, message: Message) {
     setConversations(prev => prev.map(conv => {
@@ -300,9 +552,26 @@ export default function Home() {
     }))
   }
 
+  function updateMessageInConversation(conversationId: string, messageId: string, updates: Partial<Message>) {
+    setConversations(prev => prev.map(conv => {
+      if (conv.id !== conversationId) return conv
+
+      const messages = conv.messages.map(msg => (msg.id === messageId ? { ...msg, ...updates } : msg))
+
+      // Keep the preview in sync when the latest message grows
+      let preview = conv.preview
+      const latest = messages[messages.length - 1]
+      if (updates.content !== undefined && latest?.id === messageId) {
+        preview = latest.content.slice(0, 60) + (latest.content.length > 60 ? '...' : '')
+      }
+
+      return { ...conv, messages, preview }
+    }))
+  }
+
   async function handleSendMessage(messageText?: string) {
     const textToSend = messageText || inputValue.trim()
-    if (!textToSend || !activeConversationId) return
+    if (!textToSend || !activeConversation) return
 
     // Add user message
     const userMessage: Message = {
@@ -316,49 +585,279 @@ export default function Home() {
     setInputValue('')
     setIsTyping(true)
 
+    const conversationId = activeConversationId
+    const agentMessageId = `msg-${Date.now()}-agent`
+    let agentMessageAdded = false
+    // Workflow nodes behind this answer, once routed
+    let path: WorkflowStep[] | undefined
+
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    activeRequestRef.current = { conversationId, agentMessageId }
+    tabSyncRef.current?.post({ type: 'request-state', conversationId, active: true })
+
+    // Add the agent message on first output, then update it in place as the answer grows
+    const putAgentMessage = (fields: Partial<Message>) => {
+      if (!agentMessageAdded) {
+        agentMessageAdded = true
+        addMessageToConversation(conversationId, {
+          id: agentMessageId,
+          role: 'agent',
+          content: '',
+          timestamp: new Date(),
+          ...(path ? { path } : {}),
+          ...fields
+        })
+      } else {
+        updateMessageInConversation(conversationId, agentMessageId, fields)
+      }
+    }
+
     try {
-      // Call AI agent
-      const result = await callAIAgent(textToSend, AGENT_ID)
+      // The router picks an agent on the first question; after that the conversation stays with it
+      let targetAgentId = agentId
+      let sessionId = activeConversation.sessionId
+      if (features.routing && hasRouting(getWorkflow())) {
+        const routing = await routeQuery(getWorkflow(), textToSend, {
+          stickyNodeId: activeConversation.routedAgent?.nodeId,
+          user_id: activeConversation.userId,
+          signal: controller.signal
+        })
+        if (routing.success) {
+          targetAgentId = routing.agent.agentId
+          path = routing.path
+          // Only a real classification pins the conversation - a fallback (e.g. Stop during
+          // classification) would otherwise keep it on the default agent for good
+          const pinned = !controller.signal.aborted && routing.method !== 'default'
+          if (pinned && activeConversation.routedAgent?.nodeId !== routing.agent.id) {
+            // Agent memory is per session, so a different agent gets a session of its own
+            if (!sessionId.startsWith(`${targetAgentId}-`)) {
+              sessionId = createSessionId(targetAgentId)
+            }
+            updateConversations([conversationId], { routedAgent: toRoutedAgent(routing.agent), sessionId })
+          }
+        } else {
+          console.warn('Workflow routing failed, using the default agent:', routing.error)
+        }
+      }
 
-      if (result.success && result.response) {
+      // Stream AI agent response
+      const result = await streamAIAgent(textToSend, targetAgentId, {
+        user_id: activeConversation.userId,
+        session_id: sessionId,
+        signal: controller.signal,
+        timeout: limits.requestTimeoutMs || undefined,
+        onAnswer: (partialAnswer) => {
+          setIsTyping(false)
+          setStreamingMessageId(agentMessageId)
+          putAgentMessage({ content: partialAnswer })
+        }
+      })
+
+      if (result.aborted) {
+        // Stopped by the user or a conversation switch - keep whatever was streamed so far
+      } else if (result.success && result.response) {
         const response = result.response as unknown as SupportResponse
 
-        // Add agent response message
-        const agentMessage: Message = {
-          id: `msg-${Date.now()}-agent`,
-          role: 'agent',
+        // Final agent response message
+        const answer: Partial<Message> = {
           content: response.result.answer,
-          timestamp: new Date(),
           confidence: response.result.confidence,
-          sources: response.result.sources,
+          status: response.status,
+          sources: normalizeSources(response.result.sources),
           suggested_followup: response.result.suggested_followup
         }
+        putAgentMessage(answer)
 
-        addMessageToConversation(activeConversationId, agentMessage)
+        // Questions the knowledge base couldn't answer feed the knowledge gap report
+        if (features.knowledgeGaps && isKnowledgeGap(answer, limits.gapConfidenceThreshold)) {
+          logUnansweredQuestion({
+            question: textToSend,
+            answer: answer.content,
+            confidence: answer.confidence,
+            status: answer.status,
+            sourceCount: answer.sources.length,
+            ragId: path?.find(step => step.type === 'Agent')?.ragId || config.ragId,
+            agentId: targetAgentId,
+            conversationId
+          })
+        }
       } else {
         // Error handling
-        const errorMessage: Message = {
-          id: `msg-${Date.now()}-agent`,
-          role: 'agent',
+        putAgentMessage({
           content: result.error || 'Sorry, I encountered an error. Please try again.',
-          timestamp: new Date()
-        }
-        addMessageToConversation(activeConversationId, errorMessage)
+          status: 'error'
+        })
       }
     } catch (error) {
       console.error('Failed to send message:', error)
-      const errorMessage: Message = {
-        id: `msg-${Date.now()}-agent`,
-        role: 'agent',
+      putAgentMessage({
         content: 'Sorry, something went wrong. Please try again.',
-        timestamp: new Date()
-      }
-      addMessageToConversation(activeConversationId, errorMessage)
+        status: 'error'
+      })
     } finally {
-      setIsTyping(false)
+      // A newer request may have taken over - only reset state we own
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        activeRequestRef.current = null
+        tabSyncRef.current?.post({ type: 'request-state', conversationId, active: false })
+        setIsTyping(false)
+        setStreamingMessageId(null)
+      }
     }
   }
 
+  // Knowledge base the answering agent searched
+  function messageRagId(message: Message): string {
+    return message.path?.find(step => step.type === 'Agent')?.ragId || config.ragId
+  }
+
+  function handleFeedback(message: Message, feedback: MessageFeedback | undefined) {
+    if (!activeConversation) return
+
+    updateMessageInConversation(activeConversation.id, message.id, { feedback })
+
+    if (feedback) {
+      submitFeedback(createFeedbackEvent(activeConversation, message, feedback))
+    }
+  }
+
+  function handleExportFeedback() {
+    const events = collectFeedback(conversations)
+    const date = new Date().toISOString().slice(0, 10)
+    downloadFile(`support-feedback-${date}.json`, JSON.stringify(events, null, 2), 'application/json')
+  }
+
+  async function handleHandoffSubmit(contact: HandoffContact): Promise<string | void> {
+    if (!activeConversation || !handoffTrigger) return
+
+    const conversationId = activeConversation.id
+    const payload = createTicketPayload(activeConversation, contact, handoffTrigger)
+    const result = await submitTicket(payload)
+
+    if (!result.success || !result.ticket) {
+      return "We couldn't create your ticket. Please try again in a moment."
+    }
+
+    const ticket = result.ticket
+    setConversations(prev => prev.map(conv => (conv.id === conversationId ? { ...conv, handoff: ticket } : conv)))
+    addMessageToConversation(conversationId, {
+      id: `msg-${Date.now()}-handoff`,
+      role: 'agent',
+      content: `Thanks, ${contact.name.trim()}! I've passed this conversation to our support team as ticket **${ticket.ticketId}**. ` +
+        `Someone will follow up at ${ticket.email}.`,
+      timestamp: new Date()
+    })
+    setHandoffTrigger(null)
+  }
+
+  function handleExportConversations(toExport: Conversation[], format: ConversationExportFormat) {
+    if (toExport.length === 0) return
+    const file = exportConversations(toExport, format)
+    downloadFile(file.fileName, file.content, file.mimeType)
+  }
+
+  async function handleImportConversations(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    // Allow picking the same file again
+    e.target.value = ''
+    if (!file) return
+
+    const result = parseConversationExport(await file.text(), agentId)
+    if (!result.success || !result.conversations) {
+      toast.error(result.error || 'Import failed', { description: result.details })
+      return
+    }
+
+    const merged = mergeConversations(conversations, result.conversations)
+    setConversations(merged.conversations)
+    if (merged.added === 0 && merged.updated === 0) {
+      toast.info('Nothing new to import', { description: 'All conversations in this file are already here.' })
+    } else {
+      toast.success(`Imported ${merged.added} new, updated ${merged.updated} existing conversation${merged.updated === 1 ? '' : 's'}`)
+    }
+  }
+
+  function updateConversations(ids: string[], updates: Partial<Conversation>) {
+    setConversations(prev => prev.map(conv => (ids.includes(conv.id) ? { ...conv, ...updates } : conv)))
+  }
+
+  function handleRenameConversation(id: string, title: string) {
+    updateConversations([id], { title })
+  }
+
+  function handleSetArchived(ids: string[], archived: boolean) {
+    updateConversations(ids, { archived })
+    const label = ids.length === 1 ? 'Conversation' : `${ids.length} conversations`
+    toast(`${label} ${archived ? 'archived' : 'restored'}`, {
+      action: { label: 'Undo', onClick: () => updateConversations(ids, { archived: !archived }) }
+    })
+  }
+
+  function handleDeleteConversations(ids: string[]) {
+    // Remember where each conversation was so Undo can put it back in place
+    const removed = conversations
+      .map((conversation, index) => ({ conversation, index }))
+      .filter(({ conversation }) => ids.includes(conversation.id))
+    if (removed.length === 0) return
+
+    const remaining = conversations.filter(conv => !ids.includes(conv.id))
+    setConversations(remaining.length > 0 ? remaining : [createNewConversation(config)])
+
+    const label = removed.length === 1 ? 'Conversation' : `${removed.length} conversations`
+    toast(`${label} deleted`, {
+      action: {
+        label: 'Undo',
+        onClick: () => setConversations(prev => {
+          const next = [...prev]
+          removed.forEach(({ conversation, index }) => {
+            if (!next.some(conv => conv.id === conversation.id)) {
+              next.splice(Math.min(index, next.length), 0, conversation)
+            }
+          })
+          return next
+        })
+      }
+    })
+  }
+
+  function handleToggleSelected(id: string) {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  function exitSelection() {
+    setIsSelecting(false)
+    setSelectedIds(new Set())
+  }
+
+  function handleBulkArchive() {
+    handleSetArchived([...selectedIds], conversationView === 'active')
+    exitSelection()
+  }
+
+  function handleBulkDelete() {
+    handleDeleteConversations([...selectedIds])
+    exitSelection()
+  }
+
+  function handleSelectSearchResult(result: MessageSearchResult) {
+    setActiveConversationId(result.conversationId)
+    setHighlightedMessageId(result.messageId)
+  }
+
+  function handleStopGenerating() {
+    abortControllerRef.current?.abort()
+  }
+
   function handleKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -367,9 +866,10 @@ export default function Home() {
   }
 
   function handleNewConversation() {
-    const newConv = createNewConversation()
+    const newConv = createNewConversation(config)
     setConversations(prev => [newConv, ...prev])
     setActiveConversationId(newConv.id)
+    setConversationView('active')
   }
 
   function handleFeatureRequest() {
@@ -383,12 +883,41 @@ export default function Home() {
     setShowFeatureRequest(false)
   }
 
+  // Follow-up suggestions from the latest agent reply, once it has finished
+  const latestMessage = activeConversation?.messages[activeConversation.messages.length - 1]
+  const latestFollowups = features.suggestedFollowups && latestMessage?.role === 'agent' && !isTyping && !streamingMessageId
+    ? latestMessage.suggested_followup || []
+    : []
+
+  // Offer a human under a weak final answer, unless this conversation was already handed off
+  const latestHandoffTrigger = features.handoff && latestMessage && !isTyping && !streamingMessageId && !activeConversation?.handoff
+    ? getHandoffTrigger(latestMessage, limits.handoffConfidenceThreshold)
+    : null
+
+  // Another tab is waiting on a reply in the conversation shown here
+  const isOtherTabReplying = Object.values(otherTabRequests).includes(activeConversationId)
+
   // Filter conversations by search query
   const filteredConversations = conversations.filter(conv =>
     conv.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
     conv.preview.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
+  // Current view (Active/Archived), pinned conversations first
+  const archivedCount = conversations.filter(conv => conv.archived).length
+  const visibleConversations = filteredConversations
+    .filter(conv => (conversationView === 'archived' ? conv.archived : !conv.archived))
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned))
+  const allVisibleSelected = visibleConversations.length > 0 && visibleConversations.every(conv => selectedIds.has(conv.id))
+
+  // Full-text matches across every message; the index only re-tokenizes messages that changed, and only while searching
+  const messageSearchResults = useMemo(() => {
+    if (!features.messageSearch || !searchQuery.trim()) return []
+    const index = searchIndexRef.current
+    index.sync(conversations)
+    return index.search(searchQuery)
+  }, [conversations, searchQuery, features.messageSearch])
+
   return (
     <div className="flex h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 relative overflow-hidden">
       {/* Glassmorphism background effects */}
@@ -419,7 +948,7 @@ export default function Home() {
             </Button>
           </div>
 
-          <div className="relative">
+          <div className="relative mb-3">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-white/60" />
             <Input
               type="text"
@@ -429,28 +958,108 @@ export default function Home() {
               className="pl-9 backdrop-blur-md bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:bg-white/20 transition-all"
             />
           </div>
+
+          <div className="flex items-center gap-2">
+            <Tabs
+              value={conversationView}
+              onValueChange={(value) => {
+                setConversationView(value as 'active' | 'archived')
+                setSelectedIds(new Set())
+              }}
+              className="flex-1"
+            >
+              <TabsList className="w-full bg-white/10 text-white/70">
+                <TabsTrigger value="active" className="flex-1 data-[state=active]:bg-white/20 data-[state=active]:text-white">
+                  Active
+                </TabsTrigger>
+                <TabsTrigger value="archived" className="flex-1 data-[state=active]:bg-white/20 data-[state=active]:text-white">
+                  Archived{archivedCount > 0 ? ` (${archivedCount})` : ''}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+              aria-pressed={isSelecting}
+              title="Select conversations"
+              className={`text-white/80 hover:text-white hover:bg-white/10 ${isSelecting ? 'bg-white/20' : ''}`}
+            >
+              <ListChecks className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Bulk actions for the selected conversations */}
+          {isSelecting && (
+            <div className="flex items-center gap-2 mt-3 text-xs text-white/80">
+              <Checkbox
+                checked={allVisibleSelected}
+                onCheckedChange={(checked) => setSelectedIds(checked ? new Set(visibleConversations.map(conv => conv.id)) : new Set())}
+                aria-label="Select all"
+                className="border-white/60 data-[state=checked]:bg-white data-[state=checked]:text-slate-900"
+              />
+              <span className="flex-1">{selectedIds.size} selected</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={selectedIds.size === 0}
+                onClick={handleBulkArchive}
+                className="h-7 px-2 text-white/80 hover:text-white hover:bg-white/10"
+              >
+                {conversationView === 'active' ? <Archive className="h-3.5 w-3.5 mr-1" /> : <ArchiveRestore className="h-3.5 w-3.5 mr-1" />}
+                {conversationView === 'active' ? 'Archive' : 'Unarchive'}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={selectedIds.size === 0}
+                onClick={handleBulkDelete}
+                className="h-7 px-2 text-red-300 hover:text-red-200 hover:bg-white/10"
+              >
+                <Trash2 className="h-3.5 w-3.5 mr-1" />
+                Delete
+              </Button>
+            </div>
+          )}
         </div>
 
         <ScrollArea className="flex-1">
           <div className="p-3 space-y-2">
-            {filteredConversations.map(conv => (
+            {visibleConversations.map(conv => (
               <ConversationItem
                 key={conv.id}
                 conversation={conv}
                 isActive={conv.id === activeConversationId}
+                isSelecting={isSelecting}
+                isSelected={selectedIds.has(conv.id)}
                 onClick={() => setActiveConversationId(conv.id)}
+                onToggleSelect={() => handleToggleSelected(conv.id)}
+                onRename={(title) => handleRenameConversation(conv.id, title)}
+                actions={{
+                  onTogglePin: () => updateConversations([conv.id], { pinned: !conv.pinned }),
+                  onToggleArchive: () => handleSetArchived([conv.id], !conv.archived),
+                  onExport: features.conversationTransfer
+                    ? (format) => handleExportConversations([conv], format)
+                    : undefined,
+                  onDelete: () => handleDeleteConversations([conv.id])
+                }}
               />
             ))}
-            {filteredConversations.length === 0 && (
+            <MessageSearchResults
+              results={messageSearchResults}
+              onSelect={handleSelectSearchResult}
+              className={visibleConversations.length > 0 ? 'pt-3' : ''}
+            />
+            {visibleConversations.length === 0 && messageSearchResults.length === 0 && (
               <p className="text-sm text-white/60 text-center py-8">
-                No conversations found
+                {conversationView === 'archived' && !searchQuery ? 'No archived conversations' : 'No conversations found'}
               </p>
             )}
           </div>
         </ScrollArea>
 
         {/* Feature Request Button */}
-        <div className="p-4 border-t border-white/10">
+        <div className="p-4 border-t border-white/10 space-y-2">
           <Button
             onClick={() => setShowFeatureRequest(true)}
             className="w-full backdrop-blur-md bg-gradient-to-r from-purple-500/20 to-blue-500/20 hover:from-purple-500/30 hover:to-blue-500/30 text-white border border-white/30 transition-all duration-200"
@@ -458,6 +1067,47 @@ export default function Home() {
             <Lightbulb className="h-4 w-4 mr-2" />
             Feature Request
           </Button>
+          {features.conversationTransfer && (
+            <div className="grid grid-cols-2 gap-2">
+              <ConversationExportMenu
+                label="Export all conversations as"
+                align="start"
+                onExport={(format) => handleExportConversations(conversations, format)}
+              >
+                <Button variant="ghost" size="sm" className="text-white/70 hover:text-white hover:bg-white/10">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export all
+                </Button>
+              </ConversationExportMenu>
+              <Button
+                onClick={() => importInputRef.current?.click()}
+                variant="ghost"
+                size="sm"
+                className="text-white/70 hover:text-white hover:bg-white/10"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportConversations}
+                className="hidden"
+              />
+            </div>
+          )}
+          {features.feedback && (
+            <Button
+              onClick={handleExportFeedback}
+              variant="ghost"
+              size="sm"
+              className="w-full text-white/70 hover:text-white hover:bg-white/10"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export feedback
+            </Button>
+          )}
         </div>
       </div>
 
@@ -481,16 +1131,47 @@ export default function Home() {
                   <MessageCircle className="h-5 w-5 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-lg font-semibold text-white">Support Chat</h1>
+                  <h1 className="text-lg font-semibold text-white">{config.title}</h1>
                   <div className="flex items-center space-x-2">
                     <div className="w-2 h-2 bg-green-400 rounded-full shadow-lg shadow-green-400/50"></div>
-                    <span className="text-xs text-white/70">Online</span>
+                    <span className="text-xs text-white/70">
+                      Online{activeConversation?.routedAgent && features.routing ? ` · ${activeConversation.routedAgent.label}` : ''}
+                    </span>
                   </div>
                 </div>
               </div>
             </div>
 
             <div className="flex items-center space-x-2">
+              {!features.handoff ? null : activeConversation?.handoff ? (
+                <Badge variant="secondary" className="backdrop-blur-md bg-white/20 text-white text-xs border border-white/30">
+                  Ticket {activeConversation.handoff.ticketId}
+                </Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setHandoffTrigger('customer_request')}
+                  className="text-white/80 hover:text-white hover:bg-white/10"
+                >
+                  <Headphones className="h-4 w-4 mr-2" />
+                  Talk to a human
+                </Button>
+              )}
+              {features.adminLinks && (
+                <>
+                  <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+                    <Link to="/admin/knowledge" title="Knowledge bases" aria-label="Manage knowledge bases">
+                      <Database className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+                    <Link to="/workflow" title="Workflow" aria-label="Open workflow editor">
+                      <Workflow className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                </>
+              )}
               <Button variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
                 <Minimize2 className="h-4 w-4" />
               </Button>
@@ -504,8 +1185,19 @@ export default function Home() {
         {/* Messages Area */}
         <ScrollArea className="flex-1 px-6 py-4">
           <div className="max-w-4xl mx-auto">
-            {activeConversation?.messages.map((message) => (
-              <MessageBubble key={message.id} message={message} />
+            {activeConversation?.messages.map((message, index) => (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                isStreaming={message.id === streamingMessageId}
+                isHighlighted={message.id === highlightedMessageId}
+                knowledgeBaseDocuments={documentsByRagId[messageRagId(message)]}
+                knowledgeBaseRagId={features.adminLinks ? messageRagId(message) : undefined}
+                // Rate agent answers, not the welcome message or one still streaming
+                onFeedback={features.feedback && message.role === 'agent' && index > 0 && message.id !== streamingMessageId
+                  ? (feedback) => handleFeedback(message, feedback)
+                  : undefined}
+              />
             ))}
 
             {isTyping && (
@@ -514,10 +1206,39 @@ export default function Home() {
               </div>
             )}
 
+            {/* Handoff offer under a low-confidence or failed answer */}
+            {latestHandoffTrigger && (
+              <div className="-mt-2 mb-4 max-w-[75%] flex flex-wrap items-center gap-3 px-4 py-3 rounded-xl backdrop-blur-md bg-white/10 border border-white/20">
+                <span className="text-sm text-white/80 flex-1 min-w-[12rem]">
+                  {latestHandoffTrigger === 'agent_error'
+                    ? "I couldn't find an answer to that."
+                    : "I'm not fully confident in this answer."}
+                  {' '}Would you like to talk to someone from our team?
+                </span>
+                <Button
+                  size="sm"
+                  onClick={() => setHandoffTrigger(latestHandoffTrigger)}
+                  className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg"
+                >
+                  <Headphones className="h-4 w-4 mr-2" />
+                  Talk to a human
+                </Button>
+              </div>
+            )}
+
+            {/* Suggested follow-ups under the latest agent reply */}
+            {latestFollowups.length > 0 && (
+              <SuggestedFollowups
+                suggestions={latestFollowups}
+                onSelect={(suggestion) => handleSendMessage(suggestion)}
+                className="-mt-2 mb-6 max-w-[75%]"
+              />
+            )}
+
             {/* Quick replies - show only if first message (welcome) */}
             {activeConversation?.messages.length === 1 && !isTyping && (
               <div className="flex flex-wrap gap-2 mt-4 mb-8">
-                {QUICK_REPLIES.map((reply) => (
+                {config.quickReplies.map((reply) => (
                   <button
                     key={reply}
                     onClick={() => handleSendMessage(reply)}
@@ -536,6 +1257,12 @@ export default function Home() {
         {/* Input Area */}
         <div className="backdrop-blur-xl bg-white/10 border-t border-white/20 px-6 py-4" style={{ boxShadow: 'inset 0 1px 0 0 rgba(255, 255, 255, 0.1)' }}>
           <div className="max-w-4xl mx-auto">
+            {isOtherTabReplying && (
+              <div className="flex items-center gap-2 mb-2 text-xs text-white/70" role="status">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                This conversation is getting a reply in another tab. It will appear here when it finishes.
+              </div>
+            )}
             <Card className="backdrop-blur-xl bg-white/10 border-white/30 shadow-2xl">
               <CardContent className="p-3">
                 <div className="flex items-end space-x-2">
@@ -543,7 +1270,7 @@ export default function Home() {
                     ref={inputRef}
                     value={inputValue}
                     onChange={(e) => {
-                      if (e.target.value.length <= 500) {
+                      if (e.target.value.length <= limits.maxMessageLength) {
                         setInputValue(e.target.value)
                       }
                     }}
@@ -553,21 +1280,33 @@ export default function Home() {
                     className="flex-1 resize-none border-0 focus:outline-none focus:ring-0 bg-transparent text-sm placeholder:text-white/50 text-white max-h-32 overflow-y-auto"
                     style={{ minHeight: '24px' }}
                   />
-                  <Button
-                    onClick={() => handleSendMessage()}
-                    disabled={!inputValue.trim() || isTyping}
-                    size="sm"
-                    className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
+                  {isTyping || streamingMessageId ? (
+                    <Button
+                      onClick={handleStopGenerating}
+                      size="sm"
+                      title="Stop generating"
+                      className="backdrop-blur-md bg-white/20 hover:bg-white/30 text-white border border-white/30 shadow-lg"
+                    >
+                      <Square className="h-3.5 w-3.5 mr-1.5 fill-current" />
+                      Stop generating
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => handleSendMessage()}
+                      disabled={!inputValue.trim()}
+                      size="sm"
+                      className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
                 <div className="flex items-center justify-between mt-2">
                   <span className="text-xs text-white/60">
                     Press Enter to send, Shift+Enter for new line
                   </span>
-                  <span className={`text-xs ${inputValue.length > 450 ? 'text-red-400' : 'text-white/50'}`}>
-                    {inputValue.length}/500
+                  <span className={`text-xs ${inputValue.length > limits.maxMessageLength * 0.9 ? 'text-red-400' : 'text-white/50'}`}>
+                    {inputValue.length}/{limits.maxMessageLength}
                   </span>
                 </div>
               </CardContent>
@@ -576,6 +1315,13 @@ export default function Home() {
         </div>
       </div>
 
+      <HandoffDialog
+        open={handoffTrigger !== null}
+        onOpenChange={(open) => !open && setHandoffTrigger(null)}
+        defaultSummary={activeConversation ? getLastQuestion(activeConversation) : ''}
+        onSubmit={handleHandoffSubmit}
+      />
+
       {/* Feature Request Modal */}
       {showFeatureRequest && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 backdrop-blur-sm bg-black/50">
@@ -0,0 +1,979 @@
+/**
+ * KNOWLEDGE BASE ADMIN - Browse, upload and delete documents in every knowledge base of the workflow
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  useReactTable,
+  type ColumnDef,
+  type ColumnFiltersState,
+  type RowSelectionState,
+  type SortingState
+} from '@tanstack/react-table'
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  ArrowUpDown,
+  Bot,
+  Database,
+  FileText,
+  FlaskConical,
+  FolderUp,
+  Globe,
+  History,
+  Loader2,
+  MessageCircleQuestion,
+  RefreshCw,
+  RotateCcw,
+  Search,
+  Trash2,
+  Upload
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { useAppConfig } from '@/components/AppConfigProvider'
+import { WebsiteCrawlDialog } from '@/components/WebsiteCrawlDialog'
+import {
+  SUPPORTED_FILE_EXTENSIONS,
+  deleteDocuments,
+  getDocuments,
+  getFileTypeFromName,
+  type RAGDocument
+} from '@/utils/ragKnowledgeBase'
+import { withDocumentMetadata } from '@/utils/documentMetadata'
+import { retireDocumentVersions, rollbackDocument, useDocumentVersions } from '@/utils/documentVersions'
+import {
+  getDroppedFiles,
+  summarizeUploads,
+  useUploadQueue,
+  type UploadQueueItem,
+  type UploadQueueSummary
+} from '@/utils/uploadQueue'
+import { formatFileSize } from '@/utils/fileUpload'
+import { getKnowledgeBases, getWorkflow, type WorkflowKnowledgeBase } from '@/utils/workflow'
+
+// A document row, including files in this session's upload queue
+type DocumentRow = RAGDocument & { error?: string; upload?: UploadQueueItem }
+
+// Radix Select can't use '' as an item value
+const ALL = 'all'
+
+const UPLOADED_WITHIN_OPTIONS = [
+  { value: ALL, label: 'Any time' },
+  { value: '1', label: 'Last 24 hours' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: 'unknown', label: 'Unknown date' }
+]
+
+const STATUS_STYLES: Record<NonNullable<RAGDocument['status']>, string> = {
+  active: 'bg-emerald-500/20 text-emerald-200 border-emerald-400/30',
+  processing: 'bg-blue-500/20 text-blue-200 border-blue-400/30',
+  failed: 'bg-red-500/20 text-red-200 border-red-400/30',
+  deleted: 'bg-white/10 text-white/60 border-white/20'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Queue item as a table row until the knowledge base lists the file
+function toUploadRow(item: UploadQueueItem): DocumentRow {
+  const fileType = getFileTypeFromName(item.file.name)
+    || item.file.name.split('.').pop()?.toLowerCase() as DocumentRow['fileType']
+  const row: DocumentRow = { fileName: item.file.name, fileType, fileSize: item.file.size, upload: item }
+  switch (item.status) {
+    case 'done':
+      return withDocumentMetadata(item.ragId, [{ ...row, status: 'active', documentCount: item.documentCount }])[0]
+    case 'failed':
+      return { ...row, status: 'failed', error: item.details ? `${item.error}: ${item.details}` : item.error }
+    case 'cancelled':
+      return { ...row, status: 'failed', error: 'Upload cancelled' }
+    default:
+      return { ...row, status: 'processing' }
+  }
+}
+
+function formatUploadedAt(uploadedAt: string | undefined): string {
+  if (!uploadedAt) return '—'
+  return new Date(uploadedAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+// Sortable header cell
+function SortHeader({ label, sorted, onToggle }: { label: string; sorted: false | 'asc' | 'desc'; onToggle: (e: unknown) => void }) {
+  const Icon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown
+  return (
+    <button type="button" onClick={onToggle} className="flex items-center gap-1 hover:text-white">
+      {label}
+      <Icon className={`h-3.5 w-3.5 ${sorted ? '' : 'opacity-40'}`} />
+    </button>
+  )
+}
+
+const columns: ColumnDef<DocumentRow>[] = [
+  {
+    id: 'select',
+    header: ({ table }) => (
+      <Checkbox
+        checked={table.getIsAllRowsSelected() ? true : table.getIsSomeRowsSelected() ? 'indeterminate' : false}
+        onCheckedChange={(checked) => table.toggleAllRowsSelected(!!checked)}
+        aria-label="Select all documents"
+        className="border-white/50 data-[state=checked]:bg-white data-[state=checked]:text-slate-900"
+      />
+    ),
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        disabled={!row.getCanSelect()}
+        onCheckedChange={(checked) => row.toggleSelected(!!checked)}
+        onClick={(e) => e.stopPropagation()}
+        aria-label={`Select ${row.original.fileName}`}
+        className="border-white/50 data-[state=checked]:bg-white data-[state=checked]:text-slate-900"
+      />
+    ),
+    enableSorting: false
+  },
+  {
+    accessorKey: 'fileName',
+    header: ({ column }) => <SortHeader label="Name" sorted={column.getIsSorted()} onToggle={column.getToggleSortingHandler()} />,
+    cell: ({ row }) => (
+      <span className="flex items-center gap-2 font-medium text-white">
+        <FileText className="h-4 w-4 text-white/50 shrink-0" />
+        <span className="truncate max-w-[22rem]">{row.original.fileName}</span>
+      </span>
+    ),
+    filterFn: 'includesString'
+  },
+  {
+    accessorKey: 'fileType',
+    header: ({ column }) => <SortHeader label="Type" sorted={column.getIsSorted()} onToggle={column.getToggleSortingHandler()} />,
+    cell: ({ row }) => <span className="uppercase text-xs text-white/70">{row.original.fileType}</span>,
+    filterFn: 'equalsString'
+  },
+  {
+    accessorKey: 'status',
+    header: ({ column }) => <SortHeader label="Status" sorted={column.getIsSorted()} onToggle={column.getToggleSortingHandler()} />,
+    cell: ({ row }) => {
+      const status = row.original.status || 'active'
+      return (
+        <Badge variant="outline" className={`capitalize ${STATUS_STYLES[status]}`}>
+          {status === 'processing' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {status === 'processing' ? row.original.upload?.status : status}
+        </Badge>
+      )
+    },
+    filterFn: (row, columnId, value: string) => (row.getValue<string>(columnId) || 'active') === value
+  },
+  {
+    id: 'uploadedAt',
+    accessorFn: (doc) => (doc.uploadedAt ? new Date(doc.uploadedAt).getTime() : undefined),
+    header: ({ column }) => <SortHeader label="Uploaded" sorted={column.getIsSorted()} onToggle={column.getToggleSortingHandler()} />,
+    cell: ({ row }) => <span className="text-white/70 whitespace-nowrap">{formatUploadedAt(row.original.uploadedAt)}</span>,
+    sortUndefined: 'last',
+    // 'unknown' or a number of days
+    filterFn: (row, columnId, value: string) => {
+      const time = row.getValue<number | undefined>(columnId)
+      if (value === 'unknown') return time === undefined
+      return time !== undefined && Date.now() - time <= Number(value) * DAY_MS
+    }
+  },
+  {
+    accessorKey: 'documentCount',
+    header: ({ column }) => <SortHeader label="Chunks" sorted={column.getIsSorted()} onToggle={column.getToggleSortingHandler()} />,
+    cell: ({ row }) => <span className="text-white/70">{row.original.documentCount ?? '—'}</span>,
+    sortUndefined: 'last'
+  },
+  {
+    accessorKey: 'fileSize',
+    header: ({ column }) => <SortHeader label="Size" sorted={column.getIsSorted()} onToggle={column.getToggleSortingHandler()} />,
+    cell: ({ row }) => (
+      <span className="text-white/70 whitespace-nowrap">
+        {row.original.fileSize !== undefined ? formatFileSize(row.original.fileSize) : '—'}
+      </span>
+    ),
+    sortUndefined: 'last'
+  }
+]
+
+// Filter dropdown above the table
+function FilterSelect({
+  value,
+  onChange,
+  options,
+  label
+}: {
+  value: string
+  onChange: (value: string) => void
+  options: { value: string; label: string }[]
+  label: string
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger aria-label={label} className="w-40 bg-white/10 border-white/20 text-white">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Uploaded versions of a document, with rollback to any whose file is kept
+function VersionHistory({ ragId, fileName, onRestored }: { ragId: string; fileName: string; onRestored: () => void }) {
+  const { versions, isLoading, error, reload } = useDocumentVersions(ragId, fileName)
+  const [restoring, setRestoring] = useState<number | null>(null)
+
+  async function handleRollback(version: number) {
+    setRestoring(version)
+    const result = await rollbackDocument(ragId, fileName, version)
+    setRestoring(null)
+    if (result.success) {
+      toast.success(`Rolled ${fileName} back to version ${version}`)
+      onRestored()
+    } else {
+      toast.error(result.error || 'Rollback failed', { description: result.details })
+    }
+    reload()
+  }
+
+  if (isLoading && versions.length === 0) {
+    return <p className="flex items-center gap-2 text-xs text-white/50"><Loader2 className="h-3 w-3 animate-spin" />Loading history...</p>
+  }
+  if (error) {
+    return <p className="text-xs text-red-300">{error}</p>
+  }
+  if (versions.length === 0) {
+    return <p className="text-xs text-white/50">No versions uploaded from this app yet.</p>
+  }
+
+  return (
+    <ol className="space-y-2">
+      {versions.map(version => (
+        <li key={version.version} className="flex items-start justify-between gap-3 rounded-lg bg-white/5 border border-white/10 p-2.5">
+          <div className="min-w-0 space-y-0.5">
+            <p className="flex items-center gap-2 text-white">
+              Version {version.version}
+              {version.live && (
+                <Badge variant="outline" className="bg-green-500/20 text-green-200 border-green-400/30 text-[10px] px-1.5 py-0">
+                  Live
+                </Badge>
+              )}
+            </p>
+            <p className="text-xs text-white/60">
+              {formatUploadedAt(version.uploadedAt)} · {formatFileSize(version.fileSize)}
+              {version.documentCount !== undefined && ` · ${version.documentCount} chunks`}
+            </p>
+            <p className="text-xs text-white/40 font-mono" title={version.hash}>
+              {version.hash.slice(0, 12)}
+              {version.restoredFrom && <span className="font-sans"> · restored from version {version.restoredFrom}</span>}
+            </p>
+          </div>
+          {!version.live && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!version.file || restoring !== null}
+              title={version.file ? undefined : 'This version\'s file is no longer kept'}
+              onClick={() => handleRollback(version.version)}
+              className="shrink-0 text-white/80 hover:text-white hover:bg-white/10"
+            >
+              {restoring === version.version
+                ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                : <RotateCcw className="h-4 w-4 mr-1.5" />}
+              Roll back
+            </Button>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+// Side panel with everything known about one document
+function DocumentDetails({
+  document,
+  knowledgeBase,
+  isDeleting,
+  onDelete,
+  onRetry,
+  onRestored
+}: {
+  document: DocumentRow
+  knowledgeBase: WorkflowKnowledgeBase
+  isDeleting: boolean
+  onDelete: () => void
+  // Failed uploads that can be tried again
+  onRetry?: () => void
+  // A previous version was rolled back to
+  onRestored: () => void
+}) {
+  const status = document.status || 'active'
+  const hasMetadata = document.uploadedAt || document.fileSize !== undefined || document.documentCount !== undefined
+  const rows: [string, string][] = [
+    ['Type', document.fileType.toUpperCase()],
+    ['Uploaded', formatUploadedAt(document.uploadedAt)],
+    ['Size', document.fileSize !== undefined ? formatFileSize(document.fileSize) : '—'],
+    ['Chunks', document.documentCount !== undefined ? String(document.documentCount) : '—']
+  ]
+
+  return (
+    <div className="space-y-5 mt-4 text-sm">
+      <Badge variant="outline" className={`capitalize ${STATUS_STYLES[status]}`}>{status}</Badge>
+
+      {document.error && (
+        <p className="rounded-lg bg-red-500/15 border border-red-400/30 p-3 text-red-200">{document.error}</p>
+      )}
+
+      <dl className="grid grid-cols-[6rem_1fr] gap-y-2">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-white/50">{label}</dt>
+            <dd className="text-white">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {!hasMetadata && (
+        <p className="text-xs text-white/50">
+          Uploaded outside this app - the knowledge base only reports file names.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-white/50">Knowledge base</p>
+        <p className="flex items-center gap-2 text-white">
+          <Database className="h-4 w-4 text-white/60" />
+          {knowledgeBase.name}
+        </p>
+        <p className="text-xs text-white/50 font-mono break-all">{knowledgeBase.ragId}</p>
+      </div>
+
+      {knowledgeBase.agents.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-white/50">Answered from by</p>
+          <ul className="space-y-1">
+            {knowledgeBase.agents.map(agent => (
+              <li key={agent.id} className="flex items-center gap-2 text-white">
+                <Bot className="h-4 w-4 text-white/60" />
+                {agent.label}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {status !== 'processing' && (
+        <div className="space-y-2">
+          <p className="flex items-center gap-2 text-white/50">
+            <History className="h-4 w-4" />
+            Version history
+          </p>
+          {/* Remount after an upload so a new version shows up */}
+          <VersionHistory
+            key={`${document.fileName}:${document.uploadedAt}`}
+            ragId={knowledgeBase.ragId}
+            fileName={document.fileName}
+            onRestored={onRestored}
+          />
+        </div>
+      )}
+
+      {onRetry && (
+        <Button
+          variant="ghost"
+          onClick={onRetry}
+          className="w-full border border-white/30 text-white hover:bg-white/10"
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Retry upload
+        </Button>
+      )}
+
+      {status !== 'processing' && (
+        <Button
+          variant="ghost"
+          onClick={onDelete}
+          disabled={isDeleting}
+          className="w-full border border-red-400/40 text-red-200 hover:text-red-100 hover:bg-red-500/20"
+        >
+          {isDeleting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+          {status === 'failed' ? 'Dismiss' : 'Delete from knowledge base'}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// Progress of the current upload batch
+function UploadSummary({
+  summary,
+  onCancelAll,
+  onRetryFailed,
+  onClear
+}: {
+  summary: UploadQueueSummary
+  onCancelAll: () => void
+  onRetryFailed: () => void
+  onClear: () => void
+}) {
+  const pending = summary.queued + summary.inProgress
+  const finished = summary.total - pending
+
+  return (
+    <div className="rounded-xl backdrop-blur-xl bg-white/10 border border-white/20 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm">
+          {pending > 0
+            ? `Uploading ${summary.total} file${summary.total === 1 ? '' : 's'} · ${finished} finished`
+            : `Uploaded ${summary.done} of ${summary.total} file${summary.total === 1 ? '' : 's'}`}
+          <span className="text-white/60"> · {summary.documentCount} chunks trained</span>
+          {summary.unchanged > 0 && <span className="text-white/60"> · {summary.unchanged} unchanged</span>}
+          {summary.failed > 0 && <span className="text-red-300"> · {summary.failed} failed</span>}
+          {summary.cancelled > 0 && <span className="text-white/60"> · {summary.cancelled} cancelled</span>}
+        </p>
+        <div className="flex items-center gap-1">
+          {summary.failed + summary.cancelled > 0 && pending === 0 && (
+            <Button variant="ghost" size="sm" onClick={onRetryFailed} className="text-white/80 hover:text-white hover:bg-white/10">
+              <RotateCcw className="h-4 w-4 mr-1.5" />
+              Retry failed
+            </Button>
+          )}
+          {pending > 0 ? (
+            <Button variant="ghost" size="sm" onClick={onCancelAll} className="text-white/80 hover:text-white hover:bg-white/10">
+              Cancel all
+            </Button>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={onClear} className="text-white/80 hover:text-white hover:bg-white/10">
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+      <Progress value={summary.total > 0 ? (finished / summary.total) * 100 : 0} className="h-1.5 bg-white/10" />
+    </div>
+  )
+}
+
+export default function KnowledgeAdmin() {
+  const config = useAppConfig()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const requestedRagId = searchParams.get('kb')
+  const openFileName = searchParams.get('doc')
+
+  // Every knowledge base in workflow.json, the configured one, and one linked to directly
+  const knowledgeBases = useMemo(
+    () => getKnowledgeBases(getWorkflow(), [config.ragId, requestedRagId].filter(Boolean)),
+    [config.ragId, requestedRagId]
+  )
+  const knowledgeBase = knowledgeBases.find(kb => kb.ragId === requestedRagId) || knowledgeBases[0]
+  const ragId = knowledgeBase?.ragId
+
+  const [documentsByRagId, setDocumentsByRagId] = useState<Record<string, RAGDocument[]>>({})
+  const [errorsByRagId, setErrorsByRagId] = useState<Record<string, string>>({})
+  const [loadingRagIds, setLoadingRagIds] = useState<Set<string>>(new Set())
+  const [isDragging, setIsDragging] = useState(false)
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'uploadedAt', desc: true }])
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isCrawlOpen, setIsCrawlOpen] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  async function loadDocuments(targetRagId: string) {
+    setLoadingRagIds(prev => new Set(prev).add(targetRagId))
+    const result = await getDocuments(targetRagId)
+    if (result.success) {
+      setDocumentsByRagId(prev => ({ ...prev, [targetRagId]: result.documents || [] }))
+      setErrorsByRagId(prev => {
+        const next = { ...prev }
+        delete next[targetRagId]
+        return next
+      })
+    } else {
+      setErrorsByRagId(prev => ({ ...prev, [targetRagId]: result.details ? `${result.error}: ${result.details}` : result.error }))
+    }
+    setLoadingRagIds(prev => {
+      const next = new Set(prev)
+      next.delete(targetRagId)
+      return next
+    })
+  }
+
+  // Load every knowledge base up front so the sidebar can show document counts
+  const loadDocumentsRef = useRef(loadDocuments)
+  loadDocumentsRef.current = loadDocuments
+  useEffect(() => {
+    knowledgeBases.forEach(kb => loadDocumentsRef.current(kb.ragId))
+  }, [knowledgeBases])
+
+  const uploadQueue = useUploadQueue({
+    // Refresh once a knowledge base's part of the batch has finished
+    onItemSettled: (item) => {
+      if (item.warning) {
+        toast.warning(`${item.file.name}: ${item.warning}`, { description: item.details })
+      }
+      const pending = uploadQueue.getItems().some(other =>
+        other.ragId === item.ragId && ['queued', 'parsing', 'training'].includes(other.status))
+      if (!pending) loadDocumentsRef.current(item.ragId)
+    }
+  })
+  const uploads = uploadQueue.items.filter(item => item.ragId === ragId)
+  const uploadSummary = summarizeUploads(uploads)
+
+  function handleUpload(files: File[]) {
+    if (files.length > 0) uploadQueue.add(ragId, files)
+  }
+
+  // Selection and filters belong to one knowledge base
+  useEffect(() => {
+    setRowSelection({})
+  }, [ragId])
+
+  const rows = useMemo<DocumentRow[]>(() => {
+    const remote = documentsByRagId[ragId] || []
+    // Latest attempt per file name, for files the knowledge base doesn't list yet
+    const uploadRows = new Map<string, DocumentRow>()
+    uploadQueue.items
+      .filter(item => item.ragId === ragId && !remote.some(doc => doc.fileName === item.file.name))
+      .forEach(item => uploadRows.set(item.file.name, toUploadRow(item)))
+    return [...uploadRows.values(), ...remote]
+  }, [documentsByRagId, uploadQueue.items, ragId])
+
+  const table = useReactTable({
+    data: rows,
+    columns,
+    state: { sorting, columnFilters, rowSelection },
+    getRowId: (row) => row.fileName,
+    enableRowSelection: (row) => row.original.status !== 'processing',
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onRowSelectionChange: setRowSelection,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel()
+  })
+
+  const selectedFileNames = table.getSelectedRowModel().rows.map(row => row.original.fileName)
+  const openDocument = openFileName ? rows.find(row => row.fileName === openFileName) : undefined
+  const filterValue = (columnId: string) => (table.getColumn(columnId)?.getFilterValue() as string) ?? ALL
+  const setFilterValue = (columnId: string, value: string) =>
+    table.getColumn(columnId)?.setFilterValue(value === ALL || value === '' ? undefined : value)
+
+  function updateSearchParams(update: (params: URLSearchParams) => void) {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      update(next)
+      return next
+    }, { replace: true })
+  }
+
+  function selectKnowledgeBase(nextRagId: string) {
+    updateSearchParams(params => {
+      params.set('kb', nextRagId)
+      params.delete('doc')
+    })
+  }
+
+  function setOpenFileName(fileName: string | null) {
+    updateSearchParams(params => {
+      if (ragId) params.set('kb', ragId)
+      if (fileName) params.set('doc', fileName)
+      else params.delete('doc')
+    })
+  }
+
+  async function handleDelete(fileNames: string[]) {
+    const targetRagId = ragId
+    // Failed uploads never reached the knowledge base - just drop them from the queue
+    const failed = rows.filter(row => row.upload && row.status === 'failed' && fileNames.includes(row.fileName))
+    failed.forEach(row => uploadQueue.remove(row.upload.id))
+    const remote = fileNames.filter(fileName => !failed.some(row => row.fileName === fileName))
+
+    if (remote.length > 0) {
+      setIsDeleting(true)
+      const result = await deleteDocuments(targetRagId, remote)
+      setIsDeleting(false)
+      if (!result.success) {
+        toast.error(result.error || 'Failed to delete documents', { description: result.details })
+        return
+      }
+      retireDocumentVersions(targetRagId, remote)
+      setDocumentsByRagId(prev => ({
+        ...prev,
+        [targetRagId]: (prev[targetRagId] || []).filter(doc => !remote.includes(doc.fileName))
+      }))
+      toast.success(`Deleted ${remote.length} document${remote.length === 1 ? '' : 's'}`)
+    }
+
+    setRowSelection({})
+    setPendingDelete(null)
+    if (openFileName && fileNames.includes(openFileName)) setOpenFileName(null)
+  }
+
+  const isLoading = ragId ? loadingRagIds.has(ragId) : false
+  const loadError = ragId ? errorsByRagId[ragId] : undefined
+  const isFiltered = columnFilters.length > 0
+
+  return (
+    <div className="flex flex-col h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 text-white">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-6 py-3 backdrop-blur-xl bg-white/10 border-b border-white/20">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+            <Link to="/" aria-label="Back to chat">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-lg font-semibold">Knowledge bases</h1>
+            <p className="text-xs text-white/60">Documents the support agents answer from</p>
+          </div>
+        </div>
+        <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+          <Link to={ragId ? `/admin/knowledge/gaps?kb=${encodeURIComponent(ragId)}` : '/admin/knowledge/gaps'}>
+            <MessageCircleQuestion className="h-4 w-4 mr-1.5" />
+            Knowledge gaps
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Knowledge base list */}
+        <div className="w-72 shrink-0 backdrop-blur-xl bg-white/5 border-r border-white/20">
+          <ScrollArea className="h-full">
+            <div className="p-3 space-y-1">
+              {knowledgeBases.map(kb => {
+                const count = documentsByRagId[kb.ragId]?.length
+                return (
+                  <button
+                    key={kb.ragId}
+                    type="button"
+                    onClick={() => selectKnowledgeBase(kb.ragId)}
+                    className={`w-full text-left p-3 rounded-lg transition-colors ${
+                      kb.ragId === ragId ? 'bg-white/20 border border-white/30' : 'hover:bg-white/10 border border-transparent'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 text-sm font-medium truncate">
+                        <Database className="h-4 w-4 text-white/60 shrink-0" />
+                        <span className="truncate">{kb.name}</span>
+                      </span>
+                      {loadingRagIds.has(kb.ragId)
+                        ? <Loader2 className="h-3.5 w-3.5 animate-spin text-white/50" />
+                        : count !== undefined && <span className="text-xs text-white/60">{count}</span>}
+                    </div>
+                    <p className="text-xs text-white/50 mt-1 truncate">
+                      {kb.agents.length > 0 ? kb.agents.map(agent => agent.label).join(', ') : 'No agents in the workflow'}
+                    </p>
+                  </button>
+                )
+              })}
+            </div>
+          </ScrollArea>
+        </div>
+
+        {/* Documents */}
+        {knowledgeBase ? (
+          <div
+            className={`relative flex-1 min-w-0 flex flex-col p-6 gap-4 ${isDragging ? 'ring-2 ring-inset ring-blue-400/70 bg-blue-500/10' : ''}`}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={(e) => {
+              // Ignore leaving into a child element
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false)
+            }}
+            onDrop={async (e) => {
+              e.preventDefault()
+              setIsDragging(false)
+              handleUpload(await getDroppedFiles(e.dataTransfer))
+            }}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h2 className="text-xl font-semibold truncate">{knowledgeBase.name}</h2>
+                <p className="text-xs text-white/50 font-mono">{knowledgeBase.ragId}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => loadDocuments(ragId)}
+                  disabled={isLoading}
+                  className="text-white/80 hover:text-white hover:bg-white/10"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleUpload(Array.from(e.target.files || []))
+                    e.target.value = ''
+                  }}
+                />
+                <input
+                  // webkitdirectory isn't in React's input types
+                  ref={(input) => {
+                    folderInputRef.current = input
+                    input?.setAttribute('webkitdirectory', '')
+                  }}
+                  type="file"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleUpload(Array.from(e.target.files || []))
+                    e.target.value = ''
+                  }}
+                />
+                <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+                  <Link to={`/admin/knowledge/playground?kb=${encodeURIComponent(ragId)}`}>
+                    <FlaskConical className="h-4 w-4 mr-1.5" />
+                    Test retrieval
+                  </Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsCrawlOpen(true)}
+                  className="text-white/80 hover:text-white hover:bg-white/10"
+                >
+                  <Globe className="h-4 w-4 mr-1.5" />
+                  Crawl website
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => folderInputRef.current?.click()}
+                  className="text-white/80 hover:text-white hover:bg-white/10"
+                >
+                  <FolderUp className="h-4 w-4 mr-1.5" />
+                  Upload folder
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg"
+                >
+                  <Upload className="h-4 w-4 mr-1.5" />
+                  Upload
+                </Button>
+              </div>
+            </div>
+
+            {uploadSummary.total > 0 && (
+              <UploadSummary
+                summary={uploadSummary}
+                onCancelAll={() => uploads.forEach(item => uploadQueue.cancel(item.id))}
+                onRetryFailed={() => uploads.forEach(item => uploadQueue.retry(item.id))}
+                onClear={() => uploads.forEach(item => uploadQueue.remove(item.id))}
+              />
+            )}
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative flex-1 min-w-[12rem] max-w-sm">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/50" />
+                <Input
+                  value={(table.getColumn('fileName')?.getFilterValue() as string) ?? ''}
+                  onChange={(e) => setFilterValue('fileName', e.target.value)}
+                  placeholder="Filter by name..."
+                  className="pl-9 bg-white/10 border-white/20 text-white placeholder:text-white/40"
+                />
+              </div>
+              <FilterSelect
+                label="Type"
+                value={filterValue('fileType')}
+                onChange={(value) => setFilterValue('fileType', value)}
+                options={[
+                  { value: ALL, label: 'All types' },
+                  { value: 'pdf', label: 'PDF' },
+                  { value: 'docx', label: 'DOCX' },
+                  { value: 'txt', label: 'TXT' },
+                  { value: 'md', label: 'Markdown' },
+                  { value: 'html', label: 'HTML' },
+                  { value: 'csv', label: 'CSV' },
+                  { value: 'json', label: 'JSON' }
+                ]}
+              />
+              <FilterSelect
+                label="Status"
+                value={filterValue('status')}
+                onChange={(value) => setFilterValue('status', value)}
+                options={[
+                  { value: ALL, label: 'All statuses' },
+                  { value: 'active', label: 'Active' },
+                  { value: 'processing', label: 'Processing' },
+                  { value: 'failed', label: 'Failed' }
+                ]}
+              />
+              <FilterSelect
+                label="Uploaded"
+                value={filterValue('uploadedAt')}
+                onChange={(value) => setFilterValue('uploadedAt', value)}
+                options={UPLOADED_WITHIN_OPTIONS}
+              />
+              {isFiltered && (
+                <Button variant="ghost" size="sm" onClick={() => setColumnFilters([])} className="text-white/70 hover:text-white hover:bg-white/10">
+                  Clear filters
+                </Button>
+              )}
+              {selectedFileNames.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPendingDelete(selectedFileNames)}
+                  className="ml-auto border border-red-400/40 text-red-200 hover:text-red-100 hover:bg-red-500/20"
+                >
+                  <Trash2 className="h-4 w-4 mr-1.5" />
+                  Delete {selectedFileNames.length} selected
+                </Button>
+              )}
+            </div>
+
+            {loadError && (
+              <p className="rounded-lg bg-red-500/15 border border-red-400/30 p-3 text-sm text-red-200">{loadError}</p>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-auto rounded-xl backdrop-blur-xl bg-white/5 border border-white/20">
+              <Table>
+                <TableHeader>
+                  {table.getHeaderGroups().map(headerGroup => (
+                    <TableRow key={headerGroup.id} className="border-white/20 hover:bg-transparent">
+                      {headerGroup.headers.map(header => (
+                        <TableHead key={header.id} className="text-white/70">
+                          {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableHeader>
+                <TableBody>
+                  {table.getRowModel().rows.length > 0 ? (
+                    table.getRowModel().rows.map(row => (
+                      <TableRow
+                        key={row.id}
+                        data-state={row.getIsSelected() ? 'selected' : undefined}
+                        onClick={() => setOpenFileName(row.original.fileName)}
+                        className="border-white/10 cursor-pointer hover:bg-white/10 data-[state=selected]:bg-white/15"
+                      >
+                        {row.getVisibleCells().map(cell => (
+                          <TableCell key={cell.id}>{flexRender(cell.column.columnDef.cell, cell.getContext())}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={columns.length} className="h-32 text-center text-white/50">
+                        {isLoading && rows.length === 0
+                          ? 'Loading documents...'
+                          : isFiltered ? 'No documents match these filters' : 'No documents uploaded yet'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-white/50">
+              {table.getFilteredRowModel().rows.length} of {rows.length} documents
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-white/50">No knowledge bases in the workflow</div>
+        )}
+      </div>
+
+      <Sheet open={!!openDocument} onOpenChange={(open) => !open && setOpenFileName(null)}>
+        <SheetContent className="backdrop-blur-2xl bg-slate-900/95 border-white/20 text-white [&>button]:text-white/80">
+          {openDocument && knowledgeBase && (
+            <>
+              <SheetHeader>
+                <SheetTitle className="text-white break-all pr-6">{openDocument.fileName}</SheetTitle>
+                <SheetDescription className="text-white/60">Document in {knowledgeBase.name}</SheetDescription>
+              </SheetHeader>
+              <DocumentDetails
+                document={openDocument}
+                knowledgeBase={knowledgeBase}
+                isDeleting={isDeleting}
+                onDelete={() => (openDocument.upload && openDocument.status === 'failed'
+                  ? handleDelete([openDocument.fileName])
+                  : setPendingDelete([openDocument.fileName]))}
+                onRetry={openDocument.upload?.canRetry && openDocument.status === 'failed'
+                  ? () => uploadQueue.retry(openDocument.upload.id)
+                  : undefined}
+                onRestored={() => loadDocuments(ragId)}
+              />
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      {knowledgeBase && (
+        <WebsiteCrawlDialog
+          open={isCrawlOpen}
+          onOpenChange={setIsCrawlOpen}
+          ragId={ragId}
+          knowledgeBaseName={knowledgeBase.name}
+          onComplete={(result) => loadDocuments(result.ragId)}
+        />
+      )}
+
+      <Dialog open={!!pendingDelete} onOpenChange={(open) => !open && !isDeleting && setPendingDelete(null)}>
+        <DialogContent className="backdrop-blur-2xl bg-slate-900/95 border-white/20 text-white shadow-2xl [&>button]:text-white/80">
+          <DialogHeader>
+            <DialogTitle>
+              Delete {pendingDelete?.length === 1 ? `"${pendingDelete[0]}"` : `${pendingDelete?.length} documents`}?
+            </DialogTitle>
+            <DialogDescription className="text-white/70">
+              Agents stop answering from {pendingDelete?.length === 1 ? 'it' : 'them'} right away. This can't be undone -
+              you'd have to upload the files again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setPendingDelete(null)} disabled={isDeleting} className="text-white/80 hover:text-white hover:bg-white/10">
+              Cancel
+            </Button>
+            <Button onClick={() => handleDelete(pendingDelete)} disabled={isDeleting} className="bg-red-600 hover:bg-red-700 text-white">
+              {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,335 @@
+/**
+ * KNOWLEDGE GAPS - Questions the agents couldn't answer, clustered by topic, with an upload per gap
+ */
+
+import { useMemo, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Download,
+  FlaskConical,
+  Loader2,
+  MessageCircleQuestion,
+  RefreshCw,
+  Upload,
+  X
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useAppConfig } from '@/components/AppConfigProvider'
+import { SUPPORTED_FILE_EXTENSIONS } from '@/utils/ragKnowledgeBase'
+import { useUploadQueue, type UploadQueueItem } from '@/utils/uploadQueue'
+import { gapReportToCsv, useKnowledgeGaps, type KnowledgeGap } from '@/utils/knowledgeGaps'
+import { downloadFile } from '@/utils/download'
+import { getKnowledgeBases, getWorkflow } from '@/utils/workflow'
+
+const ALL_KNOWLEDGE_BASES = 'all'
+
+function formatAskedAt(askedAt: string): string {
+  return new Date(askedAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+}
+
+const isSettled = (item: UploadQueueItem) =>
+  item.status === 'done' || item.status === 'failed' || item.status === 'cancelled'
+
+// One cluster of similar questions and what can be done about it
+function GapCard({
+  gap,
+  rank,
+  knowledgeBaseName,
+  ragId,
+  uploads,
+  onUpload,
+  onDismiss
+}: {
+  gap: KnowledgeGap
+  rank: number
+  knowledgeBaseName: string
+  ragId: string
+  uploads: UploadQueueItem[]
+  onUpload: () => void
+  onDismiss: () => void
+}) {
+  const isUploading = uploads.some(item => !isSettled(item))
+  const failed = uploads.filter(item => item.status === 'failed')
+
+  return (
+    <div className="rounded-xl bg-white/10 border border-white/20 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="flex items-start gap-2 font-medium">
+            <span className="text-white/50 text-sm mt-0.5">#{rank}</span>
+            <span className="break-words">{gap.question}</span>
+          </p>
+          <p className="text-xs text-white/60 mt-1">
+            Last asked {formatAskedAt(gap.lastAskedAt)} · {knowledgeBaseName}
+            {gap.averageConfidence !== undefined && ` · avg. confidence ${(gap.averageConfidence * 100).toFixed(0)}%`}
+          </p>
+        </div>
+        <Badge variant="outline" className="shrink-0 bg-amber-500/20 text-amber-100 border-amber-400/30">
+          Asked {gap.count} {gap.count === 1 ? 'time' : 'times'}
+        </Badge>
+      </div>
+
+      {gap.keywords.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {gap.keywords.map(keyword => (
+            <Badge key={keyword} variant="secondary" className="bg-white/10 text-white/80 border border-white/20 text-xs">
+              {keyword}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {gap.examples.length > 1 && (
+        <div>
+          <p className="text-xs text-white/60 mb-1">Also asked as</p>
+          <ul className="space-y-0.5 text-sm text-white/80">
+            {gap.examples.slice(1).map(example => (
+              <li key={example} className="break-words">“{example}”</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-white/60 border-l-2 border-white/20 pl-3 line-clamp-2">
+        Agent replied: {gap.latestAnswer}
+      </p>
+
+      {failed.length > 0 && (
+        <p className="text-xs text-red-300" role="alert">
+          {failed.map(item => `${item.file.name}: ${item.error}`).join(' · ')}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          onClick={onUpload}
+          disabled={isUploading}
+          title={`Upload documents to ${knowledgeBaseName}`}
+          className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg"
+        >
+          {isUploading ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Upload className="h-4 w-4 mr-1.5" />}
+          {isUploading ? `Uploading ${uploads.filter(item => !isSettled(item)).length}...` : 'Upload docs for this'}
+        </Button>
+        <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+          <Link to={`/admin/knowledge/playground?kb=${encodeURIComponent(ragId)}&q=${encodeURIComponent(gap.question)}`}>
+            <FlaskConical className="h-4 w-4 mr-1.5" />
+            Test retrieval
+          </Link>
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDismiss}
+          disabled={isUploading}
+          className="text-white/80 hover:text-white hover:bg-white/10"
+        >
+          <X className="h-4 w-4 mr-1.5" />
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default function KnowledgeGaps() {
+  const config = useAppConfig()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const kbFilter = searchParams.get('kb') || ALL_KNOWLEDGE_BASES
+
+  const { entries, gaps, isLoading, error, reload, resolve, isShared } = useKnowledgeGaps()
+
+  // Every knowledge base in workflow.json, plus any a logged question came from
+  const loggedRagIds = useMemo(() => [...new Set(entries.map(entry => entry.ragId).filter(Boolean))], [entries])
+  const knowledgeBases = useMemo(
+    () => getKnowledgeBases(getWorkflow(), [config.ragId, ...loggedRagIds]),
+    [config.ragId, loggedRagIds]
+  )
+  const knowledgeBaseName = (ragId: string) => knowledgeBases.find(kb => kb.ragId === ragId)?.name || ragId
+
+  const visibleGaps = kbFilter === ALL_KNOWLEDGE_BASES
+    ? gaps
+    : gaps.filter(gap => gap.ragIds.includes(kbFilter) || (gap.ragIds.length === 0 && kbFilter === config.ragId))
+
+  // Knowledge base a gap's documents go to: the filtered one if the gap was asked there, else where it was asked
+  const targetRagId = (gap: KnowledgeGap) =>
+    gap.ragIds.includes(kbFilter) ? kbFilter : gap.ragIds[0] || config.ragId
+
+  // Upload items started from each gap, by gap ID
+  const [gapUploads, setGapUploads] = useState<Record<string, string[]>>({})
+  const pendingGapRef = useRef<KnowledgeGap | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const uploadQueue = useUploadQueue({
+    onItemSettled: (item) => {
+      const gapId = Object.keys(gapUploads).find(id => gapUploads[id].includes(item.id))
+      const gap = gaps.find(candidate => candidate.id === gapId)
+      if (!gap) return
+      if (item.status === 'failed') {
+        toast.error(`${item.file.name}: ${item.error}`, { description: item.details })
+      }
+
+      // Once every file for the gap is in, a successful upload covers it
+      const items = uploadQueue.getItems().filter(candidate => gapUploads[gapId].includes(candidate.id))
+      if (!items.every(isSettled) || !items.some(candidate => candidate.status === 'done')) return
+      const documentCount = items.reduce((sum, candidate) => sum + (candidate.documentCount || 0), 0)
+      toast.success(`Added ${documentCount} chunks to ${knowledgeBaseName(targetRagId(gap))}`, {
+        description: `“${gap.question}” is marked as covered.`
+      })
+      resolve(gap)
+    },
+  })
+
+  function handleUploadClick(gap: KnowledgeGap) {
+    pendingGapRef.current = gap
+    fileInputRef.current?.click()
+  }
+
+  function handleFiles(files: File[]) {
+    const gap = pendingGapRef.current
+    pendingGapRef.current = null
+    if (!gap || files.length === 0) return
+    const added = uploadQueue.add(targetRagId(gap), files)
+    setGapUploads(prev => ({ ...prev, [gap.id]: added.map(item => item.id) }))
+  }
+
+  async function handleDismiss(gap: KnowledgeGap) {
+    if (!(await resolve(gap))) toast.error('Failed to dismiss the gap')
+  }
+
+  function handleExport() {
+    const date = new Date().toISOString().slice(0, 10)
+    downloadFile(`knowledge-gaps-${date}.csv`, gapReportToCsv(visibleGaps), 'text/csv')
+  }
+
+  const questionCount = visibleGaps.reduce((sum, gap) => sum + gap.count, 0)
+
+  return (
+    <div className="flex flex-col h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 text-white">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-6 py-3 backdrop-blur-xl bg-white/10 border-b border-white/20">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+            <Link to="/admin/knowledge" aria-label="Back to knowledge bases">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="flex items-center gap-2 text-lg font-semibold">
+              <MessageCircleQuestion className="h-5 w-5 text-amber-300" />
+              Knowledge gaps
+            </h1>
+            <p className="text-xs text-white/60">Questions the agents couldn't answer, most asked first</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={kbFilter}
+            onValueChange={(value) => setSearchParams(value === ALL_KNOWLEDGE_BASES ? {} : { kb: value }, { replace: true })}
+          >
+            <SelectTrigger className="w-56 bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_KNOWLEDGE_BASES}>All knowledge bases</SelectItem>
+              {knowledgeBases.map(kb => (
+                <SelectItem key={kb.ragId} value={kb.ragId}>{kb.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={reload}
+            disabled={isLoading}
+            aria-label="Refresh"
+            className="text-white/80 hover:text-white hover:bg-white/10"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleExport}
+            disabled={visibleGaps.length === 0}
+            className="text-white/80 hover:text-white hover:bg-white/10"
+          >
+            <Download className="h-4 w-4 mr-1.5" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(Array.from(e.target.files || []))
+          e.target.value = ''
+        }}
+      />
+
+      <ScrollArea className="flex-1">
+        <div className="max-w-4xl mx-auto p-6 space-y-4">
+          {!isShared && (
+            <div role="status" className="flex items-start gap-2 rounded-xl border border-amber-400/30 bg-amber-500/15 p-3 text-sm text-amber-100">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                Only questions asked in this browser are shown - they are logged to its local storage. To see every
+                customer's unanswered questions, plug in a shared store with <code className="text-xs">setGapLogStore</code>.
+              </span>
+            </div>
+          )}
+          {error ? (
+            <p className="rounded-lg bg-red-500/15 border border-red-400/30 p-3 text-sm text-red-200" role="alert">{error}</p>
+          ) : isLoading && gaps.length === 0 ? (
+            <p className="flex items-center justify-center gap-2 py-16 text-white/60">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Loading unanswered questions...
+            </p>
+          ) : visibleGaps.length === 0 ? (
+            <div className="flex flex-col items-center justify-center text-center text-white/60 gap-2 py-16">
+              <MessageCircleQuestion className="h-10 w-10 text-white/30" />
+              <p>No knowledge gaps yet.</p>
+              <p className="text-sm text-white/40">
+                Questions answered with low confidence or without sources show up here.
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-white/60">
+                {visibleGaps.length} {visibleGaps.length === 1 ? 'gap' : 'gaps'} from {questionCount} unanswered {questionCount === 1 ? 'question' : 'questions'}
+              </p>
+              {visibleGaps.map((gap, index) => (
+                <GapCard
+                  key={gap.id}
+                  gap={gap}
+                  rank={index + 1}
+                  ragId={targetRagId(gap)}
+                  knowledgeBaseName={knowledgeBaseName(targetRagId(gap))}
+                  uploads={uploadQueue.items.filter(item => gapUploads[gap.id]?.includes(item.id))}
+                  onUpload={() => handleUploadClick(gap)}
+                  onDismiss={() => handleDismiss(gap)}
+                />
+              ))}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
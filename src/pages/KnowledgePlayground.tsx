@@ -0,0 +1,470 @@
+/**
+ * KNOWLEDGE BASE PLAYGROUND - Run a question against a RAG index directly and compare with the agent's answer
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Bot,
+  CheckCircle2,
+  Database,
+  ExternalLink,
+  FileText,
+  FlaskConical,
+  Loader2,
+  Search
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { SourceDetails } from '@/components/SourceCitations'
+import { useAppConfig } from '@/components/AppConfigProvider'
+import { callAIAgent, createSessionId, extractText } from '@/utils/aiAgent'
+import { retrieveChunks, type RetrievalType, type RetrievedChunk } from '@/utils/ragKnowledgeBase'
+import { normalizeSources, type Source } from '@/utils/sources'
+import { getKnowledgeBases, getWorkflow } from '@/utils/workflow'
+import type { SupportResponse } from '@/types'
+
+interface RetrievalRun {
+  chunks: RetrievedChunk[]
+  durationMs: number
+  error?: string
+}
+
+interface AgentRun {
+  answer: string
+  confidence?: number
+  sources: Source[]
+  durationMs: number
+  error?: string
+}
+
+interface Diagnosis {
+  tone: 'ok' | 'warning'
+  message: string
+}
+
+const RETRIEVAL_TYPES: { value: RetrievalType; label: string }[] = [
+  { value: 'basic', label: 'Similarity' },
+  { value: 'mmr', label: 'Diverse (MMR)' },
+  { value: 'hyde', label: 'HyDE' }
+]
+
+const formatScore = (score: number | undefined) =>
+  score === undefined ? '—' : score <= 1 ? `${(score * 100).toFixed(0)}%` : score.toFixed(2)
+
+// An agent source and a retrieved chunk are the same if they share a URL, a document or their text
+function matchesChunk(source: Source, chunk: RetrievedChunk): boolean {
+  if (source.url && source.url === chunk.url) return true
+  if (source.chunkText && chunk.chunkText) {
+    const sample = (text: string) => text.replace(/\s+/g, ' ').trim().slice(0, 80)
+    if (chunk.chunkText.includes(sample(source.chunkText)) || source.chunkText.includes(sample(chunk.chunkText))) return true
+  }
+  return !source.chunkText && !!source.documentName && source.documentName === chunk.documentName
+}
+
+// What the two runs together say about where an answer went wrong
+function diagnose(retrieval: RetrievalRun | null, agent: AgentRun | null, threshold: number): Diagnosis | null {
+  if (!retrieval || retrieval.error) return null
+  const relevant = retrieval.chunks.filter(chunk => chunk.score === undefined || chunk.score >= threshold)
+
+  if (relevant.length === 0) {
+    return {
+      tone: 'warning',
+      message: 'Retrieval found nothing above the threshold - the knowledge base probably doesn\'t cover this question.'
+    }
+  }
+  if (!agent || agent.error) {
+    return { tone: 'ok', message: `Retrieval found ${relevant.length} chunk${relevant.length === 1 ? '' : 's'} above the threshold.` }
+  }
+  if (agent.sources.length === 0) {
+    return {
+      tone: 'warning',
+      message: `Retrieval found ${relevant.length} relevant chunk${relevant.length === 1 ? '' : 's'}, but the agent cited no sources - it may not be searching this knowledge base, or its instructions ignore the context.`
+    }
+  }
+  const cited = relevant.filter(chunk => agent.sources.some(source => matchesChunk(source, chunk)))
+  if (cited.length === 0) {
+    return {
+      tone: 'warning',
+      message: 'The agent cited sources, but none of the retrieved chunks - it answered from different context than this query retrieves.'
+    }
+  }
+  return { tone: 'ok', message: `The agent cited ${cited.length} of ${relevant.length} relevant retrieved chunk${relevant.length === 1 ? '' : 's'}.` }
+}
+
+// One retrieved chunk with its rank, score and where it came from
+function ChunkCard({ chunk, threshold, citedByAgent }: { chunk: RetrievedChunk; threshold: number; citedByAgent: boolean }) {
+  const belowThreshold = chunk.score !== undefined && chunk.score < threshold
+
+  return (
+    <div className={`rounded-xl border p-4 space-y-2 ${belowThreshold ? 'bg-white/5 border-white/10 opacity-60' : 'bg-white/10 border-white/20'}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="flex items-center gap-2 text-sm font-medium">
+            <span className="text-white/50">#{chunk.index}</span>
+            <span className="truncate">{chunk.title}</span>
+          </p>
+          {chunk.section && <p className="text-xs text-white/60 truncate">{chunk.section}</p>}
+        </div>
+        <div className="flex shrink-0 items-center gap-1.5">
+          {citedByAgent && (
+            <Badge variant="outline" className="bg-green-500/20 text-green-200 border-green-400/30 text-[10px]">Cited</Badge>
+          )}
+          {belowThreshold && (
+            <Badge variant="outline" className="bg-white/10 text-white/60 border-white/20 text-[10px]">Below threshold</Badge>
+          )}
+          <span className="text-sm font-semibold tabular-nums">{formatScore(chunk.score)}</span>
+        </div>
+      </div>
+      {chunk.score !== undefined && chunk.score <= 1 && (
+        <Progress value={chunk.score * 100} className="h-1 bg-white/10" />
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {chunk.documentName && (
+          <span className="flex items-center gap-1 text-white/70">
+            <FileText className="h-3 w-3" />
+            {chunk.documentName}
+            {chunk.page !== undefined && ` · p. ${chunk.page}`}
+          </span>
+        )}
+        {chunk.url && (
+          <a href={chunk.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-blue-300 hover:text-blue-200 underline break-all">
+            <ExternalLink className="h-3 w-3 shrink-0" />
+            {chunk.url}
+          </a>
+        )}
+      </div>
+      {chunk.chunkText && (
+        <p className="max-h-40 overflow-y-auto whitespace-pre-wrap text-xs text-white/80 border-l-2 border-white/20 pl-3">
+          {chunk.chunkText}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default function KnowledgePlayground() {
+  const config = useAppConfig()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const requestedRagId = searchParams.get('kb')
+
+  const knowledgeBases = useMemo(
+    () => getKnowledgeBases(getWorkflow(), [config.ragId, requestedRagId].filter(Boolean)),
+    [config.ragId, requestedRagId]
+  )
+  const knowledgeBase = knowledgeBases.find(kb => kb.ragId === requestedRagId) || knowledgeBases[0]
+  const ragId = knowledgeBase?.ragId
+
+  // Agents answering from this knowledge base, plus the configured default agent
+  const agents = useMemo(() => {
+    const options = (knowledgeBase?.agents || []).map(agent => ({ agentId: agent.agentId, label: agent.label }))
+    if (!options.some(option => option.agentId === config.agentId)) {
+      options.push({ agentId: config.agentId, label: 'Default agent' })
+    }
+    return options
+  }, [knowledgeBase, config.agentId])
+
+  const [query, setQuery] = useState(() => searchParams.get('q') || '')
+  const [topK, setTopK] = useState(5)
+  const [threshold, setThreshold] = useState(0)
+  const [retrievalType, setRetrievalType] = useState<RetrievalType>('basic')
+  const [compareWithAgent, setCompareWithAgent] = useState(true)
+  const [agentId, setAgentId] = useState(agents[0]?.agentId)
+  const [isRunning, setIsRunning] = useState(false)
+  const [retrieval, setRetrieval] = useState<RetrievalRun | null>(null)
+  const [agentRun, setAgentRun] = useState<AgentRun | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Keep the agent choice valid when switching knowledge bases
+  useEffect(() => {
+    if (!agents.some(agent => agent.agentId === agentId)) setAgentId(agents[0]?.agentId)
+  }, [agents, agentId])
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  async function runRetrieval(signal: AbortSignal): Promise<RetrievalRun> {
+    const started = performance.now()
+    const result = await retrieveChunks(ragId, query, { topK, scoreThreshold: threshold, retrievalType, signal })
+    return {
+      chunks: result.chunks || [],
+      durationMs: performance.now() - started,
+      error: result.success ? undefined : result.details ? `${result.error}: ${result.details}` : result.error
+    }
+  }
+
+  async function runAgent(signal: AbortSignal): Promise<AgentRun> {
+    const started = performance.now()
+    // A fresh session each run so earlier questions don't leak into the answer
+    const result = await callAIAgent(query, agentId, { session_id: createSessionId(agentId), signal })
+    const durationMs = performance.now() - started
+    if (!result.success) {
+      return { answer: '', sources: [], durationMs, error: result.error || 'The agent call failed' }
+    }
+    const response = result.response as unknown as SupportResponse
+    return {
+      answer: response.result?.answer || extractText(result.response),
+      confidence: response.result?.confidence,
+      sources: normalizeSources(response.result?.sources),
+      durationMs
+    }
+  }
+
+  async function handleRun() {
+    if (!query.trim() || !ragId) return
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setIsRunning(true)
+    setAgentRun(null)
+    const [retrievalResult, agentResult] = await Promise.all([
+      runRetrieval(controller.signal),
+      compareWithAgent && agentId ? runAgent(controller.signal) : Promise.resolve(null)
+    ])
+    if (controller.signal.aborted) return
+
+    setRetrieval(retrievalResult)
+    setAgentRun(agentResult)
+    setIsRunning(false)
+    controllerRef.current = null
+  }
+
+  const diagnosis = diagnose(retrieval, agentRun, threshold)
+
+  return (
+    <div className="flex flex-col h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 text-white">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-6 py-3 backdrop-blur-xl bg-white/10 border-b border-white/20">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+            <Link to={ragId ? `/admin/knowledge?kb=${encodeURIComponent(ragId)}` : '/admin/knowledge'} aria-label="Back to knowledge bases">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="flex items-center gap-2 text-lg font-semibold">
+              <FlaskConical className="h-5 w-5 text-blue-300" />
+              Retrieval playground
+            </h1>
+            <p className="text-xs text-white/60">See what a question retrieves, and what the agent makes of it</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Query and settings */}
+        <div className="w-80 shrink-0 border-r border-white/20 backdrop-blur-xl bg-white/5 p-4 space-y-5 overflow-y-auto">
+          <div className="space-y-2">
+            <Label className="text-white/80">Knowledge base</Label>
+            <Select value={ragId} onValueChange={(value) => setSearchParams({ kb: value }, { replace: true })}>
+              <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                <SelectValue placeholder="Choose a knowledge base" />
+              </SelectTrigger>
+              <SelectContent>
+                {knowledgeBases.map(kb => (
+                  <SelectItem key={kb.ragId} value={kb.ragId}>{kb.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="playground-query" className="text-white/80">Question</Label>
+            <Textarea
+              id="playground-query"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault()
+                  handleRun()
+                }
+              }}
+              rows={4}
+              placeholder="How long do refunds take?"
+              className="bg-white/10 border-white/20 text-white placeholder:text-white/40 resize-none"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-white/80">Top k</Label>
+              <span className="text-sm tabular-nums">{topK}</span>
+            </div>
+            <Slider value={[topK]} min={1} max={20} step={1} onValueChange={([value]) => setTopK(value)} aria-label="Top k" />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-white/80">Score threshold</Label>
+              <span className="text-sm tabular-nums">{threshold.toFixed(2)}</span>
+            </div>
+            <Slider value={[threshold]} min={0} max={1} step={0.05} onValueChange={([value]) => setThreshold(value)} aria-label="Score threshold" />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-white/80">Retrieval</Label>
+            <Select value={retrievalType} onValueChange={(value) => setRetrievalType(value as RetrievalType)}>
+              <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETRIEVAL_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3 rounded-lg border border-white/15 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="playground-compare" className="text-white/80">Compare with agent</Label>
+              <Switch id="playground-compare" checked={compareWithAgent} onCheckedChange={setCompareWithAgent} />
+            </div>
+            {compareWithAgent && (
+              <Select value={agentId} onValueChange={setAgentId}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue placeholder="Choose an agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agents.map(agent => (
+                    <SelectItem key={agent.agentId} value={agent.agentId}>{agent.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <Button
+            onClick={handleRun}
+            disabled={!query.trim() || !ragId || isRunning}
+            className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg"
+          >
+            {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Run query
+          </Button>
+          <p className="text-xs text-white/40 text-center">⌘/Ctrl + Enter</p>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 min-w-0 flex flex-col p-6 gap-4">
+          {diagnosis && (
+            <div
+              role="status"
+              className={`flex items-start gap-2 rounded-xl border p-3 text-sm ${
+                diagnosis.tone === 'warning'
+                  ? 'bg-amber-500/15 border-amber-400/30 text-amber-100'
+                  : 'bg-green-500/15 border-green-400/30 text-green-100'
+              }`}
+            >
+              {diagnosis.tone === 'warning'
+                ? <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                : <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" />}
+              {diagnosis.message}
+            </div>
+          )}
+
+          {!retrieval && !isRunning ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-center text-white/60 gap-2">
+              <Database className="h-10 w-10 text-white/30" />
+              <p>Ask a question to see the chunks it retrieves from {knowledgeBase?.name || 'the knowledge base'}.</p>
+            </div>
+          ) : (
+            <div className={`flex-1 min-h-0 grid gap-4 ${agentRun || (isRunning && compareWithAgent) ? 'lg:grid-cols-2' : ''}`}>
+              {/* Retrieved chunks */}
+              <div className="flex flex-col min-h-0 gap-2">
+                <h2 className="flex items-center justify-between text-sm font-semibold">
+                  <span className="flex items-center gap-2">
+                    <Database className="h-4 w-4 text-white/60" />
+                    Retrieved chunks
+                  </span>
+                  {retrieval && !isRunning && (
+                    <span className="text-xs font-normal text-white/50">
+                      {retrieval.chunks.length} in {Math.round(retrieval.durationMs)} ms
+                    </span>
+                  )}
+                </h2>
+                <ScrollArea className="flex-1">
+                  <div className="space-y-3 pr-3">
+                    {isRunning ? (
+                      <p className="flex items-center gap-2 text-sm text-white/60"><Loader2 className="h-4 w-4 animate-spin" />Retrieving...</p>
+                    ) : retrieval.error ? (
+                      <p className="rounded-lg bg-red-500/15 border border-red-400/30 p-3 text-sm text-red-200">{retrieval.error}</p>
+                    ) : retrieval.chunks.length === 0 ? (
+                      <p className="text-sm text-white/60">No chunks matched this question.</p>
+                    ) : (
+                      retrieval.chunks.map(chunk => (
+                        <ChunkCard
+                          key={chunk.index}
+                          chunk={chunk}
+                          threshold={threshold}
+                          citedByAgent={!!agentRun?.sources.some(source => matchesChunk(source, chunk))}
+                        />
+                      ))
+                    )}
+                  </div>
+                </ScrollArea>
+              </div>
+
+              {/* Agent answer */}
+              {(agentRun || (isRunning && compareWithAgent)) && (
+                <div className="flex flex-col min-h-0 gap-2">
+                  <h2 className="flex items-center justify-between text-sm font-semibold">
+                    <span className="flex items-center gap-2">
+                      <Bot className="h-4 w-4 text-white/60" />
+                      {agents.find(agent => agent.agentId === agentId)?.label || 'Agent'} answer
+                    </span>
+                    {agentRun && !isRunning && (
+                      <span className="text-xs font-normal text-white/50">{Math.round(agentRun.durationMs)} ms</span>
+                    )}
+                  </h2>
+                  <ScrollArea className="flex-1">
+                    <div className="space-y-3 pr-3">
+                      {isRunning ? (
+                        <p className="flex items-center gap-2 text-sm text-white/60"><Loader2 className="h-4 w-4 animate-spin" />Asking the agent...</p>
+                      ) : agentRun.error ? (
+                        <p className="rounded-lg bg-red-500/15 border border-red-400/30 p-3 text-sm text-red-200">{agentRun.error}</p>
+                      ) : (
+                        <>
+                          <div className="rounded-xl bg-white/10 border border-white/20 p-4 space-y-2">
+                            <p className="whitespace-pre-wrap text-sm">{agentRun.answer || 'No answer text.'}</p>
+                            <Badge variant="outline" className="bg-white/10 text-white/80 border-white/20 text-xs">
+                              Confidence {agentRun.confidence !== undefined ? `${(agentRun.confidence * 100).toFixed(0)}%` : 'not reported'}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-white/60">
+                            {agentRun.sources.length === 0 ? 'The agent cited no sources.' : `Sources cited (${agentRun.sources.length})`}
+                          </p>
+                          {agentRun.sources.map(source => {
+                            const match = retrieval?.chunks.find(chunk => matchesChunk(source, chunk))
+                            return (
+                              <div key={source.index} className="rounded-xl bg-white/10 border border-white/20 p-3 space-y-2">
+                                <SourceDetails source={source} />
+                                <p className={`text-xs ${match ? 'text-green-300' : 'text-amber-200'}`}>
+                                  {match ? `Retrieved chunk #${match.index}` : 'Not among the retrieved chunks'}
+                                </p>
+                              </div>
+                            )
+                          })}
+                        </>
+                      )}
+                    </div>
+                  </ScrollArea>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
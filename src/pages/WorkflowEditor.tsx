@@ -0,0 +1,1002 @@
+/**
+ * WORKFLOW EDITOR - View, edit, validate and export the agent graph in workflow.json
+ */
+
+import { useEffect, useMemo, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  ArrowLeft,
+  Bot,
+  CircleAlert,
+  CircleCheck,
+  Database,
+  Download,
+  MessageSquare,
+  Play,
+  Plus,
+  RotateCcw,
+  Split,
+  Trash2,
+  TriangleAlert,
+  X,
+  type LucideIcon
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { downloadFile } from '@/utils/download'
+import {
+  getWorkflowSource,
+  parseWorkflow,
+  setWorkflow,
+  validateWorkflow,
+  workflowToJSON,
+  type Workflow,
+  type WorkflowEdge,
+  type WorkflowIssue,
+  type WorkflowNode,
+  type WorkflowRoute
+} from '@/utils/workflow'
+import workflowState from '../../workflow_state.json'
+
+// Agent and knowledge base details recorded when the workflow was created
+interface WorkflowStateAgent {
+  agent_name: string
+  agent_id: string
+  provider?: string
+  model?: string
+  temperature?: number
+  top_p?: number
+}
+
+interface WorkflowStateKnowledgeBase {
+  name: string
+  rag_id: string
+  collection_name?: string
+  description?: string
+  status?: string
+}
+
+const STATE_AGENTS = (workflowState.agents_created || []) as WorkflowStateAgent[]
+const STATE_KNOWLEDGE_BASES = (workflowState.knowledge_bases || []) as WorkflowStateKnowledgeBase[]
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 72
+const CANVAS_PADDING = 160
+const GRID_SIZE = 10
+
+// Radix Select can't use '' as an item value
+const NONE = '__none__'
+
+const NODE_STYLES: Record<WorkflowNode['type'], { icon: LucideIcon; className: string }> = {
+  Input: { icon: MessageSquare, className: 'from-emerald-500/40 to-teal-600/40' },
+  Router: { icon: Split, className: 'from-amber-500/40 to-orange-600/40' },
+  Agent: { icon: Bot, className: 'from-blue-500/40 to-purple-600/40' },
+  Output: { icon: CircleCheck, className: 'from-slate-400/30 to-slate-600/40' }
+}
+
+type Selection = { kind: 'node' | 'edge'; id: string } | null
+type Point = { x: number; y: number }
+
+const snap = (value: number) => Math.max(0, Math.round(value / GRID_SIZE) * GRID_SIZE)
+
+// Nodes without a stored position are laid out left to right
+function getPosition(node: WorkflowNode, index: number): Point {
+  return node.position ?? { x: 100 + index * 260, y: 120 }
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base
+  let n = 2
+  while (taken.has(`${base}_${n}`)) n++
+  return `${base}_${n}`
+}
+
+function createNode(type: WorkflowNode['type'], id: string, position: Point): WorkflowNode {
+  switch (type) {
+    case 'Input':
+      return { id, type, label: 'Customer Query', nodeCategory: 'input', position }
+    case 'Output':
+      return { id, type, label: 'Response', nodeCategory: 'end', position }
+    case 'Router':
+      return {
+        id,
+        type,
+        label: 'Router',
+        nodeCategory: 'router',
+        routes: [{ id: 'general', label: 'General', keywords: [] }],
+        position
+      }
+    case 'Agent':
+      return { id, type, label: 'New Agent', nodeCategory: 'agent', agentId: '', position }
+  }
+}
+
+function describeEdge(edge: WorkflowEdge, source: WorkflowNode | undefined): string | null {
+  if (source?.type !== 'Router') return null
+  if (!edge.route) return 'default'
+  return source.routes.find(route => route.id === edge.route)?.label || edge.route
+}
+
+// Node on the canvas
+function NodeCard({
+  node,
+  position,
+  isSelected,
+  hasError,
+  isConnectTarget,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  onStartConnect
+}: {
+  node: WorkflowNode
+  position: Point
+  isSelected: boolean
+  hasError: boolean
+  // A connection is being drawn and can end here
+  isConnectTarget: boolean
+  onPointerDown: (e: ReactPointerEvent<HTMLDivElement>) => void
+  onPointerMove: (e: ReactPointerEvent<HTMLDivElement>) => void
+  onPointerUp: (e: ReactPointerEvent<HTMLDivElement>) => void
+  onStartConnect: () => void
+}) {
+  const { icon: Icon, className } = NODE_STYLES[node.type]
+  const subtitle = node.type === 'Agent'
+    ? node.agentName || node.agentId || 'No agent ID'
+    : node.type === 'Router'
+      ? `${node.routes.length} route${node.routes.length === 1 ? '' : 's'}`
+      : node.type
+
+  return (
+    <div
+      data-node-id={node.id}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      className={`absolute flex items-center gap-3 px-3 rounded-xl backdrop-blur-xl bg-gradient-to-br ${className} border text-white shadow-lg select-none touch-none ${
+        isConnectTarget ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'
+      } ${isSelected ? 'border-white ring-2 ring-white/60' : hasError ? 'border-red-400/80' : 'border-white/30'}`}
+      style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+    >
+      <div className="w-9 h-9 rounded-full bg-white/15 flex items-center justify-center shrink-0">
+        <Icon className="h-4 w-4" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium truncate">{node.label || node.id}</p>
+        <p className="text-xs text-white/60 truncate">{subtitle}</p>
+      </div>
+      {hasError && <CircleAlert className="h-4 w-4 text-red-300 shrink-0" />}
+      {node.type !== 'Output' && (
+        <button
+          type="button"
+          title="Drag a connection from here"
+          aria-label={`Connect ${node.label} to another node`}
+          onPointerDown={(e) => {
+            e.stopPropagation()
+            onStartConnect()
+          }}
+          className="absolute -right-2 top-1/2 -translate-y-1/2 w-4 h-4 rounded-full bg-white/80 border-2 border-slate-900 hover:bg-white hover:scale-125 transition-transform cursor-crosshair"
+        />
+      )}
+    </div>
+  )
+}
+
+function edgePath(from: Point, to: Point): string {
+  const start = { x: from.x + NODE_WIDTH, y: from.y + NODE_HEIGHT / 2 }
+  const end = { x: to.x, y: to.y + NODE_HEIGHT / 2 }
+  const dx = Math.max(40, Math.abs(end.x - start.x) / 2)
+  return `M ${start.x} ${start.y} C ${start.x + dx} ${start.y}, ${end.x - dx} ${end.y}, ${end.x} ${end.y}`
+}
+
+// Inline editor for one router route
+function RouteEditor({
+  route,
+  onChange,
+  onRemove
+}: {
+  route: WorkflowRoute
+  onChange: (route: WorkflowRoute) => void
+  onRemove?: () => void
+}) {
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-white/5 border border-white/10">
+      <div className="flex gap-2">
+        <Input
+          value={route.id}
+          onChange={(e) => onChange({ ...route, id: e.target.value.trim() })}
+          placeholder="id"
+          aria-label="Route ID"
+          className="h-8 bg-white/10 border-white/20 text-white font-mono text-xs"
+        />
+        <Input
+          value={route.label}
+          onChange={(e) => onChange({ ...route, label: e.target.value })}
+          placeholder="Label"
+          aria-label="Route label"
+          className="h-8 bg-white/10 border-white/20 text-white text-xs"
+        />
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove route" className="h-8 px-2 text-white/60 hover:text-white hover:bg-white/10">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      <Input
+        value={route.keywords.join(', ')}
+        onChange={(e) => onChange({ ...route, keywords: e.target.value.split(',').map(keyword => keyword.trim()).filter(Boolean) })}
+        placeholder="Keywords, comma separated"
+        aria-label="Route keywords"
+        className="h-8 bg-white/10 border-white/20 text-white text-xs"
+      />
+    </div>
+  )
+}
+
+// Details and fields for the selected node
+function NodeDetails({
+  node,
+  workflow,
+  onChange,
+  onRenameRoute,
+  onDelete
+}: {
+  node: WorkflowNode
+  workflow: Workflow
+  onChange: (node: WorkflowNode) => void
+  onRenameRoute: (oldId: string, newId: string) => void
+  onDelete: () => void
+}) {
+  const knowledgeBases = workflow.knowledgeBases || []
+  const fieldClass = 'bg-white/10 border-white/20 text-white placeholder:text-white/40'
+
+  const stateAgent = node.type === 'Agent' ? STATE_AGENTS.find(agent => agent.agent_id === node.agentId) : undefined
+  const linkedKnowledgeBase = node.type === 'Agent' && node.ragId
+    ? knowledgeBases.find(kb => kb.ragId === node.ragId)
+    : undefined
+  const stateKnowledgeBase = node.type === 'Agent' ? STATE_KNOWLEDGE_BASES.find(kb => kb.rag_id === node.ragId) : undefined
+  const routedFrom = node.type === 'Agent'
+    ? workflow.edges
+      .filter(edge => edge.target === node.id)
+      .map(edge => {
+        const source = workflow.nodes.find(n => n.id === edge.source)
+        return source?.type === 'Router' ? `${source.label}: ${describeEdge(edge, source)}` : null
+      })
+      .filter(Boolean)
+    : []
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className="bg-white/20 text-white border border-white/30">{node.type}</Badge>
+          <span className="text-xs text-white/50 font-mono">{node.id}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDelete} className="text-red-300 hover:text-red-200 hover:bg-white/10">
+          <Trash2 className="h-4 w-4 mr-1.5" />
+          Delete
+        </Button>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-white/80">Label</Label>
+        <Input value={node.label} onChange={(e) => onChange({ ...node, label: e.target.value })} className={fieldClass} />
+      </div>
+
+      {node.type === 'Agent' && (
+        <>
+          <div className="space-y-1.5">
+            <Label className="text-white/80">Agent ID</Label>
+            <Input
+              value={node.agentId}
+              onChange={(e) => onChange({ ...node, agentId: e.target.value.trim() })}
+              placeholder="Lyzr agent ID"
+              className={`${fieldClass} font-mono text-xs`}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-white/80">Agent name</Label>
+            <Input
+              value={node.agentName || ''}
+              onChange={(e) => onChange({ ...node, agentName: e.target.value || undefined })}
+              className={fieldClass}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-white/80">Knowledge base</Label>
+            <Select
+              value={node.ragId || NONE}
+              onValueChange={(value) => onChange({
+                ...node,
+                ragId: value === NONE ? undefined : value,
+                hasKnowledgeBase: value !== NONE
+              })}
+            >
+              <SelectTrigger className={fieldClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No knowledge base</SelectItem>
+                {knowledgeBases.map(kb => (
+                  <SelectItem key={kb.ragId} value={kb.ragId}>{kb.name || kb.ragName || kb.ragId}</SelectItem>
+                ))}
+                {/* Keep an unknown ID selectable so it isn't silently dropped */}
+                {node.ragId && !linkedKnowledgeBase && (
+                  <SelectItem value={node.ragId}>Unknown: {node.ragId}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(linkedKnowledgeBase || stateKnowledgeBase) && (
+            <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-xs space-y-1">
+              <p className="flex items-center gap-1.5 text-white font-medium">
+                <Database className="h-3.5 w-3.5" />
+                {linkedKnowledgeBase?.name || stateKnowledgeBase?.name}
+              </p>
+              <p className="text-white/50 font-mono">{node.ragId}</p>
+              {stateKnowledgeBase?.description && <p className="text-white/70">{stateKnowledgeBase.description}</p>}
+              {stateKnowledgeBase?.status && <p className="text-white/50">Status: {stateKnowledgeBase.status}</p>}
+            </div>
+          )}
+
+          {stateAgent && (
+            <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-xs text-white/70 grid grid-cols-2 gap-1">
+              {stateAgent.provider && <span>Provider: {stateAgent.provider}</span>}
+              {stateAgent.model && <span>Model: {stateAgent.model}</span>}
+              {stateAgent.temperature !== undefined && <span>Temperature: {stateAgent.temperature}</span>}
+              {stateAgent.top_p !== undefined && <span>Top P: {stateAgent.top_p}</span>}
+            </div>
+          )}
+
+          {routedFrom.length > 0 && (
+            <p className="text-xs text-white/60">Routed from {routedFrom.join(', ')}</p>
+          )}
+        </>
+      )}
+
+      {node.type === 'Router' && (
+        <>
+          <div className="space-y-1.5">
+            <Label className="text-white/80">Classifier agent ID</Label>
+            <Input
+              value={node.agentId || ''}
+              onChange={(e) => onChange({ ...node, agentId: e.target.value.trim() || undefined })}
+              placeholder="Optional - keywords are used otherwise"
+              className={`${fieldClass} font-mono text-xs`}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-white/80">Routes</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  const id = uniqueId('route', new Set(node.routes.map(route => route.id)))
+                  onChange({ ...node, routes: [...node.routes, { id, label: 'New route', keywords: [] }] })
+                }}
+                className="h-7 text-white/70 hover:text-white hover:bg-white/10"
+              >
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                Add route
+              </Button>
+            </div>
+            {node.routes.map((route, index) => (
+              <RouteEditor
+                key={index}
+                route={route}
+                onChange={(updated) => {
+                  if (updated.id !== route.id) onRenameRoute(route.id, updated.id)
+                  onChange({ ...node, routes: node.routes.map((r, i) => (i === index ? updated : r)) })
+                }}
+                // A router needs at least one route
+                onRemove={node.routes.length > 1
+                  ? () => onChange({ ...node, routes: node.routes.filter((_, i) => i !== index) })
+                  : undefined}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Details for the selected edge
+function EdgeDetails({
+  edge,
+  workflow,
+  onChange,
+  onDelete
+}: {
+  edge: WorkflowEdge
+  workflow: Workflow
+  onChange: (edge: WorkflowEdge) => void
+  onDelete: () => void
+}) {
+  const source = workflow.nodes.find(node => node.id === edge.source)
+  const target = workflow.nodes.find(node => node.id === edge.target)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Badge variant="secondary" className="bg-white/20 text-white border border-white/30">Edge</Badge>
+        <Button variant="ghost" size="sm" onClick={onDelete} className="text-red-300 hover:text-red-200 hover:bg-white/10">
+          <Trash2 className="h-4 w-4 mr-1.5" />
+          Delete
+        </Button>
+      </div>
+      <p className="text-sm text-white">
+        {source?.label || edge.source} → {target?.label || edge.target}
+      </p>
+      {source?.type === 'Router' && (
+        <div className="space-y-1.5">
+          <Label className="text-white/80">Taken for route</Label>
+          <Select
+            value={edge.route || NONE}
+            onValueChange={(value) => onChange({ ...edge, route: value === NONE ? undefined : value })}
+          >
+            <SelectTrigger className="bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Default (no route matched)</SelectItem>
+              {source.routes.map(route => (
+                <SelectItem key={route.id} value={route.id}>{route.label || route.id}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Knowledge bases agents may reference
+function KnowledgeBaseList({
+  workflow,
+  onAdd,
+  onRemove
+}: {
+  workflow: Workflow
+  onAdd: (ragId: string, name: string) => void
+  onRemove: (ragId: string) => void
+}) {
+  const [ragId, setRagId] = useState('')
+  const [name, setName] = useState('')
+  const knowledgeBases = workflow.knowledgeBases || []
+
+  return (
+    <div className="space-y-2">
+      {knowledgeBases.length === 0 && <p className="text-xs text-white/50">No knowledge bases</p>}
+      {knowledgeBases.map(kb => {
+        const details = STATE_KNOWLEDGE_BASES.find(state => state.rag_id === kb.ragId)
+        const agents = workflow.nodes.filter(node => node.type === 'Agent' && node.ragId === kb.ragId)
+        return (
+          <div key={kb.ragId} className="p-3 rounded-lg bg-white/5 border border-white/10 text-xs space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <p className="flex items-center gap-1.5 text-white font-medium">
+                <Database className="h-3.5 w-3.5 shrink-0" />
+                {kb.name || kb.ragName || kb.ragId}
+              </p>
+              <button
+                type="button"
+                onClick={() => onRemove(kb.ragId)}
+                aria-label={`Remove ${kb.name || kb.ragId}`}
+                className="text-white/50 hover:text-white"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            <p className="text-white/50 font-mono break-all">{kb.ragId}</p>
+            {details?.status && <p className="text-white/50">Status: {details.status}</p>}
+            <p className="text-white/60">
+              {agents.length > 0 ? `Used by ${agents.map(agent => agent.label).join(', ')}` : 'Not used by any agent'}
+            </p>
+          </div>
+        )
+      })}
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (!ragId.trim()) return
+          onAdd(ragId.trim(), name.trim())
+          setRagId('')
+          setName('')
+        }}
+      >
+        <Input
+          value={ragId}
+          onChange={(e) => setRagId(e.target.value)}
+          placeholder="RAG ID"
+          aria-label="RAG ID"
+          className="h-8 bg-white/10 border-white/20 text-white font-mono text-xs"
+        />
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          aria-label="Knowledge base name"
+          className="h-8 bg-white/10 border-white/20 text-white text-xs"
+        />
+        <Button type="submit" size="sm" variant="ghost" disabled={!ragId.trim()} aria-label="Add knowledge base" className="h-8 px-2 text-white/70 hover:text-white hover:bg-white/10">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  )
+}
+
+function IssueList({ issues, onSelect }: { issues: WorkflowIssue[]; onSelect: (selection: Selection) => void }) {
+  if (issues.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-emerald-300">
+        <CircleCheck className="h-4 w-4" />
+        No problems found
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {issues.map((issue, index) => {
+        const target: Selection = issue.nodeId
+          ? { kind: 'node', id: issue.nodeId }
+          : issue.edgeId ? { kind: 'edge', id: issue.edgeId } : null
+        return (
+          <li key={index}>
+            <button
+              type="button"
+              disabled={!target}
+              onClick={() => onSelect(target)}
+              className="w-full flex items-start gap-2 text-left text-xs p-2 rounded-lg hover:bg-white/10 disabled:hover:bg-transparent disabled:cursor-default"
+            >
+              {issue.severity === 'error'
+                ? <CircleAlert className="h-3.5 w-3.5 mt-0.5 text-red-300 shrink-0" />
+                : <TriangleAlert className="h-3.5 w-3.5 mt-0.5 text-amber-300 shrink-0" />}
+              <span className="text-white/80">{issue.message}</span>
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default function WorkflowEditor() {
+  const [workflow, setDraft] = useState<Workflow>(() => structuredClone(getWorkflowSource()))
+  const [selection, setSelection] = useState<Selection>(null)
+  // Node a new edge is being drawn from, and where the pointer is
+  const [connectingFrom, setConnectingFrom] = useState<string | null>(null)
+  const [pointer, setPointer] = useState<Point | null>(null)
+  const canvasRef = useRef<HTMLDivElement>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ nodeId: string; offset: Point } | null>(null)
+
+  const issues = useMemo(() => validateWorkflow(workflow), [workflow])
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+  const nodesWithErrors = new Set(issues.filter(issue => issue.severity === 'error' && issue.nodeId).map(issue => issue.nodeId))
+
+  const positions = new Map(workflow.nodes.map((node, index) => [node.id, getPosition(node, index)]))
+  const canvasWidth = Math.max(...[...positions.values()].map(p => p.x + NODE_WIDTH), 0) + CANVAS_PADDING
+  const canvasHeight = Math.max(...[...positions.values()].map(p => p.y + NODE_HEIGHT), 0) + CANVAS_PADDING
+
+  const selectedNode = selection?.kind === 'node' ? workflow.nodes.find(node => node.id === selection.id) : undefined
+  const selectedEdge = selection?.kind === 'edge' ? workflow.edges.find(edge => edge.id === selection.id) : undefined
+
+  function updateNode(updated: WorkflowNode) {
+    setDraft(prev => ({ ...prev, nodes: prev.nodes.map(node => (node.id === updated.id ? updated : node)) }))
+  }
+
+  function updateEdge(updated: WorkflowEdge) {
+    setDraft(prev => ({ ...prev, edges: prev.edges.map(edge => (edge.id === updated.id ? updated : edge)) }))
+  }
+
+  // Keep a router's edges pointing at a route when its ID is edited
+  function renameRoute(routerId: string, oldId: string, newId: string) {
+    setDraft(prev => ({
+      ...prev,
+      edges: prev.edges.map(edge => (edge.source === routerId && edge.route === oldId ? { ...edge, route: newId } : edge))
+    }))
+  }
+
+  function addNode(type: WorkflowNode['type']) {
+    const scroll = scrollRef.current
+    const offset = (workflow.nodes.length % 5) * 30
+    const position = {
+      x: snap((scroll?.scrollLeft || 0) + 80 + offset),
+      y: snap((scroll?.scrollTop || 0) + 80 + offset)
+    }
+    const id = uniqueId(`${type.toLowerCase()}_node`, new Set(workflow.nodes.map(node => node.id)))
+    setDraft(prev => ({ ...prev, nodes: [...prev.nodes, createNode(type, id, position)] }))
+    setSelection({ kind: 'node', id })
+  }
+
+  function addEdge(source: string, target: string) {
+    if (source === target) return
+    const sourceNode = workflow.nodes.find(node => node.id === source)
+    const existing = workflow.edges.filter(edge => edge.source === source)
+    if (sourceNode?.type !== 'Router' && existing.some(edge => edge.target === target)) {
+      toast('Those nodes are already connected')
+      return
+    }
+    // New router edges take the first route that has no edge yet
+    const route = sourceNode?.type === 'Router'
+      ? sourceNode.routes.find(r => !existing.some(edge => edge.route === r.id))?.id
+      : undefined
+    const id = uniqueId(`edge-${source}-${target}`, new Set(workflow.edges.map(edge => edge.id)))
+    setDraft(prev => ({ ...prev, edges: [...prev.edges, { id, source, target, ...(route ? { route } : {}) }] }))
+    setSelection({ kind: 'edge', id })
+  }
+
+  function deleteSelection() {
+    if (!selection) return
+    if (selection.kind === 'node') {
+      setDraft(prev => ({
+        ...prev,
+        nodes: prev.nodes.filter(node => node.id !== selection.id),
+        edges: prev.edges.filter(edge => edge.source !== selection.id && edge.target !== selection.id)
+      }))
+    } else {
+      setDraft(prev => ({ ...prev, edges: prev.edges.filter(edge => edge.id !== selection.id) }))
+    }
+    setSelection(null)
+  }
+
+  function handleAddKnowledgeBase(ragId: string, name: string) {
+    if ((workflow.knowledgeBases || []).some(kb => kb.ragId === ragId)) {
+      toast.error('That knowledge base is already listed')
+      return
+    }
+    const details = STATE_KNOWLEDGE_BASES.find(kb => kb.rag_id === ragId)
+    setDraft(prev => ({
+      ...prev,
+      knowledgeBases: [
+        ...(prev.knowledgeBases || []),
+        { ragId, name: name || details?.name || ragId, ...(details?.collection_name ? { ragName: details.collection_name } : {}) }
+      ]
+    }))
+  }
+
+  function handleRemoveKnowledgeBase(ragId: string) {
+    setDraft(prev => ({ ...prev, knowledgeBases: (prev.knowledgeBases || []).filter(kb => kb.ragId !== ragId) }))
+  }
+
+  // Every node gets a stored position, so the exported layout matches what's on screen
+  function withPositions(graph: Workflow): Workflow {
+    return { ...graph, nodes: graph.nodes.map((node, index) => ({ ...node, position: getPosition(node, index) })) }
+  }
+
+  function handleExport() {
+    downloadFile('workflow.json', workflowToJSON(withPositions(workflow)) + '\n', 'application/json')
+    if (errorCount > 0) {
+      toast.warning(`Exported with ${errorCount} error${errorCount === 1 ? '' : 's'}`, {
+        description: 'The chat will not load this workflow until they are fixed.'
+      })
+    } else {
+      toast.success('Exported workflow.json')
+    }
+  }
+
+  function handleApply() {
+    // The schema accepts graphs that can't route (dangling edges, no start node), so check those too
+    if (errorCount > 0) {
+      toast.error(`Fix ${errorCount} error${errorCount === 1 ? '' : 's'} before applying`, {
+        description: issues.find(issue => issue.severity === 'error')?.message
+      })
+      return
+    }
+    // Round-trip through the schema so the chat only ever sees a graph it can parse
+    const result = parseWorkflow(JSON.parse(workflowToJSON(withPositions(workflow))))
+    if (!result.success) {
+      toast.error('Workflow is invalid', { description: result.error })
+      return
+    }
+    setWorkflow(result.workflow)
+    toast.success('Chat now routes with this workflow', { description: 'Until the page is reloaded - export it to keep it.' })
+  }
+
+  function handleReset() {
+    const previous = workflow
+    setDraft(structuredClone(getWorkflowSource()))
+    setSelection(null)
+    toast('Reverted to the active workflow', { action: { label: 'Undo', onClick: () => setDraft(previous) } })
+  }
+
+  // Canvas coordinates of a pointer event
+  function toCanvasPoint(e: { clientX: number; clientY: number }): Point {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  function handleNodePointerDown(node: WorkflowNode, e: ReactPointerEvent<HTMLDivElement>) {
+    if (e.button !== 0) return
+    if (connectingFrom) {
+      addEdge(connectingFrom, node.id)
+      setConnectingFrom(null)
+      setPointer(null)
+      return
+    }
+    setSelection({ kind: 'node', id: node.id })
+    const point = toCanvasPoint(e)
+    const position = positions.get(node.id)!
+    dragRef.current = { nodeId: node.id, offset: { x: point.x - position.x, y: point.y - position.y } }
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  function handleNodePointerMove(e: ReactPointerEvent<HTMLDivElement>) {
+    const drag = dragRef.current
+    if (!drag) return
+    const point = toCanvasPoint(e)
+    const position = { x: snap(point.x - drag.offset.x), y: snap(point.y - drag.offset.y) }
+    setDraft(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(node => (node.id === drag.nodeId ? { ...node, position } : node))
+    }))
+  }
+
+  function handleNodePointerUp(node: WorkflowNode, e: ReactPointerEvent<HTMLDivElement>) {
+    // Released over another node after dragging from a handle
+    if (connectingFrom && connectingFrom !== node.id) {
+      addEdge(connectingFrom, node.id)
+      setConnectingFrom(null)
+      setPointer(null)
+      return
+    }
+    if (!dragRef.current) return
+    dragRef.current = null
+    e.currentTarget.releasePointerCapture(e.pointerId)
+  }
+
+  // Escape cancels, Delete removes the selection - unless typing in a field
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      const target = e.target as HTMLElement
+      if (target.closest('input, textarea, [role="listbox"], [role="menu"]')) return
+      if (e.key === 'Escape') {
+        setConnectingFrom(null)
+        setPointer(null)
+        setSelection(null)
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selection) {
+        e.preventDefault()
+        deleteSelection()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  const connectingPosition = connectingFrom ? positions.get(connectingFrom) : undefined
+
+  return (
+    <div className="flex flex-col h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 text-white">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-6 py-3 backdrop-blur-xl bg-white/10 border-b border-white/20">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button asChild variant="ghost" size="sm" className="text-white/80 hover:text-white hover:bg-white/10">
+            <Link to="/" aria-label="Back to chat">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold">Workflow</h1>
+            <p className="text-xs text-white/60 truncate">
+              {workflow.nodes.length} nodes · {workflow.edges.length} edges ·{' '}
+              {errorCount > 0 ? `${errorCount} error${errorCount === 1 ? '' : 's'}` : 'valid'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" className="backdrop-blur-md bg-white/20 hover:bg-white/30 text-white border border-white/30">
+                <Plus className="h-4 w-4 mr-1.5" />
+                Add node
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {(Object.keys(NODE_STYLES) as WorkflowNode['type'][]).map(type => {
+                const Icon = NODE_STYLES[type].icon
+                return (
+                  <DropdownMenuItem key={type} onSelect={() => addNode(type)}>
+                    <Icon className="h-4 w-4 mr-2" />
+                    {type}
+                  </DropdownMenuItem>
+                )
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="sm" onClick={handleReset} className="text-white/80 hover:text-white hover:bg-white/10">
+            <RotateCcw className="h-4 w-4 mr-1.5" />
+            Reset
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleApply}
+            disabled={errorCount > 0}
+            title={errorCount > 0 ? 'Fix the errors first' : 'Route this tab\'s chat with the edited workflow'}
+            className="text-white/80 hover:text-white hover:bg-white/10"
+          >
+            <Play className="h-4 w-4 mr-1.5" />
+            Use in chat
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleExport}
+            className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg"
+          >
+            <Download className="h-4 w-4 mr-1.5" />
+            Export workflow.json
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Canvas */}
+        <div ref={scrollRef} className="flex-1 overflow-auto relative">
+          {connectingFrom && (
+            <div className="sticky top-3 left-3 z-20 w-fit ml-3 mt-3 px-3 py-1.5 rounded-lg bg-black/50 text-xs text-white/90">
+              Click a node to connect it · Esc to cancel
+            </div>
+          )}
+          <div
+            ref={canvasRef}
+            className="relative min-w-full min-h-full"
+            style={{
+              width: canvasWidth,
+              height: canvasHeight,
+              backgroundImage: 'radial-gradient(rgba(255,255,255,0.12) 1px, transparent 1px)',
+              backgroundSize: `${GRID_SIZE * 2}px ${GRID_SIZE * 2}px`
+            }}
+            onPointerDown={(e) => {
+              // Empty canvas: drop the selection and any connection in progress
+              if (e.target === e.currentTarget) {
+                setSelection(null)
+                setConnectingFrom(null)
+                setPointer(null)
+              }
+            }}
+            onPointerMove={(e) => connectingFrom && setPointer(toCanvasPoint(e))}
+          >
+            <svg className="absolute inset-0 w-full h-full pointer-events-none">
+              <defs>
+                <marker id="workflow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="rgba(255,255,255,0.7)" />
+                </marker>
+              </defs>
+              {workflow.edges.map(edge => {
+                const from = positions.get(edge.source)
+                const to = positions.get(edge.target)
+                // Dangling edges are listed under Problems instead
+                if (!from || !to) return null
+                const d = edgePath(from, to)
+                const isSelected = selection?.kind === 'edge' && selection.id === edge.id
+                return (
+                  <g key={edge.id}>
+                    <path
+                      d={d}
+                      fill="none"
+                      stroke="transparent"
+                      strokeWidth={14}
+                      style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                      onPointerDown={(e) => {
+                        e.stopPropagation()
+                        setSelection({ kind: 'edge', id: edge.id })
+                      }}
+                    />
+                    <path
+                      d={d}
+                      fill="none"
+                      stroke={isSelected ? 'white' : 'rgba(255,255,255,0.5)'}
+                      strokeWidth={isSelected ? 2.5 : 1.5}
+                      markerEnd="url(#workflow-arrow)"
+                    />
+                  </g>
+                )
+              })}
+              {connectingPosition && pointer && (
+                <path
+                  d={`M ${connectingPosition.x + NODE_WIDTH} ${connectingPosition.y + NODE_HEIGHT / 2} L ${pointer.x} ${pointer.y}`}
+                  stroke="rgba(255,255,255,0.7)"
+                  strokeWidth={1.5}
+                  strokeDasharray="6 4"
+                />
+              )}
+            </svg>
+
+            {/* Route labels on router edges */}
+            {workflow.edges.map(edge => {
+              const from = positions.get(edge.source)
+              const to = positions.get(edge.target)
+              const label = describeEdge(edge, workflow.nodes.find(node => node.id === edge.source))
+              if (!from || !to || !label) return null
+              return (
+                <button
+                  key={edge.id}
+                  type="button"
+                  onPointerDown={(e) => {
+                    e.stopPropagation()
+                    setSelection({ kind: 'edge', id: edge.id })
+                  }}
+                  className="absolute -translate-x-1/2 -translate-y-1/2 px-2 py-0.5 rounded-full bg-slate-900/80 border border-white/20 text-[11px] text-white/80 hover:text-white"
+                  style={{
+                    left: (from.x + NODE_WIDTH + to.x) / 2,
+                    top: (from.y + to.y) / 2 + NODE_HEIGHT / 2
+                  }}
+                >
+                  {label}
+                </button>
+              )
+            })}
+
+            {workflow.nodes.map(node => (
+              <NodeCard
+                key={node.id}
+                node={node}
+                position={positions.get(node.id)!}
+                isSelected={selection?.kind === 'node' && selection.id === node.id}
+                hasError={nodesWithErrors.has(node.id)}
+                isConnectTarget={!!connectingFrom && connectingFrom !== node.id}
+                onPointerDown={(e) => handleNodePointerDown(node, e)}
+                onPointerMove={handleNodePointerMove}
+                onPointerUp={(e) => handleNodePointerUp(node, e)}
+                onStartConnect={() => {
+                  setConnectingFrom(node.id)
+                  setSelection({ kind: 'node', id: node.id })
+                }}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Inspector */}
+        <div className="w-96 shrink-0 backdrop-blur-xl bg-white/5 border-l border-white/20">
+          <ScrollArea className="h-full">
+            <div className="p-5 space-y-6">
+              <section>
+                <h2 className="text-sm font-semibold text-white/90 mb-3">Details</h2>
+                {selectedNode ? (
+                  <NodeDetails
+                    node={selectedNode}
+                    workflow={workflow}
+                    onChange={updateNode}
+                    onRenameRoute={(oldId, newId) => renameRoute(selectedNode.id, oldId, newId)}
+                    onDelete={deleteSelection}
+                  />
+                ) : selectedEdge ? (
+                  <EdgeDetails edge={selectedEdge} workflow={workflow} onChange={updateEdge} onDelete={deleteSelection} />
+                ) : (
+                  <p className="text-xs text-white/50">
+                    Select a node or edge to edit it. Drag nodes to move them; drag or click from the dot on a node's right edge to connect it.
+                  </p>
+                )}
+              </section>
+
+              <section>
+                <h2 className="text-sm font-semibold text-white/90 mb-3">
+                  Problems{issues.length > 0 ? ` (${issues.length})` : ''}
+                </h2>
+                <IssueList issues={issues} onSelect={setSelection} />
+              </section>
+
+              <section>
+                <h2 className="text-sm font-semibold text-white/90 mb-3">Knowledge bases</h2>
+                <KnowledgeBaseList workflow={workflow} onAdd={handleAddKnowledgeBase} onRemove={handleRemoveKnowledgeBase} />
+              </section>
+            </div>
+          </ScrollArea>
+        </div>
+      </div>
+    </div>
+  )
+}
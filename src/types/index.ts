@@ -1,5 +1,7 @@
 // Common TypeScript types for your application
 
+import type { Source } from '@/utils/sources'
+
 export interface User {
   id: string
   name: string
@@ -19,6 +21,127 @@ export interface AppConfig {
   theme: Theme
 }
 
+// =============================================================================
+// Support Chat Types
+// =============================================================================
+
+/**
+ * Support agent result, based on actual_test_response
+ */
+export interface SupportResult {
+  answer: string
+  sources: any[]
+  confidence: number
+  suggested_followup: string[]
+}
+
+/**
+ * Normalized support agent response
+ */
+export interface SupportResponse {
+  status: 'success' | 'error'
+  result: SupportResult
+  metadata?: {
+    agent_name?: string
+    timestamp?: string
+  }
+}
+
+/**
+ * Why a customer rated an answer down
+ */
+export type FeedbackReason =
+  | 'incorrect'
+  | 'incomplete'
+  | 'irrelevant'
+  | 'outdated'
+  | 'unclear'
+  | 'other'
+
+/**
+ * Customer feedback on a single agent answer
+ */
+export interface MessageFeedback {
+  rating: 'up' | 'down'
+  reason?: FeedbackReason
+  comment?: string
+  createdAt: Date
+}
+
+/**
+ * One node a message passed through in the workflow graph
+ */
+export interface WorkflowStep {
+  nodeId: string
+  type: 'Input' | 'Router' | 'Agent' | 'Output'
+  label: string
+  // Route a Router node picked, e.g. 'billing'
+  route?: string
+  agentId?: string
+  ragId?: string
+}
+
+/**
+ * Agent a conversation was routed to - later turns skip the router
+ */
+export interface RoutedAgent {
+  nodeId: string
+  agentId: string
+  ragId?: string
+  label: string
+}
+
+/**
+ * A chat message in a support conversation
+ */
+export interface Message {
+  id: string
+  role: 'agent' | 'user'
+  content: string
+  timestamp: Date
+  confidence?: number
+  // Agent response status - 'error' when the knowledge base had no answer
+  status?: 'success' | 'error'
+  sources?: Source[]
+  suggested_followup?: string[]
+  feedback?: MessageFeedback
+  // Workflow nodes that produced an agent answer
+  path?: WorkflowStep[]
+}
+
+/**
+ * Support ticket created when a conversation was handed to a human
+ */
+export interface HandoffTicket {
+  ticketId: string
+  url?: string
+  email: string
+  createdAt: Date
+}
+
+/**
+ * A support conversation as stored in the sidebar
+ */
+export interface Conversation {
+  id: string
+  title: string
+  preview: string
+  timestamp: Date
+  messages: Message[]
+  // Agent session for this conversation - reused on every turn so the agent keeps memory
+  sessionId: string
+  // Stable per-browser user ID
+  userId: string
+  // Set once the customer has been handed off to a human
+  handoff?: HandoffTicket
+  // Pinned conversations are listed first
+  pinned?: boolean
+  // Archived conversations only show in the Archived view
+  archived?: boolean
+  // Set by the workflow router on the first question
+  routedAgent?: RoutedAgent
+}
+
 // =============================================================================
 // SSE Event Types for Lyra Chat
 // =============================================================================
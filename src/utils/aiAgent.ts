@@ -32,15 +32,24 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
+import { createSSEDecoder, type ParsedSSEEvent } from '@/lib/event-parser'
+import { createRequestSignal, type AbortReason, type RequestSignalOptions } from '@/utils/requestSignal'
+import { fetchWithRetry, createRetryLog, type RetryAttemptError, type RetryLog, type RetryOption } from '@/utils/retry'
+import { getAppConfig } from '@/utils/appConfig'
 import React from 'react'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+// Endpoints are read per request so a runtime config (see appConfig) applies
+const getChatUrl = () => `${getAppConfig().api.agentBaseUrl}/inference/chat/`
+const getStreamUrl = () => `${getAppConfig().api.agentBaseUrl}/inference/stream/`
 const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
 
+// localStorage key holding this browser's stable user ID
+const USER_ID_STORAGE_KEY = 'support-user-id'
+
 // =============================================================================
 // Types - UI can rely on these!
 // =============================================================================
@@ -86,6 +95,38 @@ export interface AIAgentResponse {
   error?: string
   /** Additional error details */
   details?: string
+  /** True if the caller cancelled the request via its AbortSignal */
+  aborted?: boolean
+  /** Number of HTTP attempts made (more than 1 means the request was retried) */
+  attempts?: number
+  /** Errors from attempts that failed and were retried (or ran out of retries) */
+  attempt_errors?: RetryAttemptError[]
+}
+
+/**
+ * Options accepted by callAIAgent (signal/timeout cancel the request)
+ */
+export interface AgentCallOptions extends RequestSignalOptions {
+  /** Stable user ID - see getBrowserUserId */
+  user_id?: string
+  /** Session ID - reuse across turns so the agent remembers the conversation */
+  session_id?: string
+  /** Asset IDs from uploadFiles */
+  assets?: string[]
+  /** Retry policy overrides, or false to disable retries (see DEFAULT_RETRY_POLICY) */
+  retry?: RetryOption
+}
+
+/**
+ * Options accepted by streamAIAgent
+ */
+export interface StreamAgentOptions extends AgentCallOptions {
+  /** Called with each raw text token as it arrives */
+  onToken?: (token: string) => void
+  /** Called with the partially generated answer whenever it grows */
+  onAnswer?: (partialAnswer: string) => void
+  /** Result field to report through onAnswer (default: 'answer') */
+  answerField?: string
 }
 
 // =============================================================================
@@ -100,6 +141,31 @@ function generateUUID(): string {
   })
 }
 
+/**
+ * Create a new session ID for an agent.
+ * Reuse the same session ID across turns so the agent keeps conversation memory.
+ */
+export function createSessionId(agent_id: string): string {
+  return `${agent_id}-${generateUUID().substring(0, 12)}`
+}
+
+/**
+ * Get this browser's stable user ID, creating and persisting one on first use.
+ * Falls back to an ephemeral ID when localStorage is unavailable.
+ */
+export function getBrowserUserId(): string {
+  try {
+    const stored = localStorage.getItem(USER_ID_STORAGE_KEY)
+    if (stored) return stored
+
+    const user_id = `user-${generateUUID()}`
+    localStorage.setItem(USER_ID_STORAGE_KEY, user_id)
+    return user_id
+  } catch {
+    return `user-${generateUUID()}`
+  }
+}
+
 /**
  * Normalize any parsed response to the standard structure.
  * Handles various response formats and ensures consistent output.
@@ -186,6 +252,194 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
   }
 }
 
+/**
+ * Build the chat request payload, filling in IDs the caller didn't provide
+ */
+function buildPayload(message: string, agent_id: string, options?: AgentCallOptions) {
+  const user_id = options?.user_id || `user-${generateUUID()}`
+  const session_id = options?.session_id || createSessionId(agent_id)
+
+  // Build request payload
+  const payload: Record<string, any> = {
+    message,
+    agent_id,
+    user_id,
+    session_id,
+  }
+
+  // Add assets if provided (file attachments from uploadFiles)
+  if (options?.assets && options.assets.length > 0) {
+    payload.assets = options.assets
+  }
+
+  return { payload, user_id, session_id }
+}
+
+/**
+ * Turn a finished HTTP response body into the guaranteed AIAgentResponse shape
+ */
+function buildAgentResponse(
+  response: { ok: boolean; status: number },
+  rawText: string,
+  ids: { agent_id: string; user_id: string; session_id: string }
+): AIAgentResponse {
+  if (response.ok) {
+    // Parse with bulletproof JSON parser
+    const parsed = parseLLMJson(rawText)
+
+    // Check for parser error
+    if (parsed?.success === false && parsed?.error) {
+      return {
+        success: false,
+        response: {
+          status: 'error',
+          result: {},
+          message: parsed.error
+        },
+        error: parsed.error,
+        raw_response: rawText,
+      }
+    }
+
+    // Normalize to guaranteed structure
+    const normalized = normalizeResponse(parsed)
+
+    return {
+      success: true,
+      response: normalized,
+      ...ids,
+      timestamp: new Date().toISOString(),
+      raw_response: rawText,
+    }
+  }
+
+  // API error
+  let errorMsg = `API returned status ${response.status}`
+  try {
+    const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
+    errorMsg = errorData?.error || errorData?.message || errorMsg
+  } catch {}
+
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    raw_response: rawText,
+  }
+}
+
+/**
+ * Attach the retry log to a response
+ */
+function withRetryLog(result: AIAgentResponse, log: RetryLog): AIAgentResponse {
+  return { ...result, attempts: log.attempts, attempt_errors: log.errors }
+}
+
+/**
+ * Error response for requests that never got an HTTP response (or were aborted mid-stream)
+ */
+function networkErrorResponse(error: unknown, abortReason: AbortReason = null, rawText?: string): AIAgentResponse {
+  if (abortReason === 'cancelled') {
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: 'Request cancelled'
+      },
+      error: 'Request cancelled',
+      raw_response: rawText,
+      aborted: true,
+    }
+  }
+
+  const errorMsg = abortReason === 'timeout'
+    ? 'Request timed out. Please try again.'
+    : error instanceof Error ? error.message : 'Network error'
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    details: error instanceof Error ? error.stack : String(error),
+  }
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+}
+
+/**
+ * Extract the value of a string field from an incomplete JSON document.
+ * Used while streaming to show the answer before the closing quote arrives.
+ * Plain-text streams (no JSON envelope) are returned as-is.
+ */
+export function extractPartialAnswer(rawText: string, field = 'answer'): string {
+  const trimmed = rawText.trimStart()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) {
+    return rawText
+  }
+
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(rawText)
+  if (!match) return ''
+
+  let answer = ''
+  for (let i = match.index + match[0].length; i < rawText.length; i++) {
+    const char = rawText[i]
+    if (char === '"') break
+
+    if (char === '\\') {
+      const next = rawText[i + 1]
+      // Escape sequence split across chunks - wait for the rest
+      if (next === undefined) break
+
+      if (next === 'u') {
+        const hex = rawText.substring(i + 2, i + 6)
+        if (hex.length < 4) break
+        answer += String.fromCharCode(parseInt(hex, 16))
+        i += 5
+        continue
+      }
+
+      answer += JSON_ESCAPES[next] ?? next
+      i++
+      continue
+    }
+
+    answer += char
+  }
+
+  return answer
+}
+
+/**
+ * Pull the text token out of a streamed SSE event
+ */
+function getStreamToken(parsed: ParsedSSEEvent): string {
+  // [DONE] marker and empty keep-alives carry no text
+  if (!parsed.raw || parsed.raw === '[DONE]') return ''
+
+  if (parsed.success && parsed.event) {
+    const event = parsed.event as Record<string, any>
+    for (const key of ['content', 'token', 'delta', 'text', 'chunk']) {
+      if (typeof event[key] === 'string') return event[key]
+    }
+  }
+
+  return parsed.raw
+}
+
 // =============================================================================
 // Main API Function
 // =============================================================================
@@ -195,7 +449,8 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required)
- * @param options - Optional user_id, session_id, and assets (file attachments)
+ * @param options - Optional user_id, session_id, assets (file attachments), signal and timeout.
+ *   Pass the same session_id on every turn of a conversation so the agent remembers earlier messages.
  * @returns Promise with normalized AI agent response
  *
  * @example
@@ -203,12 +458,30 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  * // Basic usage
  * const result = await callAIAgent('What is TypeScript?', 'your-agent-id')
  *
+ * // Multi-turn conversation - reuse the same IDs on every turn
+ * const session_id = createSessionId('your-agent-id')
+ * const user_id = getBrowserUserId()
+ * await callAIAgent('What plans do you offer?', 'your-agent-id', { user_id, session_id })
+ * await callAIAgent('How much is the second one?', 'your-agent-id', { user_id, session_id })
+ *
  * // With file attachments (from uploadFiles)
  * const uploadResult = await uploadFiles(file)
  * const result = await callAIAgent('Analyze this document', 'your-agent-id', {
  *   assets: uploadResult.asset_ids
  * })
  *
+ * // Cancellable, with a 30s timeout
+ * const controller = new AbortController()
+ * const result = await callAIAgent('Hello', 'your-agent-id', {
+ *   signal: controller.signal,
+ *   timeout: 30000
+ * })
+ * if (result.aborted) return // controller.abort() was called
+ *
+ * // Retries 429/5xx and network errors by default - tune or disable per call
+ * await callAIAgent('Hello', 'your-agent-id', { retry: { maxAttempts: 5 } })
+ * await callAIAgent('Hello', 'your-agent-id', { retry: false })
+ *
  * if (result.success) {
  *   console.log(result.response.status)  // "success"
  *   console.log(result.response.result)  // { ...agent's data }
@@ -218,97 +491,131 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: AgentCallOptions
 ): Promise<AIAgentResponse> {
-  const user_id = options?.user_id || `user-${generateUUID()}`
-  const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  const { payload, user_id, session_id } = buildPayload(message, agent_id, options)
+  const request = createRequestSignal(options)
+  const retryLog = createRetryLog()
 
-  // Build request payload
-  const payload: Record<string, any> = {
-    message,
-    agent_id,
-    user_id,
-    session_id,
-  }
+  try {
+    const response = await fetchWithRetry(getChatUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': LYZR_API_KEY,
+      },
+      body: JSON.stringify(payload),
+      signal: request.signal,
+    }, options?.retry, retryLog)
 
-  // Add assets if provided (file attachments from uploadFiles)
-  if (options?.assets && options.assets.length > 0) {
-    payload.assets = options.assets
+    const rawText = await response.text()
+
+    return withRetryLog(buildAgentResponse(response, rawText, { agent_id, user_id, session_id }), retryLog)
+  } catch (error) {
+    return withRetryLog(networkErrorResponse(error, request.abortReason()), retryLog)
+  } finally {
+    request.cleanup()
   }
+}
+
+/**
+ * Stream the AI Agent response token by token
+ *
+ * Reads the response body incrementally and reports the partially generated
+ * `answer` field as it grows. Resolves with the same normalized structure as
+ * callAIAgent once the stream completes.
+ *
+ * @param message - Your query or prompt for the AI agent
+ * @param agent_id - Agent ID (required)
+ * @param options - Same options as callAIAgent plus onToken/onAnswer callbacks.
+ *   If the signal aborts mid-stream, the partial text is returned in raw_response.
+ * @returns Promise with normalized AI agent response
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent('How do returns work?', 'your-agent-id', {
+ *   session_id,
+ *   onAnswer: (partial) => setDraft(partial),
+ * })
+ *
+ * if (result.success) {
+ *   console.log(result.response.result.answer)  // Final answer
+ * }
+ * ```
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: StreamAgentOptions
+): Promise<AIAgentResponse> {
+  const { payload, user_id, session_id } = buildPayload(message, agent_id, options)
+  const field = options?.answerField || 'answer'
+  const request = createRequestSignal(options)
+  const retryLog = createRetryLog()
+  let rawText = ''
 
   try {
-    const response = await fetch(LYZR_API_URL, {
+    // Retries only cover getting a response - once tokens flow the stream is not restarted
+    const response = await fetchWithRetry(getStreamUrl(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
         'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify(payload),
-    })
+      signal: request.signal,
+    }, options?.retry, retryLog)
 
-    const rawText = await response.text()
+    if (!response.ok || !response.body) {
+      rawText = await response.text()
+      return withRetryLog(buildAgentResponse(response, rawText, { agent_id, user_id, session_id }), retryLog)
+    }
 
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
-
-      // Check for parser error
-      if (parsed?.success === false && parsed?.error) {
-        return {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: parsed.error
-          },
-          error: parsed.error,
-          raw_response: rawText,
-        }
-      }
+    // SSE bodies carry tokens in data: lines, anything else is raw chunked text
+    const isSSE = (response.headers.get('content-type') || '').includes('text/event-stream')
+    const sseDecoder = createSSEDecoder()
+    const textDecoder = new TextDecoder()
+    const reader = response.body.getReader()
 
-      // Normalize to guaranteed structure
-      const normalized = normalizeResponse(parsed)
+    let lastAnswer = ''
 
-      return {
-        success: true,
-        response: normalized,
-        agent_id,
-        user_id,
-        session_id,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
+    const handleToken = (token: string) => {
+      if (!token) return
+      rawText += token
+      options?.onToken?.(token)
+
+      const answer = extractPartialAnswer(rawText, field)
+      if (answer && answer !== lastAnswer) {
+        lastAnswer = answer
+        options?.onAnswer?.(answer)
       }
-    } else {
-      // API error
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-        errorMsg = errorData?.error || errorData?.message || errorMsg
-      } catch {}
+    }
 
-      return {
-        success: false,
-        response: {
-          status: 'error',
-          result: {},
-          message: errorMsg
-        },
-        error: errorMsg,
-        raw_response: rawText,
+    const handleChunk = (chunk: string) => {
+      if (!isSSE) {
+        handleToken(chunk)
+        return
       }
+      sseDecoder.push(chunk).forEach(event => handleToken(getStreamToken(event)))
     }
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Network error'
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: errorMsg
-      },
-      error: errorMsg,
-      details: error instanceof Error ? error.stack : String(error),
+
+    let chunk = await reader.read()
+    while (!chunk.done) {
+      handleChunk(textDecoder.decode(chunk.value, { stream: true }))
+      chunk = await reader.read()
     }
+
+    handleChunk(textDecoder.decode())
+    if (isSSE) {
+      sseDecoder.flush().forEach(event => handleToken(getStreamToken(event)))
+    }
+
+    return withRetryLog(buildAgentResponse(response, rawText, { agent_id, user_id, session_id }), retryLog)
+  } catch (error) {
+    return withRetryLog(networkErrorResponse(error, request.abortReason(), rawText || undefined), retryLog)
+  } finally {
+    request.cleanup()
   }
 }
 
@@ -352,7 +659,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: AgentCallOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -362,7 +669,7 @@ export function useAIAgent() {
 
     if (result.success) {
       setResponse(result.response)
-    } else {
+    } else if (!result.aborted) {
       setError(result.error || 'Unknown error')
       setResponse(result.response) // Still set response for error details
     }
@@ -439,7 +746,7 @@ export async function generateDocs(code: string, agent_id: string): Promise<stri
 // File Upload API
 // =============================================================================
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
+const getUploadUrl = () => `${getAppConfig().api.agentBaseUrl}/assets/upload`
 
 /**
  * Upload result for a single file
@@ -536,7 +843,7 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
       formData.append('files', file, file.name)
     }
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
+    const response = await fetch(getUploadUrl(), {
       method: 'POST',
       headers: {
         'x-api-key': LYZR_API_KEY,
@@ -0,0 +1,280 @@
+/**
+ * Runtime Configuration
+ *
+ * One typed config for API base URLs, agent/RAG IDs, chat copy, limits and
+ * feature toggles, so a single build can serve several tenants and
+ * environments. Sources are layered, later ones winning:
+ *
+ * 1. Built-in defaults (the IDs from workflow.json)
+ * 2. Env - `VITE_AGENT_ID`, `VITE_RAG_ID`, `VITE_LYZR_AGENT_API_URL`, `VITE_LYZR_RAG_API_URL`,
+ *    `VITE_CRAWL_PROXY_URL`
+ * 3. A JSON file served beside the app - `config.json`, or `VITE_CONFIG_URL`
+ * 4. URL / embed parameters - `agentId`, `ragId`, `title`, `greeting`, `quickReplies`
+ *
+ * Every source is validated with zod; an invalid source is skipped with a
+ * warning rather than taking the app down. The API key stays env-only.
+ *
+ * @example
+ * ```json
+ * // public/config.json
+ * {
+ *   "agentId": "tenant-agent-id",
+ *   "ragId": "tenant-rag-id",
+ *   "greeting": "Welcome to Acme support!",
+ *   "limits": { "handoffConfidenceThreshold": 0.6 },
+ *   "features": { "handoff": false }
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Outside React - always the active config
+ * fetch(`${getAppConfig().api.ragBaseUrl}/rag/documents/${ragId}/`)
+ *
+ * // Inside React - see AppConfigProvider
+ * const { agentId, features } = useAppConfig()
+ * ```
+ */
+
+import { z } from 'zod'
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const urlSchema = z.url({ protocol: /^https?$/ }).transform(url => url.replace(/\/+$/, ''))
+
+export const appConfigSchema = z.object({
+  api: z.object({
+    /** Lyzr agent API, e.g. https://agent-prod.studio.lyzr.ai/v3 */
+    agentBaseUrl: urlSchema,
+    /** Lyzr RAG API, e.g. https://rag-prod.studio.lyzr.ai/v3 */
+    ragBaseUrl: urlSchema,
+    /**
+     * CORS proxy for the website crawler - the page URL is appended
+     * URL-encoded, e.g. https://proxy.example.com/fetch?url=
+     */
+    crawlProxyUrl: z.url({ protocol: /^https?$/ }).optional(),
+  }),
+  agentId: z.string().trim().min(1),
+  ragId: z.string().trim().min(1),
+  title: z.string().trim().min(1),
+  /** First agent message in a new conversation */
+  greeting: z.string().trim().min(1),
+  /** Chips offered before the customer has asked anything */
+  quickReplies: z.array(z.string().trim().min(1)).max(8),
+  limits: z.object({
+    /** Longest message a customer can send */
+    maxMessageLength: z.number().int().min(1),
+    /** Abort an agent reply after this many milliseconds (0 = never) */
+    requestTimeoutMs: z.number().int().min(0),
+    /** Answers below this confidence (0..1) offer a handoff to a human */
+    handoffConfidenceThreshold: z.number().min(0).max(1),
+    /** Answers below this confidence (0..1) are logged as knowledge gaps */
+    gapConfidenceThreshold: z.number().min(0).max(1),
+  }),
+  features: z.object({
+    handoff: z.boolean(),
+    feedback: z.boolean(),
+    messageSearch: z.boolean(),
+    suggestedFollowups: z.boolean(),
+    /** Export / import of conversations */
+    conversationTransfer: z.boolean(),
+    /** Route questions between the agents in workflow.json; off = always `agentId` */
+    routing: z.boolean(),
+    /** Log unanswered questions for the knowledge gap report */
+    knowledgeGaps: z.boolean(),
+    /** Links from the chat into the admin pages - only for internal deployments, the admin can delete documents */
+    adminLinks: z.boolean(),
+  }),
+})
+
+export type AppConfig = z.infer<typeof appConfigSchema>
+
+/** What a single source may set - any subset, nested groups included */
+const appConfigOverrideSchema = appConfigSchema
+  .extend({
+    api: appConfigSchema.shape.api.partial(),
+    limits: appConfigSchema.shape.limits.partial(),
+    features: appConfigSchema.shape.features.partial(),
+  })
+  .partial()
+
+export type AppConfigOverride = z.input<typeof appConfigOverrideSchema>
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  api: {
+    agentBaseUrl: 'https://agent-prod.studio.lyzr.ai/v3',
+    ragBaseUrl: 'https://rag-prod.studio.lyzr.ai/v3',
+  },
+  // Agent and knowledge base IDs from workflow.json
+  agentId: '696608c9c831c63e265e1355',
+  ragId: '696608baee18986913061ae0',
+  title: 'Support Chat',
+  greeting: "Hi! I'm here to help. Ask me anything about our products and services.",
+  quickReplies: ['Pricing', 'How to get started', 'Return policy', 'Contact sales'],
+  limits: {
+    maxMessageLength: 500,
+    requestTimeoutMs: 0,
+    handoffConfidenceThreshold: 0.5,
+    gapConfidenceThreshold: 0.5,
+  },
+  features: {
+    handoff: true,
+    feedback: true,
+    messageSearch: true,
+    suggestedFollowups: true,
+    conversationTransfer: true,
+    routing: true,
+    knowledgeGaps: true,
+    adminLinks: false,
+  },
+}
+
+const DEFAULT_CONFIG_URL = `${import.meta.env.BASE_URL ?? '/'}config.json`
+
+// Parameters a link or embed may set. API URLs are deliberately not among
+// them: requests carry the API key, so a crafted link must not redirect them.
+const PARAM_KEYS = ['agentId', 'ragId', 'title', 'greeting', 'quickReplies'] as const
+
+// =============================================================================
+// Sources
+// =============================================================================
+
+export interface AppConfigSourceResult {
+  success: boolean
+  override?: AppConfigOverride
+  error?: string
+}
+
+function validateOverride(source: string, value: unknown): AppConfigSourceResult {
+  const result = appConfigOverrideSchema.safeParse(value)
+  if (!result.success) {
+    return { success: false, error: `Invalid config from ${source}: ${z.prettifyError(result.error)}` }
+  }
+  return { success: true, override: result.data }
+}
+
+/**
+ * Config from `VITE_*` env vars
+ */
+export function readEnvConfig(env: ImportMetaEnv = import.meta.env): AppConfigSourceResult {
+  return validateOverride('env', {
+    agentId: env.VITE_AGENT_ID || undefined,
+    ragId: env.VITE_RAG_ID || undefined,
+    api: {
+      agentBaseUrl: env.VITE_LYZR_AGENT_API_URL || undefined,
+      ragBaseUrl: env.VITE_LYZR_RAG_API_URL || undefined,
+      crawlProxyUrl: env.VITE_CRAWL_PROXY_URL || undefined,
+    },
+  })
+}
+
+/**
+ * Config from URL search params or embed attributes.
+ * `quickReplies` is a `|`-separated list.
+ *
+ * @param getParam - e.g. `key => searchParams.get(key)`
+ */
+export function readParamConfig(getParam: (key: string) => string | null | undefined): AppConfigSourceResult {
+  const values: Record<string, unknown> = {}
+  PARAM_KEYS.forEach(key => {
+    const value = getParam(key)
+    if (value == null || value === '') return
+    values[key] = key === 'quickReplies' ? value.split('|').filter(reply => reply.trim()) : value
+  })
+  return validateOverride('URL parameters', values)
+}
+
+/**
+ * Config from a JSON file. A missing file is not an error - most
+ * deployments won't have one.
+ */
+export async function fetchConfigFile(url: string = import.meta.env.VITE_CONFIG_URL || DEFAULT_CONFIG_URL): Promise<AppConfigSourceResult> {
+  try {
+    const response = await fetch(url, { cache: 'no-cache' })
+    // SPA hosts answer unknown paths with index.html
+    const isJson = response.headers.get('content-type')?.includes('json')
+    if (response.status === 404 || (response.ok && !isJson)) {
+      return { success: true, override: {} }
+    }
+    if (!response.ok) {
+      return { success: false, error: `Failed to load ${url}: HTTP ${response.status}` }
+    }
+    return validateOverride(url, await response.json())
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to load ${url}: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Layer overrides onto a base config, later overrides winning
+ */
+export function mergeAppConfig(base: AppConfig, ...overrides: (AppConfigOverride | undefined)[]): AppConfig {
+  return overrides.reduce<AppConfig>((config, override) => {
+    if (!override) return config
+    const defined = <T extends object>(value: T | undefined) =>
+      Object.fromEntries(Object.entries(value || {}).filter(([, v]) => v !== undefined)) as Partial<T>
+    const { api, limits, features, ...rest } = override
+    return {
+      ...config,
+      ...(defined(rest) as Partial<AppConfig>),
+      api: { ...config.api, ...(defined(api) as Partial<AppConfig['api']>) },
+      limits: { ...config.limits, ...defined(limits) },
+      features: { ...config.features, ...defined(features) },
+    }
+  }, base)
+}
+
+export interface LoadAppConfigResult {
+  config: AppConfig
+  /** Sources that were skipped because they failed to load or validate */
+  warnings: string[]
+}
+
+/**
+ * Resolve the config from every source. Always returns a usable config.
+ */
+export async function loadAppConfig(options?: {
+  configUrl?: string
+  params?: (key: string) => string | null | undefined
+}): Promise<LoadAppConfigResult> {
+  const searchParams = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null
+  const sources = [
+    readEnvConfig(),
+    await fetchConfigFile(options?.configUrl),
+    readParamConfig(options?.params || (key => searchParams?.get(key))),
+  ]
+
+  return {
+    config: mergeAppConfig(DEFAULT_APP_CONFIG, ...sources.map(source => source.override)),
+    warnings: sources.filter(source => !source.success).map(source => source.error!),
+  }
+}
+
+// =============================================================================
+// Active Config
+// =============================================================================
+
+// Until loadAppConfig finishes, env over defaults
+let activeConfig: AppConfig = mergeAppConfig(DEFAULT_APP_CONFIG, readEnvConfig().override)
+
+/**
+ * The active config, for code outside React (API utilities, the widget)
+ */
+export const getAppConfig = (): AppConfig => activeConfig
+
+export const setAppConfig = (config: AppConfig) => {
+  activeConfig = config
+}
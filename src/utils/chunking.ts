@@ -0,0 +1,109 @@
+/**
+ * Text Chunking
+ *
+ * Splits extracted text into overlapping chunks for training a knowledge
+ * base, the way the parse API chunks PDFs. Chunks end on paragraph, then
+ * sentence, then word boundaries where possible.
+ *
+ * @example
+ * ```tsx
+ * import { chunkText } from '@/utils/chunking'
+ *
+ * const chunks = chunkText(pageText, { chunkSize: 1000, chunkOverlap: 100 })
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Same defaults uploadAndTrainDocument sends the parse API for PDFs */
+export const DEFAULT_CHUNK_SIZE = 1000
+export const DEFAULT_CHUNK_OVERLAP = 100
+
+export interface ChunkOptions {
+  /** Longest chunk, in characters */
+  chunkSize?: number
+  /** Characters repeated from the end of one chunk at the start of the next */
+  chunkOverlap?: number
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Split a block that is too long on its own: sentences first, then words, then hard cuts
+function splitLongBlock(block: string, chunkSize: number): string[] {
+  const pieces = block.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) || [block]
+  const parts: string[] = []
+  let current = ''
+
+  const push = (piece: string) => {
+    if ((current + piece).length <= chunkSize) {
+      current += piece
+      return
+    }
+    if (current.trim()) parts.push(current.trim())
+    current = piece
+  }
+
+  pieces.forEach(sentence => {
+    if (sentence.length <= chunkSize) {
+      push(sentence)
+      return
+    }
+    sentence.split(/(?<=\s)/).forEach(word => {
+      if (word.length <= chunkSize) {
+        push(word)
+        return
+      }
+      for (let i = 0; i < word.length; i += chunkSize) push(word.slice(i, i + chunkSize))
+    })
+  })
+
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+// The last `overlap` characters of a chunk, starting on a word boundary
+function overlapTail(chunk: string, overlap: number): string {
+  if (overlap <= 0 || chunk.length <= overlap) return overlap > 0 ? chunk : ''
+  const tail = chunk.slice(-overlap)
+  const wordStart = tail.search(/\s\S/)
+  return wordStart >= 0 ? tail.slice(wordStart + 1) : tail
+}
+
+// =============================================================================
+// Main API Functions
+// =============================================================================
+
+/**
+ * Split text into chunks of at most `chunkSize` characters (plus overlap)
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = Math.max(100, options.chunkSize ?? DEFAULT_CHUNK_SIZE)
+  const chunkOverlap = Math.min(Math.max(0, options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP), Math.floor(chunkSize / 2))
+
+  const blocks = text
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .flatMap(block => (block.length > chunkSize ? splitLongBlock(block, chunkSize) : [block]))
+
+  const chunks: string[] = []
+  let current = ''
+
+  blocks.forEach(block => {
+    const candidate = current ? `${current}\n\n${block}` : block
+    if (candidate.length <= chunkSize || !current) {
+      current = candidate
+      return
+    }
+    chunks.push(current)
+    const tail = overlapTail(current, chunkOverlap)
+    current = tail ? `${tail}\n\n${block}` : block
+  })
+
+  if (current) chunks.push(current)
+  return chunks
+}
@@ -0,0 +1,361 @@
+/**
+ * Conversation Export / Import Utility
+ *
+ * Exports conversations as versioned JSON (full fidelity), Markdown or a
+ * plain-text transcript, and imports the JSON format back with validation.
+ *
+ * @example
+ * ```tsx
+ * import { exportConversations, parseConversationExport, mergeConversations } from '@/utils/conversationExport'
+ *
+ * const file = exportConversations([conversation], 'markdown')
+ * downloadFile(file.fileName, file.content, file.mimeType)
+ *
+ * const result = parseConversationExport(await file.text(), AGENT_ID)
+ * if (result.success) {
+ *   const { conversations } = mergeConversations(existing, result.conversations)
+ * }
+ * ```
+ */
+
+import { z } from 'zod'
+import type { Conversation, Message } from '@/types'
+import { createSessionId, getBrowserUserId } from '@/utils/aiAgent'
+import { normalizeSources } from '@/utils/sources'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ConversationExportFormat = 'json' | 'markdown' | 'text'
+
+export interface ConversationExportFile {
+  fileName: string
+  content: string
+  mimeType: string
+}
+
+export interface ConversationImportResult {
+  success: boolean
+  conversations?: Conversation[]
+  error?: string
+  details?: string
+}
+
+export interface ConversationMergeResult {
+  conversations: Conversation[]
+  /** Conversations that did not exist before */
+  added: number
+  /** Existing conversations that gained messages */
+  updated: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const CONVERSATION_EXPORT_FORMAT = 'support-conversations'
+export const CONVERSATION_EXPORT_VERSION = 1
+
+/**
+ * Formats offered in the export menus
+ */
+export const CONVERSATION_EXPORT_FORMATS: { value: ConversationExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON (re-importable)' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'text', label: 'Plain text' },
+]
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const dateSchema = z
+  .union([z.string(), z.number(), z.date()])
+  .refine(value => !isNaN(new Date(value).getTime()), 'Invalid date')
+
+// Loose objects keep fields this version doesn't know about
+const messageSchema = z.looseObject({
+  id: z.string().min(1),
+  role: z.enum(['agent', 'user']),
+  content: z.string(),
+  timestamp: dateSchema,
+  confidence: z.number().optional(),
+  status: z.enum(['success', 'error']).optional(),
+  sources: z.array(z.any()).optional(),
+  suggested_followup: z.array(z.string()).optional(),
+  feedback: z
+    .looseObject({
+      rating: z.enum(['up', 'down']),
+      reason: z.string().optional(),
+      comment: z.string().optional(),
+      createdAt: dateSchema,
+    })
+    .optional(),
+})
+
+const conversationSchema = z.looseObject({
+  id: z.string().min(1),
+  title: z.string(),
+  preview: z.string().optional(),
+  timestamp: dateSchema,
+  messages: z.array(messageSchema),
+  sessionId: z.string().optional(),
+  userId: z.string().optional(),
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  handoff: z
+    .looseObject({
+      ticketId: z.string(),
+      url: z.string().optional(),
+      email: z.string(),
+      createdAt: dateSchema,
+    })
+    .optional(),
+})
+
+const exportSchema = z.object({
+  format: z.literal(CONVERSATION_EXPORT_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string().optional(),
+  conversations: z.array(conversationSchema),
+})
+
+// =============================================================================
+// Rehydration
+// =============================================================================
+
+/**
+ * Turn a serialized conversation (localStorage or an import file) back into a
+ * Conversation: Date fields are revived, sources normalized and conversations
+ * saved before session tracking get a session.
+ */
+export function reviveConversation(conv: any, agentId: string): Conversation {
+  return {
+    ...conv,
+    preview: conv.preview ?? '',
+    sessionId: conv.sessionId || createSessionId(agentId),
+    userId: conv.userId || getBrowserUserId(),
+    timestamp: new Date(conv.timestamp),
+    handoff: conv.handoff ? { ...conv.handoff, createdAt: new Date(conv.handoff.createdAt) } : undefined,
+    messages: conv.messages.map((msg: any) => ({
+      ...msg,
+      timestamp: new Date(msg.timestamp),
+      // Older messages stored raw agent sources
+      sources: msg.sources ? normalizeSources(msg.sources) : undefined,
+      feedback: msg.feedback ? { ...msg.feedback, createdAt: new Date(msg.feedback.createdAt) } : undefined,
+    })),
+  }
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  })
+
+const roleLabel = (message: Message) => (message.role === 'agent' ? 'Support Agent' : 'Customer')
+
+/**
+ * Versioned JSON export - everything needed to import the conversations again
+ */
+export function conversationsToJSON(conversations: Conversation[]): string {
+  return JSON.stringify(
+    {
+      format: CONVERSATION_EXPORT_FORMAT,
+      version: CONVERSATION_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversations,
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * Markdown transcript of a single conversation
+ */
+export function conversationToMarkdown(conversation: Conversation): string {
+  const lines: string[] = [`# ${conversation.title}`, '', `_${formatDateTime(conversation.timestamp)} · ${conversation.messages.length} messages_`]
+
+  if (conversation.handoff) {
+    lines.push('', `> Handed off to support as ticket **${conversation.handoff.ticketId}**`)
+  }
+
+  conversation.messages.forEach(message => {
+    lines.push('', `### ${roleLabel(message)} — ${formatDateTime(message.timestamp)}`, '', message.content)
+
+    if (message.confidence !== undefined) {
+      lines.push('', `_Confidence: ${Math.round(message.confidence * 100)}%_`)
+    }
+    if (message.sources && message.sources.length > 0) {
+      lines.push('', '**Sources**', '')
+      message.sources.forEach(source => {
+        lines.push(`${source.index}. ${source.url ? `[${source.title}](${source.url})` : source.title}`)
+      })
+    }
+    if (message.suggested_followup && message.suggested_followup.length > 0) {
+      lines.push('', '**Suggested follow-ups**', '')
+      message.suggested_followup.forEach(followup => lines.push(`- ${followup}`))
+    }
+    if (message.feedback) {
+      lines.push('', `_Rated ${message.feedback.rating === 'up' ? 'helpful' : 'not helpful'}${message.feedback.comment ? `: ${message.feedback.comment}` : ''}_`)
+    }
+  })
+
+  return lines.join('\n')
+}
+
+/**
+ * Plain-text transcript of a single conversation
+ */
+export function conversationToText(conversation: Conversation): string {
+  const lines: string[] = [conversation.title, '='.repeat(Math.min(conversation.title.length, 80)), formatDateTime(conversation.timestamp)]
+
+  if (conversation.handoff) {
+    lines.push(`Support ticket: ${conversation.handoff.ticketId}`)
+  }
+
+  conversation.messages.forEach(message => {
+    lines.push('', `[${formatDateTime(message.timestamp)}] ${roleLabel(message)}:`, message.content)
+
+    if (message.confidence !== undefined) {
+      lines.push(`  Confidence: ${Math.round(message.confidence * 100)}%`)
+    }
+    message.sources?.forEach(source => {
+      lines.push(`  [${source.index}] ${source.title}${source.url ? ` - ${source.url}` : ''}`)
+    })
+  })
+
+  return lines.join('\n')
+}
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'conversation'
+
+/**
+ * Build the downloadable file for one or more conversations
+ */
+export function exportConversations(
+  conversations: Conversation[],
+  format: ConversationExportFormat
+): ConversationExportFile {
+  const date = new Date().toISOString().slice(0, 10)
+  const baseName = conversations.length === 1
+    ? `support-conversation-${slugify(conversations[0].title)}-${date}`
+    : `support-conversations-${date}`
+
+  switch (format) {
+    case 'json':
+      return { fileName: `${baseName}.json`, content: conversationsToJSON(conversations), mimeType: 'application/json' }
+    case 'markdown':
+      return {
+        fileName: `${baseName}.md`,
+        content: conversations.map(conversationToMarkdown).join('\n\n---\n\n'),
+        mimeType: 'text/markdown',
+      }
+    case 'text':
+      return {
+        fileName: `${baseName}.txt`,
+        content: conversations.map(conversationToText).join('\n\n\n'),
+        mimeType: 'text/plain',
+      }
+  }
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Validate and rehydrate a JSON export. Never throws.
+ */
+export function parseConversationExport(text: string, agentId: string): ConversationImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return {
+      success: false,
+      error: 'File is not valid JSON',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+
+  const parsed = exportSchema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return {
+      success: false,
+      error: 'File is not a conversation export',
+      details: issue ? `${issue.path.join('.') || 'root'}: ${issue.message}` : undefined,
+    }
+  }
+
+  if (parsed.data.version > CONVERSATION_EXPORT_VERSION) {
+    return {
+      success: false,
+      error: `Export version ${parsed.data.version} is newer than this app supports (${CONVERSATION_EXPORT_VERSION})`,
+    }
+  }
+
+  return {
+    success: true,
+    conversations: parsed.data.conversations.map(conv => reviveConversation(conv, agentId)),
+  }
+}
+
+/**
+ * Merge imported conversations into the current list, deduplicating by
+ * conversation ID and, within a conversation, by message ID. Existing
+ * messages win over imported copies.
+ */
+export function mergeConversations(existing: Conversation[], imported: Conversation[]): ConversationMergeResult {
+  const byId = new Map(existing.map(conv => [conv.id, conv]))
+  const added: Conversation[] = []
+  let updated = 0
+
+  imported.forEach(incoming => {
+    const current = byId.get(incoming.id)
+    if (!current) {
+      byId.set(incoming.id, incoming)
+      added.push(incoming)
+      return
+    }
+
+    const knownIds = new Set(current.messages.map(msg => msg.id))
+    const newMessages = incoming.messages.filter(msg => !knownIds.has(msg.id))
+    if (newMessages.length === 0) return
+
+    const messages = [...current.messages, ...newMessages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    const latest = messages[messages.length - 1]
+    byId.set(current.id, {
+      ...current,
+      messages,
+      preview: latest.content.slice(0, 60) + (latest.content.length > 60 ? '...' : ''),
+      timestamp: new Date(Math.max(current.timestamp.getTime(), incoming.timestamp.getTime())),
+      handoff: current.handoff || incoming.handoff,
+    })
+    updated++
+  })
+
+  // Keep the current order; new conversations go on top, newest first
+  const newest = [...added].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+  return {
+    conversations: [...newest, ...existing.map(conv => byId.get(conv.id)!)],
+    added: added.length,
+    updated,
+  }
+}
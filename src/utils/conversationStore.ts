@@ -0,0 +1,457 @@
+/**
+ * Conversation Store
+ *
+ * Persists support conversations one record per conversation, with messages
+ * written individually so a new reply doesn't rewrite the whole history.
+ * IndexedDB is used when available, with localStorage and in-memory fallbacks.
+ *
+ * @example
+ * ```tsx
+ * import { getConversationStore, migrateLegacyConversations, syncConversationStore } from '@/utils/conversationStore'
+ *
+ * const store = getConversationStore()
+ * await migrateLegacyConversations(store, AGENT_ID)
+ * const conversations = await store.loadConversations()
+ *
+ * // After a state change, write only what changed
+ * await syncConversationStore(store, previousConversations, conversations)
+ * ```
+ */
+
+import type { Conversation, Message } from '@/types'
+import { reviveConversation } from '@/utils/conversationExport'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Storage backend for conversations. All methods reject on failure
+ * (quota exceeded, storage disabled, ...) so callers can surface it.
+ */
+export interface ConversationStore {
+  /** All conversations with their messages, most recently active first */
+  loadConversations: () => Promise<Conversation[]>
+  /** Write a conversation and replace all of its stored messages */
+  saveConversation: (conversation: Conversation) => Promise<void>
+  /** Write conversation fields (title, preview, ...) without touching messages */
+  saveConversationMeta: (conversation: Conversation) => Promise<void>
+  /** Add a message, or replace the stored copy with the same ID */
+  appendMessage: (conversationId: string, message: Message) => Promise<void>
+  deleteConversation: (conversationId: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+type ConversationMeta = Omit<Conversation, 'messages'>
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Single key the app used to store every conversation before the store existed */
+export const LEGACY_CONVERSATIONS_KEY = 'support-conversations'
+
+const DB_NAME = 'support-bot'
+const DB_VERSION = 1
+const CONVERSATIONS_STORE = 'conversations'
+const MESSAGES_STORE = 'messages'
+
+const LOCAL_STORAGE_PREFIX = 'support-conversation:'
+const LOCAL_STORAGE_INDEX_KEY = 'support-conversation-ids'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const toMeta = ({ messages, ...meta }: Conversation): ConversationMeta => meta
+
+const byMostRecent = (a: Conversation, b: Conversation) => b.timestamp.getTime() - a.timestamp.getTime()
+
+const byTimestamp = (a: Message, b: Message) => a.timestamp.getTime() - b.timestamp.getTime()
+
+const upsertMessage = (messages: Message[], message: Message): Message[] =>
+  messages.some(msg => msg.id === message.id)
+    ? messages.map(msg => (msg.id === message.id ? message : msg))
+    : [...messages, message]
+
+// JSON reviver for the Date fields on conversations, messages, feedback and handoffs
+const DATE_KEYS = ['timestamp', 'createdAt']
+export const reviveDates = (key: string, value: any) =>
+  DATE_KEYS.includes(key) && typeof value === 'string' ? new Date(value) : value
+
+// =============================================================================
+// IndexedDB
+// =============================================================================
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'))
+  })
+
+const openConversationDB = (dbName: string) => {
+  const request = indexedDB.open(dbName, DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+      db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' })
+    }
+    if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+      db.createObjectStore(MESSAGES_STORE, { keyPath: ['conversationId', 'id'] })
+    }
+  }
+  return requestToPromise(request)
+}
+
+// Every message key of a conversation: arrays sort after strings, so [id, []] is an upper bound
+const messageRange = (conversationId: string) => IDBKeyRange.bound([conversationId], [conversationId, []])
+
+/**
+ * IndexedDB store: conversation metadata and messages live in separate object
+ * stores, messages keyed by [conversationId, messageId].
+ */
+export function createIndexedDBConversationStore(dbName = DB_NAME): ConversationStore {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDB = () => {
+    if (!dbPromise) {
+      dbPromise = openConversationDB(dbName).catch(error => {
+        // Let the next call try again
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  const write = async (run: (conversations: IDBObjectStore, messages: IDBObjectStore) => void) => {
+    const db = await openDB()
+    const tx = db.transaction([CONVERSATIONS_STORE, MESSAGES_STORE], 'readwrite')
+    run(tx.objectStore(CONVERSATIONS_STORE), tx.objectStore(MESSAGES_STORE))
+    await transactionDone(tx)
+  }
+
+  return {
+    loadConversations: async () => {
+      const db = await openDB()
+      const tx = db.transaction([CONVERSATIONS_STORE, MESSAGES_STORE], 'readonly')
+      const [metas, records] = await Promise.all([
+        requestToPromise<ConversationMeta[]>(tx.objectStore(CONVERSATIONS_STORE).getAll()),
+        requestToPromise<(Message & { conversationId: string })[]>(tx.objectStore(MESSAGES_STORE).getAll()),
+      ])
+
+      const messagesByConversation = new Map<string, Message[]>()
+      records.forEach(({ conversationId, ...message }) => {
+        const list = messagesByConversation.get(conversationId) || []
+        list.push(message)
+        messagesByConversation.set(conversationId, list)
+      })
+
+      return metas
+        .map(meta => ({ ...meta, messages: (messagesByConversation.get(meta.id) || []).sort(byTimestamp) }))
+        .sort(byMostRecent)
+    },
+
+    saveConversation: conversation =>
+      write((conversations, messages) => {
+        conversations.put(toMeta(conversation))
+        messages.delete(messageRange(conversation.id))
+        conversation.messages.forEach(message => messages.put({ ...message, conversationId: conversation.id }))
+      }),
+
+    saveConversationMeta: conversation =>
+      write(conversations => {
+        conversations.put(toMeta(conversation))
+      }),
+
+    appendMessage: (conversationId, message) =>
+      write((_, messages) => {
+        messages.put({ ...message, conversationId })
+      }),
+
+    deleteConversation: conversationId =>
+      write((conversations, messages) => {
+        conversations.delete(conversationId)
+        messages.delete(messageRange(conversationId))
+      }),
+
+    clear: () =>
+      write((conversations, messages) => {
+        conversations.clear()
+        messages.clear()
+      }),
+  }
+}
+
+// =============================================================================
+// localStorage
+// =============================================================================
+
+/**
+ * localStorage store: one key per conversation plus an index of IDs.
+ * Appending a message rewrites only that conversation's key.
+ */
+export function createLocalStorageConversationStore(storage: Storage = localStorage): ConversationStore {
+  const keyFor = (conversationId: string) => `${LOCAL_STORAGE_PREFIX}${conversationId}`
+
+  const readIndex = (): string[] => JSON.parse(storage.getItem(LOCAL_STORAGE_INDEX_KEY) || '[]')
+
+  const writeIndex = (ids: string[]) => storage.setItem(LOCAL_STORAGE_INDEX_KEY, JSON.stringify(ids))
+
+  const read = (conversationId: string): Conversation | null => {
+    const stored = storage.getItem(keyFor(conversationId))
+    return stored ? JSON.parse(stored, reviveDates) : null
+  }
+
+  const write = (conversation: Conversation) => {
+    storage.setItem(keyFor(conversation.id), JSON.stringify(conversation))
+    const ids = readIndex()
+    if (!ids.includes(conversation.id)) {
+      writeIndex([...ids, conversation.id])
+    }
+  }
+
+  return {
+    loadConversations: async () =>
+      readIndex()
+        .map(read)
+        .filter((conversation): conversation is Conversation => conversation !== null)
+        .sort(byMostRecent),
+
+    saveConversation: async conversation => write(conversation),
+
+    saveConversationMeta: async conversation => {
+      write({ ...conversation, messages: read(conversation.id)?.messages || [] })
+    },
+
+    appendMessage: async (conversationId, message) => {
+      const conversation = read(conversationId)
+      if (!conversation) {
+        throw new Error(`Conversation ${conversationId} not found`)
+      }
+      write({ ...conversation, messages: upsertMessage(conversation.messages, message) })
+    },
+
+    deleteConversation: async conversationId => {
+      storage.removeItem(keyFor(conversationId))
+      writeIndex(readIndex().filter(id => id !== conversationId))
+    },
+
+    clear: async () => {
+      readIndex().forEach(id => storage.removeItem(keyFor(id)))
+      storage.removeItem(LOCAL_STORAGE_INDEX_KEY)
+    },
+  }
+}
+
+// =============================================================================
+// In-memory
+// =============================================================================
+
+/**
+ * In-memory store - nothing survives a reload. Useful for tests and when
+ * browser storage is unavailable.
+ */
+export function createMemoryConversationStore(): ConversationStore {
+  const records = new Map<string, Conversation>()
+
+  return {
+    loadConversations: async () =>
+      [...records.values()].map(conversation => ({ ...conversation, messages: [...conversation.messages] })).sort(byMostRecent),
+
+    saveConversation: async conversation => {
+      records.set(conversation.id, { ...conversation, messages: [...conversation.messages] })
+    },
+
+    saveConversationMeta: async conversation => {
+      records.set(conversation.id, { ...conversation, messages: records.get(conversation.id)?.messages || [] })
+    },
+
+    appendMessage: async (conversationId, message) => {
+      const conversation = records.get(conversationId)
+      if (!conversation) {
+        throw new Error(`Conversation ${conversationId} not found`)
+      }
+      records.set(conversationId, { ...conversation, messages: upsertMessage(conversation.messages, message) })
+    },
+
+    deleteConversation: async conversationId => {
+      records.delete(conversationId)
+    },
+
+    clear: async () => {
+      records.clear()
+    },
+  }
+}
+
+// =============================================================================
+// Active store
+// =============================================================================
+
+let conversationStore: ConversationStore | null = null
+
+// localStorage can exist and still throw on every write (blocked storage, Safari private mode)
+const canUseLocalStorage = () => {
+  try {
+    const key = `${LOCAL_STORAGE_PREFIX}probe`
+    localStorage.setItem(key, '1')
+    localStorage.removeItem(key)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Store that settles on the first backend that actually opens: IndexedDB,
+ * then localStorage, then memory. IndexedDB can be present but refuse to open
+ * (Firefox private mode, blocked storage, quota), and would then reject every
+ * load and save for the rest of the session.
+ */
+function createFallbackConversationStore(): ConversationStore {
+  const fallback = () =>
+    typeof localStorage !== 'undefined' && canUseLocalStorage()
+      ? createLocalStorageConversationStore()
+      : createMemoryConversationStore()
+
+  const ready: Promise<ConversationStore> = typeof indexedDB === 'undefined'
+    ? Promise.resolve(fallback())
+    : Promise.resolve()
+      .then(() => openConversationDB(DB_NAME))
+      .then(
+        db => {
+          db.close()
+          return createIndexedDBConversationStore()
+        },
+        error => {
+          console.warn('IndexedDB is unavailable, storing conversations in a fallback store:', error)
+          return fallback()
+        }
+      )
+
+  return {
+    loadConversations: async () => (await ready).loadConversations(),
+    saveConversation: async conversation => (await ready).saveConversation(conversation),
+    saveConversationMeta: async conversation => (await ready).saveConversationMeta(conversation),
+    appendMessage: async (conversationId, message) => (await ready).appendMessage(conversationId, message),
+    deleteConversation: async conversationId => (await ready).deleteConversation(conversationId),
+    clear: async () => (await ready).clear(),
+  }
+}
+
+/**
+ * The store the app reads and writes - IndexedDB when the browser can open
+ * it, then localStorage, then memory
+ */
+export const getConversationStore = (): ConversationStore => {
+  if (!conversationStore) {
+    conversationStore = createFallbackConversationStore()
+  }
+  return conversationStore
+}
+
+/**
+ * Replace the store, e.g. with an in-memory one for an embedded demo
+ */
+export const setConversationStore = (store: ConversationStore) => {
+  conversationStore = store
+}
+
+// =============================================================================
+// Migration and sync
+// =============================================================================
+
+/**
+ * Move conversations from the legacy single `support-conversations` key into
+ * the store. The key is only removed once every conversation was written.
+ *
+ * @returns number of conversations migrated
+ */
+export async function migrateLegacyConversations(store: ConversationStore, agentId: string): Promise<number> {
+  if (typeof localStorage === 'undefined') return 0
+
+  const stored = localStorage.getItem(LEGACY_CONVERSATIONS_KEY)
+  if (!stored) return 0
+
+  let legacy: any[]
+  try {
+    legacy = JSON.parse(stored)
+  } catch (error) {
+    console.error('Failed to parse legacy conversations, leaving them in place:', error)
+    return 0
+  }
+
+  const conversations = Array.isArray(legacy) ? legacy.map(conv => reviveConversation(conv, agentId)) : []
+  for (const conversation of conversations) {
+    await store.saveConversation(conversation)
+  }
+
+  localStorage.removeItem(LEGACY_CONVERSATIONS_KEY)
+  return conversations.length
+}
+
+/**
+ * Conversations added or changed, and IDs removed, between two snapshots.
+ * Relies on immutable updates: unchanged conversations keep their object identity.
+ */
+export function diffConversationSnapshots(previous: Conversation[], next: Conversation[]) {
+  const previousById = new Map(previous.map(conversation => [conversation.id, conversation]))
+  const nextIds = new Set(next.map(conversation => conversation.id))
+
+  return {
+    changed: next.filter(conversation => previousById.get(conversation.id) !== conversation),
+    removedIds: previous.filter(conversation => !nextIds.has(conversation.id)).map(conversation => conversation.id),
+  }
+}
+
+/**
+ * Write the difference between two snapshots of the conversation list.
+ * Unchanged messages keep their object identity too, so only new or edited
+ * message records are written.
+ */
+export async function syncConversationStore(
+  store: ConversationStore,
+  previous: Conversation[],
+  next: Conversation[]
+): Promise<void> {
+  const previousById = new Map(previous.map(conversation => [conversation.id, conversation]))
+  const { changed, removedIds } = diffConversationSnapshots(previous, next)
+
+  for (const conversationId of removedIds) {
+    await store.deleteConversation(conversationId)
+  }
+
+  for (const conversation of changed) {
+    const before = previousById.get(conversation.id)
+
+    if (!before) {
+      await store.saveConversation(conversation)
+      continue
+    }
+
+    await store.saveConversationMeta(conversation)
+    if (before.messages === conversation.messages) continue
+
+    const currentIds = new Set(conversation.messages.map(message => message.id))
+    if (before.messages.some(message => !currentIds.has(message.id))) {
+      // Messages were removed - rewrite the conversation
+      await store.saveConversation(conversation)
+      continue
+    }
+
+    const beforeMessages = new Set(before.messages)
+    for (const message of conversation.messages) {
+      if (!beforeMessages.has(message)) {
+        await store.appendMessage(conversation.id, message)
+      }
+    }
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * Knowledge Base Document Converters
+ *
+ * Turns files the parse API doesn't understand into text chunks in the
+ * browser, ready for trainDocuments:
+ * - Markdown and HTML are split on headings, then chunked within each section
+ * - CSV and JSON FAQs become one chunk per question/answer pair
+ *
+ * Each chunk's metadata carries the file (`source`, as "storage/<name>" like
+ * parsed documents, so deleting it by name finds them), document `title` and
+ * heading path or FAQ category (`section`), plus a `url` for HTML pages that
+ * declare a canonical address - agent sources show these in citations.
+ *
+ * @example
+ * ```tsx
+ * import { convertDocument } from '@/utils/documentConverters'
+ *
+ * const result = convertDocument(await file.text(), file.name, 'md')
+ * if (result.success) {
+ *   result.chunks.forEach(chunk => console.log(chunk.metadata.section, chunk.text))
+ * }
+ * ```
+ */
+
+import { chunkText, type ChunkOptions } from '@/utils/chunking'
+import { extractPage } from '@/utils/htmlText'
+import { toStorageSource } from '@/utils/sources'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * File types converted in the browser rather than by the parse API
+ */
+export type ConvertibleFileType = 'md' | 'html' | 'csv' | 'json'
+
+export interface ConvertedChunk {
+  text: string
+  metadata: Record<string, unknown>
+}
+
+export interface ConversionResult {
+  success: boolean
+  chunks?: ConvertedChunk[]
+  /** Document title, from front matter, `<title>` or the first heading */
+  title?: string
+  error?: string
+}
+
+interface MarkdownSection {
+  /** Heading path, outermost first */
+  headings: string[]
+  /** The section's own heading line, e.g. "## Refunds" */
+  headingLine?: string
+  body: string
+}
+
+interface FaqPair {
+  question: string
+  answer: string
+  section?: string
+  url?: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const CONVERTIBLE_FILE_TYPES: ConvertibleFileType[] = ['md', 'html', 'csv', 'json']
+
+// Column / property names recognised in FAQ files, compared lowercase without punctuation
+const QUESTION_KEYS = ['question', 'questions', 'q', 'query', 'faq', 'prompt', 'title']
+const ANSWER_KEYS = ['answer', 'answers', 'a', 'response', 'reply', 'solution', 'body', 'content']
+const SECTION_KEYS = ['section', 'category', 'topic', 'group', 'subject']
+const URL_KEYS = ['url', 'link', 'href', 'sourceurl']
+// Names of FAQ groups in nested JSON, e.g. { "category": "Billing", "questions": [...] }
+const GROUP_NAME_KEYS = [...SECTION_KEYS, 'name', 'title', 'heading']
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+function titleFromFileName(fileName: string): string {
+  return fileName.split('/').pop().replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || fileName
+}
+
+function stripFrontMatter(markdown: string): { title?: string; content: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/)
+  if (!match) return { content: markdown }
+  const title = match[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1]
+  return { title, content: markdown.slice(match[0].length) }
+}
+
+// Split Markdown into sections at each heading, ignoring `#` lines in code fences
+function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = []
+  let headings: string[] = []
+  let current: MarkdownSection = { headings: [], body: '' }
+  let fence: string | null = null
+
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const fenceMarker = line.match(FENCE_PATTERN)?.[1]
+    if (fenceMarker && (!fence || fence === fenceMarker)) {
+      fence = fence ? null : fenceMarker
+    }
+
+    const heading = !fence && !fenceMarker ? line.match(HEADING_PATTERN) : null
+    if (!heading) {
+      current.body += `${line}\n`
+      return
+    }
+
+    sections.push(current)
+    const level = heading[1].length
+    headings = [...headings.slice(0, level - 1), heading[2]]
+    current = { headings, headingLine: line.trim(), body: '' }
+  })
+
+  sections.push(current)
+  return sections
+    .map(section => ({ ...section, body: section.body.trim() }))
+    .filter(section => section.body)
+}
+
+// Chunk each section, repeating its heading on continuation chunks for context
+function chunkSections(
+  sections: MarkdownSection[],
+  title: string,
+  baseMetadata: Record<string, unknown>,
+  options: ChunkOptions
+): ConvertedChunk[] {
+  const chunks: ConvertedChunk[] = []
+
+  sections.forEach(section => {
+    // The title heading adds nothing as a section name
+    const path = section.headings[0] === title ? section.headings.slice(1) : section.headings
+    const text = section.headingLine ? `${section.headingLine}\n\n${section.body}` : section.body
+
+    chunkText(text, options).forEach((chunk, index) => {
+      chunks.push({
+        text: index > 0 && section.headingLine ? `${section.headingLine}\n\n${chunk}` : chunk,
+        metadata: {
+          ...baseMetadata,
+          title,
+          ...(path.length > 0 && { section: path.join(' › ') }),
+        },
+      })
+    })
+  })
+
+  return chunks.map((chunk, index) => ({
+    ...chunk,
+    metadata: { ...chunk.metadata, chunk_index: index, chunk_count: chunks.length },
+  }))
+}
+
+function pickField(record: Record<string, unknown>, keys: string[]): string | undefined {
+  const byKey = new Map(Object.entries(record).map(([key, value]) => [normalizeKey(key), value]))
+  for (const key of keys) {
+    const value = byKey.get(key)
+    if (typeof value === 'string' && value.trim()) return value.trim()
+    if (typeof value === 'number') return String(value)
+    // Answers are sometimes stored as a list of paragraphs
+    if (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string')) {
+      return value.join('\n').trim() || undefined
+    }
+  }
+  return undefined
+}
+
+function faqPairsToChunks(pairs: FaqPair[], fileName: string): ConversionResult {
+  if (pairs.length === 0) {
+    return {
+      success: false,
+      error: 'No question/answer pairs found. Name the fields "question" and "answer".',
+    }
+  }
+
+  const title = titleFromFileName(fileName)
+  return {
+    success: true,
+    title,
+    chunks: pairs.map((pair, index) => ({
+      text: `Q: ${pair.question}\nA: ${pair.answer}`,
+      metadata: {
+        source: toStorageSource(fileName),
+        title: pair.question,
+        section: pair.section || title,
+        ...(pair.url && { url: pair.url }),
+        chunk_index: index,
+        chunk_count: pairs.length,
+      },
+    })),
+  }
+}
+
+/**
+ * Parse CSV into rows. Handles quoted fields with commas, quotes and line
+ * breaks, and detects `;` or tab delimiters from the first line.
+ */
+export function parseCsv(csv: string): string[][] {
+  const text = csv.replace(/^\uFEFF/, '')
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best)
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+// Walk parsed JSON for question/answer objects, naming sections after enclosing groups
+function collectFaqPairs(value: unknown, section: string | undefined, pairs: FaqPair[]) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectFaqPairs(item, section, pairs))
+    return
+  }
+  if (!value || typeof value !== 'object') return
+
+  const record = value as Record<string, unknown>
+  const question = pickField(record, QUESTION_KEYS)
+  const answer = pickField(record, ANSWER_KEYS)
+  if (question && answer) {
+    pairs.push({
+      question,
+      answer,
+      section: pickField(record, SECTION_KEYS) || section,
+      url: pickField(record, URL_KEYS),
+    })
+    return
+  }
+
+  const entries = Object.entries(record)
+  const knownKeys = [...QUESTION_KEYS, ...ANSWER_KEYS, ...GROUP_NAME_KEYS, ...URL_KEYS]
+  const isQuestionMap = entries.length > 0
+    && entries.every(([key, answerText]) => typeof answerText === 'string' && !knownKeys.includes(normalizeKey(key)))
+  // { "How do I reset my password?": "Use the link on the sign-in page." }
+  if (isQuestionMap) {
+    entries.forEach(([questionText, answerText]) => {
+      if (questionText.trim() && (answerText as string).trim()) {
+        pairs.push({ question: questionText.trim(), answer: (answerText as string).trim(), section })
+      }
+    })
+    return
+  }
+
+  const groupName = pickField(record, GROUP_NAME_KEYS) || section
+  entries.forEach(([, child]) => {
+    if (child && typeof child === 'object') collectFaqPairs(child, groupName, pairs)
+  })
+}
+
+// =============================================================================
+// Main API Functions
+// =============================================================================
+
+/**
+ * Markdown: one or more chunks per heading section, with the heading path as `section`
+ */
+export function convertMarkdown(markdown: string, fileName: string, options: ChunkOptions = {}): ConversionResult {
+  const { title: frontMatterTitle, content } = stripFrontMatter(markdown)
+  const sections = splitMarkdownSections(content)
+  const firstHeading = content.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1]
+  const title = frontMatterTitle || firstHeading || titleFromFileName(fileName)
+
+  const chunks = chunkSections(sections, title, { source: toStorageSource(fileName) }, options)
+  if (chunks.length === 0) {
+    return { success: false, error: 'The file has no text to train on' }
+  }
+  return { success: true, title, chunks }
+}
+
+/**
+ * HTML page (e.g. a help-center export): readable text split on its headings.
+ * A canonical URL in the page becomes the chunks' `url`, so citations link to it.
+ */
+export function convertHtml(html: string, fileName: string, options: ChunkOptions = {}): ConversionResult {
+  const page = extractPage(html)
+  const sections = splitMarkdownSections(page.text)
+  const title = page.title || sections.find(section => section.headings.length > 0)?.headings[0] || titleFromFileName(fileName)
+
+  const chunks = chunkSections(sections, title, {
+    source: toStorageSource(fileName),
+    ...(page.canonicalUrl && { url: page.canonicalUrl }),
+  }, options)
+  if (chunks.length === 0) {
+    return { success: false, error: 'The page has no readable text' }
+  }
+  return { success: true, title, chunks }
+}
+
+/**
+ * CSV FAQ: a header row naming question and answer columns, optionally
+ * category/section and url columns. One chunk per row.
+ */
+export function convertCsvFaq(csv: string, fileName: string): ConversionResult {
+  const [header, ...rows] = parseCsv(csv)
+  if (!header) {
+    return { success: false, error: 'The CSV file is empty' }
+  }
+
+  const pairs = rows
+    .map(cells => Object.fromEntries(header.map((column, index) => [column, cells[index] ?? ''])))
+    .map(record => ({
+      question: pickField(record, QUESTION_KEYS),
+      answer: pickField(record, ANSWER_KEYS),
+      section: pickField(record, SECTION_KEYS),
+      url: pickField(record, URL_KEYS),
+    }))
+    .filter(pair => pair.question && pair.answer)
+
+  return faqPairsToChunks(pairs, fileName)
+}
+
+/**
+ * JSON FAQ: an array of { question, answer } objects, groups of them
+ * ({ category, questions: [...] }), or a { "question": "answer" } map.
+ * One chunk per pair.
+ */
+export function convertJsonFaq(json: string, fileName: string): ConversionResult {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  const pairs: FaqPair[] = []
+  collectFaqPairs(data, undefined, pairs)
+  return faqPairsToChunks(pairs, fileName)
+}
+
+/**
+ * Convert file content by type
+ */
+export function convertDocument(
+  content: string,
+  fileName: string,
+  fileType: ConvertibleFileType,
+  options: ChunkOptions = {}
+): ConversionResult {
+  switch (fileType) {
+    case 'md':
+      return convertMarkdown(content, fileName, options)
+    case 'html':
+      return convertHtml(content, fileName, options)
+    case 'csv':
+      return convertCsvFaq(content, fileName)
+    case 'json':
+      return convertJsonFaq(content, fileName)
+    default:
+      return { success: false, error: `No converter for ${fileType} files` }
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Knowledge Base Document Metadata
+ *
+ * The RAG documents API only returns file names. This keeps what the app
+ * learns when it uploads a document - when, how large, how many chunks - in
+ * localStorage, keyed by RAG ID and file name, so document lists can show and
+ * filter on it. Documents uploaded elsewhere simply have no metadata.
+ *
+ * @example
+ * ```tsx
+ * import { recordDocumentMetadata, getDocumentMetadata } from '@/utils/documentMetadata'
+ *
+ * recordDocumentMetadata(ragId, 'returns.pdf', { uploadedAt: new Date().toISOString(), documentCount: 12 })
+ * getDocumentMetadata(ragId)['returns.pdf']?.documentCount // 12
+ * ```
+ */
+
+import type { RAGDocument } from '@/utils/ragKnowledgeBase'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DocumentMetadata = Pick<RAGDocument, 'uploadedAt' | 'fileSize' | 'documentCount'>
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_PREFIX = 'support-kb-documents:'
+
+// Used when localStorage is unavailable (private mode, widget on a sandboxed page)
+const memoryStore = new Map<string, Record<string, DocumentMetadata>>()
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Metadata for every recorded document in a knowledge base, by file name
+ */
+export function getDocumentMetadata(ragId: string): Record<string, DocumentMetadata> {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + ragId)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return memoryStore.get(ragId) || {}
+  }
+}
+
+function saveDocumentMetadata(ragId: string, metadata: Record<string, DocumentMetadata>) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + ragId, JSON.stringify(metadata))
+  } catch {
+    memoryStore.set(ragId, metadata)
+  }
+}
+
+/**
+ * Record (or update) what's known about a document
+ */
+export function recordDocumentMetadata(ragId: string, fileName: string, metadata: DocumentMetadata) {
+  const all = getDocumentMetadata(ragId)
+  all[fileName] = { ...all[fileName], ...metadata }
+  saveDocumentMetadata(ragId, all)
+}
+
+/**
+ * Forget deleted documents
+ */
+export function removeDocumentMetadata(ragId: string, fileNames: string[]) {
+  const all = getDocumentMetadata(ragId)
+  fileNames.forEach(fileName => delete all[fileName])
+  saveDocumentMetadata(ragId, all)
+}
+
+/**
+ * Fill in recorded metadata on documents from the API
+ */
+export function withDocumentMetadata(ragId: string, documents: RAGDocument[]): RAGDocument[] {
+  const all = getDocumentMetadata(ragId)
+  return documents.map(doc => (all[doc.fileName] ? { ...all[doc.fileName], ...doc } : doc))
+}
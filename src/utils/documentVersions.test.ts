@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createMemoryVersionStore,
+  hashFile,
+  setDocumentVersionStore,
+  syncDocument,
+  type DocumentVersion,
+  type DocumentVersionStore,
+} from '@/utils/documentVersions'
+
+const file = (content: string) => new File([content], 'faq.md', { type: 'text/markdown' })
+
+const liveVersion = async (content: string): Promise<DocumentVersion> => ({
+  ragId: 'rag',
+  fileName: 'faq.md',
+  version: 1,
+  hash: await hashFile(file(content)),
+  uploadedAt: '2026-01-01T00:00:00.000Z',
+  fileSize: content.length,
+  fileType: 'text/markdown',
+  documentCount: 1,
+  live: true,
+})
+
+let store: DocumentVersionStore
+const fetchMock = vi.fn()
+
+beforeEach(() => {
+  store = createMemoryVersionStore()
+  setDocumentVersionStore(store)
+  fetchMock.mockReset()
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('syncDocument', () => {
+  it('skips a file whose content matches the live version', async () => {
+    const live = await liveVersion('Refunds take 5 days.')
+    await store.putVersion(live)
+
+    const result = await syncDocument('rag', file('Refunds take 5 days.'))
+
+    expect(result).toMatchObject({ success: true, unchanged: true, documentCount: 0, version: live })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  // The knowledge base lists nothing and accepts every delete and training request
+  const acceptUploads = () =>
+    fetchMock.mockImplementation(async (url: string) =>
+      url.includes('/rag/documents/') ? new Response('', { status: 404 }) : Response.json({ success: true }))
+
+  it('uploads a file whose content changed as the next version', async () => {
+    await store.putVersion(await liveVersion('Refunds take 5 days.'))
+    acceptUploads()
+
+    const result = await syncDocument('rag', file('Refunds take 3 days.'))
+
+    expect(result).toMatchObject({ success: true, version: { version: 2, live: true } })
+    expect(result.unchanged).toBeUndefined()
+    const versions = await store.getVersions('rag', 'faq.md')
+    expect(versions.map(version => [version.version, version.live])).toEqual([[1, false], [2, true]])
+  })
+
+  it('uploads an unchanged file when forced', async () => {
+    await store.putVersion(await liveVersion('Refunds take 5 days.'))
+    acceptUploads()
+
+    const result = await syncDocument('rag', file('Refunds take 5 days.'), { force: true })
+
+    expect(result).toMatchObject({ success: true, version: { version: 2 } })
+    expect(fetchMock).toHaveBeenCalled()
+  })
+
+  it('reports a successful upload whose version could not be recorded as done, with a warning', async () => {
+    acceptUploads()
+    setDocumentVersionStore({
+      getVersions: async () => [],
+      putVersion: async () => {
+        throw new Error('QuotaExceededError')
+      },
+    })
+
+    const result = await syncDocument('rag', file('Refunds take 5 days.'))
+
+    expect(result).toMatchObject({ success: true, warning: expect.any(String), details: 'QuotaExceededError' })
+  })
+})
@@ -0,0 +1,507 @@
+/**
+ * Knowledge Base Document Versions
+ *
+ * Tracks every version of a document uploaded under the same file name, by
+ * content hash, and keeps the source files of recent versions so they can be
+ * restored. syncDocument is the versioned upload:
+ * - unchanged content (same hash as the live version) is skipped
+ * - changed content deletes the old document's chunks, then trains the new file
+ * - if training the new file fails, the previous version is put back
+ *
+ * Versions live in IndexedDB (they hold files), falling back to memory.
+ *
+ * @example
+ * ```tsx
+ * import { syncDocument, rollbackDocument, useDocumentVersions } from '@/utils/documentVersions'
+ *
+ * const result = await syncDocument(ragId, file)
+ * if (result.unchanged) console.log('Already up to date')
+ *
+ * const { versions } = useDocumentVersions(ragId, 'return-policy.pdf')
+ * await rollbackDocument(ragId, 'return-policy.pdf', versions[0].version)
+ * ```
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  deleteDocuments,
+  getDocuments,
+  uploadAndTrainDocument,
+  type UploadRequestOptions,
+  type UploadResponse
+} from '@/utils/ragKnowledgeBase'
+import { getDocumentMetadata } from '@/utils/documentMetadata'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DocumentVersion {
+  ragId: string
+  fileName: string
+  /** 1 for the first upload, counting up */
+  version: number
+  /** SHA-256 of the file content, hex */
+  hash: string
+  uploadedAt: string
+  fileSize: number
+  /** MIME type to restore the file with */
+  fileType: string
+  /** Chunks trained */
+  documentCount?: number
+  /** The uploaded file; dropped for old versions (see MAX_RETAINED_FILES) */
+  file?: Blob
+  /** This version's chunks are the ones in the knowledge base */
+  live: boolean
+  /** Set when this version was created by rolling back to an earlier one */
+  restoredFrom?: number
+}
+
+/**
+ * Storage backend for versions. Methods reject on failure.
+ */
+export interface DocumentVersionStore {
+  /** Versions of a document, oldest first */
+  getVersions: (ragId: string, fileName: string) => Promise<DocumentVersion[]>
+  /** Add a version, or replace the stored one with the same number */
+  putVersion: (version: DocumentVersion) => Promise<void>
+}
+
+export interface SyncDocumentOptions extends UploadRequestOptions {
+  /** Retrain even when the content matches the live version */
+  force?: boolean
+}
+
+export interface SyncDocumentResponse extends UploadResponse {
+  /** Content matched the live version - nothing was uploaded */
+  unchanged?: boolean
+  /** The version now live */
+  version?: DocumentVersion
+  /** Uploaded, but something after the upload (e.g. recording the version) went wrong */
+  warning?: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Versions per document whose files are kept for rollback, newest first */
+export const MAX_RETAINED_FILES = 5
+
+const DB_NAME = 'support-kb-versions'
+const DB_VERSION = 1
+const VERSIONS_STORE = 'versions'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'))
+  })
+
+// FNV-1a, for pages served over plain http where crypto.subtle is unavailable
+function fallbackHash(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i]
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `fnv1a-${bytes.length.toString(16)}-${(hash >>> 0).toString(16).padStart(8, '0')}`
+}
+
+/**
+ * Content hash of a file, hex encoded
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const buffer = await file.arrayBuffer()
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return fallbackHash(new Uint8Array(buffer))
+  }
+  const digest = await crypto.subtle.digest('SHA-256', buffer)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const toFile = (version: DocumentVersion) =>
+  new File([version.file], version.fileName, { type: version.fileType })
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+function openVersionDB(dbName: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(dbName, DB_VERSION)
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(VERSIONS_STORE)) {
+      request.result.createObjectStore(VERSIONS_STORE, { keyPath: ['ragId', 'fileName', 'version'] })
+    }
+  }
+  return requestToPromise(request)
+}
+
+/**
+ * IndexedDB store, keyed by [ragId, fileName, version]
+ */
+export function createIndexedDBVersionStore(dbName = DB_NAME): DocumentVersionStore {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDB = () => {
+    if (!dbPromise) {
+      dbPromise = openVersionDB(dbName).catch(error => {
+        // Let the next call try again
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  return {
+    getVersions: async (ragId, fileName) => {
+      const db = await openDB()
+      const store = db.transaction(VERSIONS_STORE, 'readonly').objectStore(VERSIONS_STORE)
+      // Arrays sort after numbers, so [ragId, fileName, []] bounds every version
+      const versions = await requestToPromise<DocumentVersion[]>(
+        store.getAll(IDBKeyRange.bound([ragId, fileName], [ragId, fileName, []]))
+      )
+      return versions.sort((a, b) => a.version - b.version)
+    },
+
+    putVersion: async version => {
+      const db = await openDB()
+      const tx = db.transaction(VERSIONS_STORE, 'readwrite')
+      tx.objectStore(VERSIONS_STORE).put(version)
+      await transactionDone(tx)
+    },
+  }
+}
+
+/**
+ * In-memory store - nothing survives a reload
+ */
+export function createMemoryVersionStore(): DocumentVersionStore {
+  const records = new Map<string, DocumentVersion[]>()
+  const keyFor = (ragId: string, fileName: string) => JSON.stringify([ragId, fileName])
+
+  return {
+    getVersions: async (ragId, fileName) => [...(records.get(keyFor(ragId, fileName)) || [])],
+
+    putVersion: async version => {
+      const key = keyFor(version.ragId, version.fileName)
+      const others = (records.get(key) || []).filter(existing => existing.version !== version.version)
+      records.set(key, [...others, version].sort((a, b) => a.version - b.version))
+    },
+  }
+}
+
+// IndexedDB if it opens - history is an add-on, so blocked storage must not stop uploads
+function createFallbackVersionStore(): DocumentVersionStore {
+  const ready: Promise<DocumentVersionStore> = typeof indexedDB === 'undefined'
+    ? Promise.resolve(createMemoryVersionStore())
+    : Promise.resolve()
+      .then(() => openVersionDB(DB_NAME))
+      .then(
+        db => {
+          db.close()
+          return createIndexedDBVersionStore()
+        },
+        error => {
+          console.warn('IndexedDB is unavailable, keeping document versions in memory:', error)
+          return createMemoryVersionStore()
+        }
+      )
+
+  return {
+    getVersions: async (ragId, fileName) => (await ready).getVersions(ragId, fileName),
+    putVersion: async version => (await ready).putVersion(version),
+  }
+}
+
+let versionStore: DocumentVersionStore | null = null
+
+/**
+ * The store versions are read from and written to - IndexedDB when the
+ * browser can open it, otherwise memory
+ */
+export const getDocumentVersionStore = (): DocumentVersionStore => {
+  if (!versionStore) {
+    versionStore = createFallbackVersionStore()
+  }
+  return versionStore
+}
+
+/**
+ * Replace the store, e.g. with an in-memory one so files aren't kept in the browser
+ */
+export const setDocumentVersionStore = (store: DocumentVersionStore) => {
+  versionStore = store
+}
+
+// Record a newly live version: retire the others and drop files past the retention limit
+async function recordVersion(
+  store: DocumentVersionStore,
+  previous: DocumentVersion[],
+  version: DocumentVersion
+) {
+  const retainedFrom = version.version - MAX_RETAINED_FILES + 1
+  await Promise.all(previous
+    .filter(existing => existing.live || (existing.file && existing.version < retainedFrom))
+    .map(existing => store.putVersion({
+      ...existing,
+      live: false,
+      file: existing.version < retainedFrom ? undefined : existing.file,
+    })))
+  await store.putVersion(version)
+}
+
+// Whether the knowledge base may already hold chunks under this file name
+async function isDocumentListed(ragId: string, fileName: string, versions: DocumentVersion[]) {
+  if (versions.some(version => version.live) || getDocumentMetadata(ragId)[fileName]) return true
+  // Uploaded before versioning, or from elsewhere - ask the knowledge base
+  const listed = await getDocuments(ragId)
+  return !!listed.documents?.some(doc => doc.fileName === fileName)
+}
+
+// Whether the knowledge base has stopped listing the document - deletes can take a moment to show
+async function confirmDocumentRemoved(ragId: string, fileName: string, attempts = 3) {
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const listed = await getDocuments(ragId)
+    if (listed.success && !listed.documents?.some(doc => doc.fileName === fileName)) return true
+    if (attempt < attempts) await new Promise(resolve => setTimeout(resolve, 1000 * attempt))
+  }
+  return false
+}
+
+// Swap the document's chunks for `file`'s, putting the live version back if training fails
+async function replaceDocument(
+  ragId: string,
+  file: File,
+  versions: DocumentVersion[],
+  options: UploadRequestOptions = {}
+): Promise<UploadResponse> {
+  const listed = await isDocumentListed(ragId, file.name, versions)
+  if (listed) {
+    const deleted = await deleteDocuments(ragId, [file.name], { retry: options.retry })
+    if (!deleted.success) {
+      return {
+        success: false,
+        error: 'Could not remove the previous version',
+        details: deleted.details ? `${deleted.error}: ${deleted.details}` : deleted.error,
+      }
+    }
+    // Stale chunks would stay citable next to the new version's
+    if (!(await confirmDocumentRemoved(ragId, file.name))) {
+      return {
+        success: false,
+        error: 'Could not remove the previous version',
+        details: `The knowledge base still lists ${file.name} after deleting it.`,
+      }
+    }
+  }
+
+  const result = await uploadAndTrainDocument(ragId, file, options)
+  if (result.success || !listed) return result
+
+  // The old chunks are gone - don't leave the document missing from the knowledge base
+  const fallback = [...versions].reverse().find(version => version.live && version.file)
+  const restored = fallback ? await uploadAndTrainDocument(ragId, toFile(fallback), { retry: options.retry }) : null
+  if (!restored?.success) {
+    await retireDocumentVersions(ragId, [file.name])
+  }
+  const note = restored?.success
+    ? `Version ${fallback.version} was put back.`
+    : 'The previous version was removed from the knowledge base - upload it again or roll back.'
+  return { ...result, details: result.details ? `${result.details} ${note}` : note }
+}
+
+// =============================================================================
+// Main API Functions
+// =============================================================================
+
+/**
+ * Upload a file as a new version of the document with its name. Skips files
+ * whose content matches the live version unless `force` is set.
+ *
+ * @param ragId - RAG Knowledge Base ID (required)
+ * @param file - File to upload (see uploadAndTrainDocument for supported types)
+ * @param options - Retry policy, cancellation, stage callback and `force`
+ */
+export async function syncDocument(
+  ragId: string,
+  file: File,
+  options: SyncDocumentOptions = {}
+): Promise<SyncDocumentResponse> {
+  if (!ragId) {
+    return { success: false, error: 'ragId is required' }
+  }
+
+  try {
+    const store = getDocumentVersionStore()
+    const [hash, versions] = await Promise.all([hashFile(file), store.getVersions(ragId, file.name)])
+    const live = versions.find(version => version.live)
+
+    if (live && live.hash === hash && !options.force) {
+      return {
+        success: true,
+        unchanged: true,
+        message: `Unchanged since version ${live.version}`,
+        fileName: file.name,
+        documentCount: 0,
+        ragId,
+        version: live,
+      }
+    }
+
+    const result = await replaceDocument(ragId, file, versions, options)
+    if (!result.success) return result
+
+    const version: DocumentVersion = {
+      ragId,
+      fileName: file.name,
+      version: (versions[versions.length - 1]?.version || 0) + 1,
+      hash,
+      uploadedAt: result.timestamp || new Date().toISOString(),
+      fileSize: file.size,
+      fileType: file.type,
+      documentCount: result.documentCount,
+      file,
+      live: true,
+    }
+    // The document is already live - a failed history write mustn't turn into a retry that re-uploads it
+    try {
+      await recordVersion(store, versions, version)
+    } catch (error) {
+      console.warn('Failed to record document version:', error)
+      return {
+        ...result,
+        warning: 'Uploaded, but its version history could not be saved',
+        details: error instanceof Error ? error.message : String(error),
+      }
+    }
+    return { ...result, version }
+  } catch (error) {
+    console.error('Sync document failed:', error)
+    return {
+      success: false,
+      error: 'Failed to record document version',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+/**
+ * Make an earlier version live again by retraining its retained file. The
+ * rollback is recorded as a new version with `restoredFrom` set.
+ *
+ * @param ragId - RAG Knowledge Base ID (required)
+ * @param fileName - Document name
+ * @param versionNumber - Version to restore
+ */
+export async function rollbackDocument(
+  ragId: string,
+  fileName: string,
+  versionNumber: number,
+  options: UploadRequestOptions = {}
+): Promise<SyncDocumentResponse> {
+  try {
+    const store = getDocumentVersionStore()
+    const versions = await store.getVersions(ragId, fileName)
+    const target = versions.find(version => version.version === versionNumber)
+    if (!target) {
+      return { success: false, error: `Version ${versionNumber} of ${fileName} not found` }
+    }
+    if (!target.file) {
+      return { success: false, error: `The file for version ${versionNumber} is no longer kept` }
+    }
+    if (target.live) {
+      return { success: true, unchanged: true, message: `Version ${versionNumber} is already live`, ragId, version: target }
+    }
+
+    const result = await replaceDocument(ragId, toFile(target), versions, options)
+    if (!result.success) return result
+
+    const version: DocumentVersion = {
+      ...target,
+      version: versions[versions.length - 1].version + 1,
+      uploadedAt: result.timestamp || new Date().toISOString(),
+      documentCount: result.documentCount,
+      live: true,
+      restoredFrom: target.restoredFrom ?? target.version,
+    }
+    await recordVersion(store, versions, version)
+    return { ...result, message: `Restored version ${versionNumber}`, version }
+  } catch (error) {
+    console.error('Rollback document failed:', error)
+    return {
+      success: false,
+      error: 'Failed to roll back document',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+/**
+ * Mark documents deleted from the knowledge base as no longer live. Their
+ * history is kept, so a retained version can still be restored.
+ */
+export async function retireDocumentVersions(ragId: string, fileNames: string[]) {
+  const store = getDocumentVersionStore()
+  try {
+    await Promise.all(fileNames.map(async fileName => {
+      const versions = await store.getVersions(ragId, fileName)
+      await Promise.all(versions.filter(version => version.live).map(version => store.putVersion({ ...version, live: false })))
+    }))
+  } catch (error) {
+    console.error('Retire document versions failed:', error)
+  }
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+/**
+ * Version history of one document, newest first
+ *
+ * @example
+ * ```tsx
+ * const { versions, isLoading, reload } = useDocumentVersions(ragId, document.fileName)
+ * ```
+ */
+export function useDocumentVersions(ragId: string | undefined, fileName: string | undefined) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    if (!ragId || !fileName) {
+      setVersions([])
+      return
+    }
+    setIsLoading(true)
+    setError(null)
+    try {
+      const loaded = await getDocumentVersionStore().getVersions(ragId, fileName)
+      setVersions(loaded.reverse())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load version history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [ragId, fileName])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { versions, isLoading, error, reload }
+}
@@ -0,0 +1,22 @@
+/**
+ * Trigger a browser download for generated text content
+ *
+ * @example
+ * ```tsx
+ * downloadFile('feedback.json', JSON.stringify(events, null, 2), 'application/json')
+ * ```
+ */
+export function downloadFile(fileName: string, content: string, mimeType = 'text/plain'): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
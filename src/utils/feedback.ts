@@ -0,0 +1,155 @@
+/**
+ * Message Feedback Utility
+ *
+ * Collects thumbs up/down feedback on agent answers and forwards each event to
+ * a pluggable FeedbackSink. The default sink keeps events in memory; plug in
+ * your backend with setFeedbackSink.
+ *
+ * @example
+ * ```tsx
+ * import { setFeedbackSink } from '@/utils/feedback'
+ *
+ * setFeedbackSink({
+ *   async submit(event) {
+ *     await fetch('/api/feedback', { method: 'POST', body: JSON.stringify(event) })
+ *   }
+ * })
+ * ```
+ */
+
+import type { Conversation, FeedbackReason, Message, MessageFeedback } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Feedback event sent to the sink - one per rating change
+ */
+export interface FeedbackEvent {
+  conversationId: string
+  sessionId: string
+  messageId: string
+  rating: MessageFeedback['rating']
+  reason?: FeedbackReason
+  comment?: string
+  /** The customer question the answer replied to */
+  question?: string
+  answer: string
+  confidence?: number
+  sourceTitles: string[]
+  createdAt: string
+}
+
+/**
+ * Destination for feedback events (backend API, analytics, ...)
+ */
+export interface FeedbackSink {
+  submit: (event: FeedbackEvent) => Promise<void>
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Reasons offered in the thumbs-down picker
+ */
+export const FEEDBACK_REASONS: { value: FeedbackReason; label: string }[] = [
+  { value: 'incorrect', label: 'Incorrect' },
+  { value: 'incomplete', label: 'Incomplete' },
+  { value: 'irrelevant', label: "Didn't answer my question" },
+  { value: 'outdated', label: 'Outdated' },
+  { value: 'unclear', label: 'Hard to understand' },
+  { value: 'other', label: 'Other' },
+]
+
+// =============================================================================
+// Sinks
+// =============================================================================
+
+/**
+ * Sink that keeps events in memory (default)
+ */
+export function createInMemoryFeedbackSink() {
+  const events: FeedbackEvent[] = []
+
+  return {
+    submit: async (event: FeedbackEvent) => {
+      events.push(event)
+    },
+    getEvents: () => [...events],
+    clear: () => {
+      events.length = 0
+    },
+  }
+}
+
+let feedbackSink: FeedbackSink = createInMemoryFeedbackSink()
+
+/**
+ * Replace the sink that receives feedback events
+ */
+export const setFeedbackSink = (sink: FeedbackSink) => {
+  feedbackSink = sink
+}
+
+export const getFeedbackSink = (): FeedbackSink => feedbackSink
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Build the sink event for feedback on a message.
+ * The question is the closest user message before the answer.
+ */
+export function createFeedbackEvent(
+  conversation: Conversation,
+  message: Message,
+  feedback: MessageFeedback
+): FeedbackEvent {
+  const index = conversation.messages.findIndex(msg => msg.id === message.id)
+  const question = conversation.messages
+    .slice(0, index === -1 ? 0 : index)
+    .reverse()
+    .find(msg => msg.role === 'user')
+
+  return {
+    conversationId: conversation.id,
+    sessionId: conversation.sessionId,
+    messageId: message.id,
+    rating: feedback.rating,
+    reason: feedback.reason,
+    comment: feedback.comment,
+    question: question?.content,
+    answer: message.content,
+    confidence: message.confidence,
+    sourceTitles: (message.sources || []).map(source => source.title),
+    createdAt: feedback.createdAt.toISOString(),
+  }
+}
+
+/**
+ * Send a feedback event to the active sink. Never throws - failures are logged.
+ */
+export async function submitFeedback(event: FeedbackEvent): Promise<boolean> {
+  try {
+    await feedbackSink.submit(event)
+    return true
+  } catch (error) {
+    console.error('Failed to submit feedback:', error)
+    return false
+  }
+}
+
+/**
+ * Collect every rated answer across conversations, e.g. for a JSON export
+ */
+export function collectFeedback(conversations: Conversation[]): FeedbackEvent[] {
+  return conversations.flatMap(conversation =>
+    conversation.messages
+      .filter(message => message.feedback)
+      .map(message => createFeedbackEvent(conversation, message, message.feedback!))
+  )
+}
@@ -18,9 +18,12 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
+import { createRequestSignal, type RequestSignalOptions } from '@/utils/requestSignal'
+import { fetchWithRetry, createRetryLog, type RetryOption } from '@/utils/retry'
+import { getAppConfig } from '@/utils/appConfig'
 
-// Direct Lyzr Agent API endpoint
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
+// Direct Lyzr Agent API endpoint, from the runtime config
+const getChatUrl = () => `${getAppConfig().api.agentBaseUrl}/inference/chat`
 
 // API Key from environment variable
 const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
@@ -47,20 +50,24 @@ export interface UploadResponse {
   message?: string
   error?: string
   timestamp?: string
+  aborted?: boolean
 }
 
-export interface AgentChatWithFilesOptions {
+export interface AgentChatWithFilesOptions extends RequestSignalOptions {
   message: string
   agent_id: string
   files?: File | File[]
   user_id?: string
   session_id?: string
+  /** Retry policy overrides for the agent call, or false to disable retries */
+  retry?: RetryOption
 }
 
 /**
  * Upload one or more files to the secure storage
  *
  * @param files - Single file or array of files to upload
+ * @param options - Optional signal/timeout to cancel the upload
  * @returns Promise with asset_ids that can be used in agent chat
  *
  * @example
@@ -71,7 +78,10 @@ export interface AgentChatWithFilesOptions {
  * // From drag and drop
  * const { asset_ids } = await uploadFiles(e.dataTransfer.files)
  */
-export async function uploadFiles(files: File | File[] | FileList): Promise<UploadResponse> {
+export async function uploadFiles(
+  files: File | File[] | FileList,
+  options?: RequestSignalOptions
+): Promise<UploadResponse> {
   const fileArray = files instanceof FileList
     ? Array.from(files)
     : Array.isArray(files)
@@ -91,10 +101,13 @@ export async function uploadFiles(files: File | File[] | FileList): Promise<Uplo
     formData.append('files', file)
   }
 
+  const request = createRequestSignal(options)
+
   try {
     const response = await fetch('/api/upload', {
       method: 'POST',
       body: formData,
+      signal: request.signal,
     })
 
     const data = await response.json()
@@ -115,11 +128,19 @@ export async function uploadFiles(files: File | File[] | FileList): Promise<Uplo
       timestamp: data.timestamp,
     }
   } catch (error) {
+    const abortReason = request.abortReason()
     return {
       success: false,
       asset_ids: [],
-      error: error instanceof Error ? error.message : 'Upload failed',
+      error: abortReason === 'cancelled'
+        ? 'Upload cancelled'
+        : abortReason === 'timeout'
+          ? 'Upload timed out'
+          : error instanceof Error ? error.message : 'Upload failed',
+      aborted: abortReason === 'cancelled',
     }
+  } finally {
+    request.cleanup()
   }
 }
 
@@ -135,27 +156,36 @@ export async function uploadFiles(files: File | File[] | FileList): Promise<Uplo
  *   agent_id: 'your-agent-id',
  *   files: imageFile
  * })
+ *
+ * // Cancel from a "Stop" button
+ * const controller = new AbortController()
+ * const response = await chatWithFiles({ message, agent_id, signal: controller.signal })
+ * if (response.aborted) return
  */
 export async function chatWithFiles(options: AgentChatWithFilesOptions) {
-  const { message, agent_id, files, user_id, session_id } = options
+  const { message, agent_id, files, user_id, session_id, signal, timeout, retry } = options
 
   let asset_ids: string[] = []
 
   // Upload files if provided
   if (files) {
-    const uploadResult = await uploadFiles(files)
+    const uploadResult = await uploadFiles(files, { signal, timeout })
     if (!uploadResult.success) {
       return {
         success: false,
         error: uploadResult.error || 'Failed to upload files',
+        aborted: uploadResult.aborted,
       }
     }
     asset_ids = uploadResult.asset_ids
   }
 
+  const request = createRequestSignal({ signal, timeout })
+  const retryLog = createRetryLog()
+
   // Call Lyzr Agent API directly with assets
   try {
-    const response = await fetch(LYZR_API_URL, {
+    const response = await fetchWithRetry(getChatUrl(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -168,9 +198,11 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
         session_id,
         assets: asset_ids.length > 0 ? asset_ids : undefined,
       }),
-    })
+      signal: request.signal,
+    }, retry, retryLog)
 
     const rawText = await response.text()
+    const attemptInfo = { attempts: retryLog.attempts, attempt_errors: retryLog.errors }
 
     if (response.ok) {
       // Parse with bulletproof JSON parser
@@ -182,6 +214,7 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
           success: false,
           error: parsed?.error || 'Failed to parse agent response',
           raw_response: rawText,
+          ...attemptInfo,
         }
       }
 
@@ -196,6 +229,7 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
         session_id: parsed?.session_id || session_id,
         timestamp: parsed?.timestamp || new Date().toISOString(),
         raw_response: rawText,
+        ...attemptInfo,
       }
     } else {
       // Try to parse error response
@@ -210,13 +244,24 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
         success: false,
         error: errorData.error || errorData.message || `API returned status ${response.status}`,
         raw_response: rawText,
+        ...attemptInfo,
       }
     }
   } catch (error) {
+    const abortReason = request.abortReason()
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Chat request failed',
+      error: abortReason === 'cancelled'
+        ? 'Request cancelled'
+        : abortReason === 'timeout'
+          ? 'Request timed out'
+          : error instanceof Error ? error.message : 'Chat request failed',
+      aborted: abortReason === 'cancelled',
+      attempts: retryLog.attempts,
+      attempt_errors: retryLog.errors,
     }
+  } finally {
+    request.cleanup()
   }
 }
 
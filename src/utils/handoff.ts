@@ -0,0 +1,205 @@
+/**
+ * Human Handoff Utility
+ *
+ * Decides when an agent answer is weak enough to offer a human, packages the
+ * conversation transcript into a ticket and submits it through a pluggable
+ * TicketingAdapter. The default adapter is a local mock; plug in your help desk
+ * with setTicketingAdapter.
+ *
+ * @example
+ * ```tsx
+ * import { setTicketingAdapter } from '@/utils/handoff'
+ *
+ * setTicketingAdapter({
+ *   async createTicket(payload) {
+ *     const res = await fetch('/api/tickets', { method: 'POST', body: JSON.stringify(payload) })
+ *     const data = await res.json()
+ *     return { ticketId: data.id, url: data.url }
+ *   }
+ * })
+ * ```
+ */
+
+import type { Conversation, HandoffTicket, Message } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Details the customer enters in the handoff form
+ */
+export interface HandoffContact {
+  name: string
+  email: string
+  summary: string
+}
+
+/**
+ * Why the conversation was escalated
+ */
+export type HandoffTrigger = 'low_confidence' | 'agent_error' | 'customer_request'
+
+/**
+ * Ticket payload sent to the ticketing adapter
+ */
+export interface TicketPayload {
+  customer: { name: string; email: string }
+  summary: string
+  trigger: HandoffTrigger
+  conversationId: string
+  sessionId: string
+  userId: string
+  /** Confidence of the latest agent answer, if it reported one */
+  lastConfidence?: number
+  transcript: {
+    role: Message['role']
+    content: string
+    timestamp: string
+    confidence?: number
+    sourceTitles?: string[]
+  }[]
+  createdAt: string
+}
+
+export interface TicketResult {
+  ticketId: string
+  url?: string
+}
+
+/**
+ * Destination for handoff tickets (Zendesk, Freshdesk, your own API, ...)
+ */
+export interface TicketingAdapter {
+  createTicket: (payload: TicketPayload) => Promise<TicketResult>
+}
+
+export interface SubmitTicketResult {
+  success: boolean
+  ticket?: HandoffTicket
+  error?: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Answers below this confidence (0..1) offer a handoff
+ */
+export const DEFAULT_HANDOFF_THRESHOLD = 0.5
+
+// =============================================================================
+// Adapters
+// =============================================================================
+
+/**
+ * Local mock adapter (default) - keeps tickets in memory after a short delay
+ */
+export function createMockTicketingAdapter(options: { delayMs?: number } = {}) {
+  const { delayMs = 600 } = options
+  const tickets: (TicketPayload & { ticketId: string })[] = []
+
+  return {
+    createTicket: async (payload: TicketPayload): Promise<TicketResult> => {
+      await new Promise(resolve => setTimeout(resolve, delayMs))
+      const ticketId = `MOCK-${1000 + tickets.length + 1}`
+      tickets.push({ ...payload, ticketId })
+      return { ticketId }
+    },
+    getTickets: () => [...tickets],
+    clear: () => {
+      tickets.length = 0
+    },
+  }
+}
+
+let ticketingAdapter: TicketingAdapter = createMockTicketingAdapter()
+
+/**
+ * Replace the adapter that receives handoff tickets
+ */
+export const setTicketingAdapter = (adapter: TicketingAdapter) => {
+  ticketingAdapter = adapter
+}
+
+export const getTicketingAdapter = (): TicketingAdapter => ticketingAdapter
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Why a single agent answer should offer a handoff, or null if it shouldn't.
+ * Answers without a confidence score only escalate on error.
+ */
+export function getHandoffTrigger(
+  message: Message,
+  threshold: number = DEFAULT_HANDOFF_THRESHOLD
+): HandoffTrigger | null {
+  if (message.role !== 'agent') return null
+  if (message.status === 'error') return 'agent_error'
+  if (message.confidence !== undefined && message.confidence < threshold) return 'low_confidence'
+  return null
+}
+
+/**
+ * Latest customer question in a conversation - used to prefill the summary
+ */
+export function getLastQuestion(conversation: Conversation): string {
+  const question = [...conversation.messages].reverse().find(msg => msg.role === 'user')
+  return question?.content || ''
+}
+
+/**
+ * Package the conversation transcript and contact details into a ticket
+ */
+export function createTicketPayload(
+  conversation: Conversation,
+  contact: HandoffContact,
+  trigger: HandoffTrigger
+): TicketPayload {
+  const lastAgentMessage = [...conversation.messages].reverse().find(msg => msg.role === 'agent')
+
+  return {
+    customer: { name: contact.name.trim(), email: contact.email.trim() },
+    summary: contact.summary.trim(),
+    trigger,
+    conversationId: conversation.id,
+    sessionId: conversation.sessionId,
+    userId: conversation.userId,
+    lastConfidence: lastAgentMessage?.confidence,
+    transcript: conversation.messages.map(msg => ({
+      role: msg.role,
+      content: msg.content,
+      timestamp: msg.timestamp.toISOString(),
+      confidence: msg.confidence,
+      sourceTitles: msg.sources?.map(source => source.title),
+    })),
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Submit a ticket through the active adapter. Never throws.
+ */
+export async function submitTicket(payload: TicketPayload): Promise<SubmitTicketResult> {
+  try {
+    const result = await ticketingAdapter.createTicket(payload)
+    return {
+      success: true,
+      ticket: {
+        ticketId: result.ticketId,
+        url: result.url,
+        email: payload.customer.email,
+        createdAt: new Date(payload.createdAt),
+      },
+    }
+  } catch (error) {
+    console.error('Failed to create handoff ticket:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create ticket',
+    }
+  }
+}
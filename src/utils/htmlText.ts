@@ -0,0 +1,157 @@
+/**
+ * HTML Text Extraction
+ *
+ * Pulls the title, readable text and links out of an HTML page with plain
+ * string processing - no DOM - so it works in workers and Node as well as
+ * the browser. Headings come out as Markdown `#` lines, so the text can be
+ * split into sections like a Markdown document.
+ *
+ * @example
+ * ```tsx
+ * import { extractPage } from '@/utils/htmlText'
+ *
+ * const page = extractPage(html, 'https://help.example.com/returns')
+ * console.log(page.title, page.text, page.links)
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ExtractedPage {
+  title: string
+  text: string
+  /** Absolute http(s) links, without fragments */
+  links: string[]
+  /** `<meta name="robots" content="noindex">` */
+  noindex: boolean
+  /** `<meta name="robots" content="nofollow">` */
+  nofollow: boolean
+  /** `<link rel="canonical">` or `og:url`, when the page declares its address */
+  canonicalUrl?: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  bull: '•', middot: '·', copy: '©', reg: '®', trade: '™', deg: '°', euro: '€', pound: '£',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined
+}
+
+/**
+ * Absolute http(s) URL without its fragment, or null
+ */
+export function normalizeUrl(raw: string, base?: string): string | null {
+  try {
+    const url = new URL(raw.trim(), base)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    url.hash = ''
+    return url.toString()
+  } catch {
+    return null
+  }
+}
+
+// Turn the markup of a content region into plain text with paragraph breaks
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      // Headings become Markdown headings so sections survive as text
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level: string, inner: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n\n`)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<\/?(?:p|section|article|main|ul|ol|table|blockquote|pre|figure|hr)\b[^>]*>/gi, '\n\n')
+      .replace(/<\/?(?:div|tr|dt|dd|dl|figcaption|address|header|footer)\b[^>]*>/gi, '\n')
+      .replace(/<\/?(?:td|th)\b[^>]*>/gi, ' ')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+    .filter(line => line !== '-')
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// =============================================================================
+// Main API Functions
+// =============================================================================
+
+/**
+ * Pull the title, readable text and links out of an HTML page. Scripts,
+ * styles and page chrome (nav, header, footer, aside, forms) are dropped;
+ * `<main>` or `<article>` is preferred over the whole body when present.
+ *
+ * @param html - Page markup
+ * @param pageUrl - Address the page was fetched from, to resolve relative links.
+ *   Without it only absolute links are returned.
+ */
+export function extractPage(html: string, pageUrl?: string): ExtractedPage {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|template|svg|iframe|canvas|select|object)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+
+  const robotsTag = cleaned.match(/<meta\b[^>]*name\s*=\s*["']?robots["']?[^>]*>/i)?.[0]
+  const robots = robotsTag ? (getAttribute(robotsTag, 'content') || '').toLowerCase() : ''
+
+  const baseTag = cleaned.match(/<base\b[^>]*>/i)?.[0]
+  const base = normalizeUrl(baseTag ? getAttribute(baseTag, 'href') || '' : '', pageUrl) || pageUrl
+
+  const canonicalTag = cleaned.match(/<link\b[^>]*rel\s*=\s*["']?canonical["']?[^>]*>/i)?.[0]
+    || cleaned.match(/<meta\b[^>]*property\s*=\s*["']?og:url["']?[^>]*>/i)?.[0]
+  const canonicalUrl = canonicalTag
+    ? normalizeUrl(getAttribute(canonicalTag, 'href') || getAttribute(canonicalTag, 'content') || '', base) || undefined
+    : undefined
+
+  const links = new Set<string>()
+  for (const [tag] of cleaned.matchAll(/<a\b[^>]*>/gi)) {
+    const href = getAttribute(tag, 'href')
+    if (!href || /\bnofollow\b/i.test(getAttribute(tag, 'rel') || '')) continue
+    const url = normalizeUrl(href, base)
+    if (url) links.add(url)
+  }
+
+  const main = cleaned.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1]
+  const articles = [...cleaned.matchAll(/<article\b[^>]*>([\s\S]*?)<\/article>/gi)].map(match => match[1])
+  const body = cleaned.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? cleaned
+  const content = (main ?? (articles.length > 0 ? articles.join('\n') : body))
+    .replace(/<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+
+  const rawTitle = cleaned.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    ?? cleaned.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i)?.[1]
+    ?? ''
+  const title = decodeEntities(rawTitle.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim()
+
+  return {
+    title: title || pageUrl || '',
+    text: htmlToText(content),
+    links: [...links],
+    noindex: /\b(?:noindex|none)\b/.test(robots),
+    nofollow: /\b(?:nofollow|none)\b/.test(robots),
+    canonicalUrl,
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * Knowledge Gap Utility
+ *
+ * Logs every question the agent couldn't answer well - low confidence, an
+ * error status or no sources - and clusters similar phrasings into a
+ * "knowledge gaps" report, so the docs team knows what to write next.
+ * Questions are logged to localStorage by default - that only holds the
+ * questions asked in the same browser, so for a report across customers plug
+ * in a shared backend with setGapLogStore.
+ *
+ * Clustering is embedding-free: questions are normalized (lowercase, stop
+ * words dropped, simple stemming), reduced to character trigrams of their
+ * words and grouped by Jaccard similarity. That tolerates word order, plurals
+ * and typos ("reset password" / "pasword resets").
+ *
+ * @example
+ * ```tsx
+ * import { buildGapReport, isKnowledgeGap, logUnansweredQuestion } from '@/utils/knowledgeGaps'
+ *
+ * if (isKnowledgeGap(answer)) {
+ *   logUnansweredQuestion({ question, answer: answer.content, confidence: answer.confidence, ... })
+ * }
+ *
+ * const gaps = buildGapReport(await getGapLogStore().getEntries())
+ * ```
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { Message } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One question the agent couldn't answer well
+ */
+export interface UnansweredQuestion {
+  id: string
+  question: string
+  answer: string
+  confidence?: number
+  status?: Message['status']
+  sourceCount: number
+  /** Knowledge base the answering agent searched */
+  ragId?: string
+  agentId?: string
+  conversationId?: string
+  askedAt: string
+}
+
+/**
+ * Similar unanswered questions grouped together
+ */
+export interface KnowledgeGap {
+  /** ID of the first question in the cluster - stable while it stays logged */
+  id: string
+  /** The most common phrasing */
+  question: string
+  /** How many times it was asked */
+  count: number
+  /** Distinct phrasings, most common first */
+  examples: string[]
+  /** Words shared by most phrasings, for search and labelling */
+  keywords: string[]
+  ragIds: string[]
+  /** Average over answers that reported a confidence */
+  averageConfidence?: number
+  firstAskedAt: string
+  lastAskedAt: string
+  /** IDs of the logged questions, to resolve the gap */
+  entryIds: string[]
+  /** Most recent answer the agent gave */
+  latestAnswer: string
+}
+
+export interface GapReportOptions {
+  /** Jaccard similarity (0..1) for a question to join a cluster */
+  similarity?: number
+  /** Phrasings kept per gap */
+  maxExamples?: number
+}
+
+/**
+ * Where unanswered questions are kept (localStorage, backend API, ...)
+ */
+export interface GapLogStore {
+  /** True when every customer's questions end up here (a backend), not just this browser's */
+  shared?: boolean
+  getEntries: () => Promise<UnansweredQuestion[]>
+  addEntry: (entry: UnansweredQuestion) => Promise<void>
+  removeEntries: (ids: string[]) => Promise<void>
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Answers below this confidence (0..1) are logged as gaps
+ */
+export const DEFAULT_GAP_CONFIDENCE_THRESHOLD = 0.5
+
+export const DEFAULT_GAP_SIMILARITY = 0.5
+
+/**
+ * Oldest questions are dropped beyond this many
+ */
+export const MAX_LOGGED_QUESTIONS = 500
+
+const STORAGE_KEY = 'support-knowledge-gaps'
+
+// Words that carry no topic - dropped before comparing questions. Greetings are
+// here too, so "hi" or "thanks" never count as a gap.
+const STOP_WORDS = new Set([
+  'a', 'about', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'can', 'could', 'do', 'does', 'for',
+  'from', 'get', 'has', 'have', 'hello', 'hey', 'hi', 'how', 'i', 'if', 'in', 'is', 'it', 'me', 'my',
+  'of', 'on', 'or', 'please', 'so', 'thank', 'thanks', 'that', 'the', 'there', 'this', 'to', 'us',
+  'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+])
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Whether an agent answer should be logged as a knowledge gap: an error
+ * status, a confidence below the threshold, or no sources at all.
+ */
+export function isKnowledgeGap(
+  message: Pick<Message, 'confidence' | 'status' | 'sources'>,
+  threshold: number = DEFAULT_GAP_CONFIDENCE_THRESHOLD
+): boolean {
+  if (message.status === 'error') return true
+  if (message.confidence !== undefined && message.confidence < threshold) return true
+  return !message.sources || message.sources.length === 0
+}
+
+// =============================================================================
+// Similarity
+// =============================================================================
+
+// "shipping" -> "shipp" -> "ship", but "billing" stays "bill"
+const undouble = (word: string) =>
+  /([^aeioudlsz])\1$/.test(word) ? word.slice(0, -1) : word
+
+const stem = (word: string) => {
+  if (word.length > 5 && word.endsWith('ing')) return undouble(word.slice(0, -3))
+  if (word.length > 4 && word.endsWith('ed')) return undouble(word.slice(0, -2))
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+/**
+ * Topic words of a question: lowercased, stemmed, without stop words
+ */
+export function questionTerms(question: string): string[] {
+  return question
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+// Character trigrams of each word, padded so word starts and ends count
+function trigrams(terms: string[]): Set<string> {
+  const grams = new Set<string>()
+  for (const term of terms) {
+    const padded = ` ${term} `
+    for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3))
+  }
+  return grams
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach(gram => {
+    if (b.has(gram)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Similarity of two questions (0..1), ignoring word order, stop words and small typos
+ */
+export function questionSimilarity(a: string, b: string): number {
+  return jaccard(trigrams(questionTerms(a)), trigrams(questionTerms(b)))
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+const countBy = (values: string[]) => {
+  const counts = new Map<string, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])
+}
+
+/**
+ * Cluster logged questions into gaps, most asked first.
+ * Each question joins the cluster it is most similar to on average, or starts
+ * a new one. Questions with no topic words are left out.
+ */
+export function buildGapReport(entries: UnansweredQuestion[], options: GapReportOptions = {}): KnowledgeGap[] {
+  const { similarity = DEFAULT_GAP_SIMILARITY, maxExamples = 5 } = options
+  const clusters: { entries: UnansweredQuestion[]; grams: Set<string>[] }[] = []
+
+  const sorted = [...entries].sort((a, b) => a.askedAt.localeCompare(b.askedAt))
+  for (const entry of sorted) {
+    const grams = trigrams(questionTerms(entry.question))
+    if (grams.size === 0) continue
+
+    let best: (typeof clusters)[number] | undefined
+    let bestScore = similarity
+    for (const cluster of clusters) {
+      const score = cluster.grams.reduce((sum, other) => sum + jaccard(grams, other), 0) / cluster.grams.length
+      if (score >= bestScore) {
+        best = cluster
+        bestScore = score
+      }
+    }
+    if (best) {
+      best.entries.push(entry)
+      best.grams.push(grams)
+    } else {
+      clusters.push({ entries: [entry], grams: [grams] })
+    }
+  }
+
+  return clusters
+    .map(({ entries: members }) => {
+      // Phrasings are compared loosely, but shown as first asked
+      const phrasings = new Map<string, string>()
+      members.forEach(member => {
+        const key = questionTerms(member.question).join(' ')
+        if (!phrasings.has(key)) phrasings.set(key, member.question.trim())
+      })
+      const examples = countBy(members.map(member => questionTerms(member.question).join(' ')))
+        .map(([key]) => phrasings.get(key))
+      const keywords = countBy(members.flatMap(member => [...new Set(questionTerms(member.question))]))
+        .filter(([, count]) => count * 2 >= members.length)
+        .slice(0, 5)
+        .map(([term]) => term)
+      const confidences = members.map(member => member.confidence).filter(confidence => confidence !== undefined)
+      const latest = members[members.length - 1]
+
+      return {
+        id: members[0].id,
+        question: examples[0],
+        count: members.length,
+        examples: examples.slice(0, maxExamples),
+        keywords,
+        ragIds: [...new Set(members.map(member => member.ragId).filter(Boolean))],
+        averageConfidence: confidences.length > 0
+          ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length
+          : undefined,
+        firstAskedAt: members[0].askedAt,
+        lastAskedAt: latest.askedAt,
+        entryIds: members.map(member => member.id),
+        latestAnswer: latest.answer,
+      }
+    })
+    .sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt))
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+/**
+ * localStorage store: the newest questions, up to maxEntries
+ */
+export function createLocalStorageGapLogStore(
+  storage: Storage = localStorage,
+  maxEntries: number = MAX_LOGGED_QUESTIONS
+): GapLogStore {
+  const read = (): UnansweredQuestion[] => {
+    try {
+      return JSON.parse(storage.getItem(STORAGE_KEY) || '[]')
+    } catch {
+      return []
+    }
+  }
+  const write = (entries: UnansweredQuestion[]) => storage.setItem(STORAGE_KEY, JSON.stringify(entries))
+
+  return {
+    shared: false,
+    getEntries: async () => read(),
+    addEntry: async (entry) => write([...read(), entry].slice(-maxEntries)),
+    removeEntries: async (ids) => {
+      const removed = new Set(ids)
+      write(read().filter(entry => !removed.has(entry.id)))
+    },
+  }
+}
+
+/**
+ * In-memory store, e.g. for tests or an embedded demo
+ */
+export function createMemoryGapLogStore(maxEntries: number = MAX_LOGGED_QUESTIONS): GapLogStore {
+  let entries: UnansweredQuestion[] = []
+
+  return {
+    shared: false,
+    getEntries: async () => [...entries],
+    addEntry: async (entry) => {
+      entries = [...entries, entry].slice(-maxEntries)
+    },
+    removeEntries: async (ids) => {
+      const removed = new Set(ids)
+      entries = entries.filter(entry => !removed.has(entry.id))
+    },
+  }
+}
+
+let gapLogStore: GapLogStore | null = null
+
+/**
+ * The store questions are logged to - localStorage when the browser has it
+ */
+export const getGapLogStore = (): GapLogStore => {
+  if (!gapLogStore) {
+    gapLogStore = typeof localStorage !== 'undefined'
+      ? createLocalStorageGapLogStore()
+      : createMemoryGapLogStore()
+  }
+  return gapLogStore
+}
+
+/**
+ * Replace the store, e.g. with one that posts to your analytics backend
+ */
+export const setGapLogStore = (store: GapLogStore) => {
+  gapLogStore = store
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Log an unanswered question. Never throws - failures are logged.
+ */
+export async function logUnansweredQuestion(
+  entry: Omit<UnansweredQuestion, 'id' | 'askedAt'> & { askedAt?: string }
+): Promise<boolean> {
+  try {
+    await getGapLogStore().addEntry({
+      ...entry,
+      id: `gap-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      askedAt: entry.askedAt || new Date().toISOString(),
+    })
+    return true
+  } catch (error) {
+    console.error('Failed to log unanswered question:', error)
+    return false
+  }
+}
+
+/**
+ * Gap report as CSV, one row per gap
+ */
+export function gapReportToCsv(gaps: KnowledgeGap[]): string {
+  // Customer-typed text starting with = + - @ would open as a live formula in a spreadsheet
+  const cell = (value: string | number) => {
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  const rows = gaps.map(gap => [
+    gap.question,
+    gap.count,
+    gap.examples.join(' | '),
+    gap.keywords.join(' '),
+    gap.ragIds.join(' '),
+    gap.lastAskedAt,
+  ].map(cell).join(','))
+  return [['Question', 'Times asked', 'Phrasings', 'Keywords', 'Knowledge bases', 'Last asked'].map(cell).join(','), ...rows].join('\n')
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+/**
+ * Logged questions clustered into gaps, with actions to refresh and resolve
+ *
+ * @example
+ * ```tsx
+ * const { gaps, isLoading, resolve } = useKnowledgeGaps()
+ * ```
+ */
+export function useKnowledgeGaps({ similarity, maxExamples }: GapReportOptions = {}) {
+  const [entries, setEntries] = useState<UnansweredQuestion[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await getGapLogStore().getEntries())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load unanswered questions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const gaps = useMemo(
+    () => buildGapReport(entries, { similarity, maxExamples }),
+    [entries, similarity, maxExamples]
+  )
+
+  /** Remove a gap's questions from the log, once it's covered or dismissed */
+  const resolve = useCallback(async (gap: KnowledgeGap) => {
+    try {
+      await getGapLogStore().removeEntries(gap.entryIds)
+      const removed = new Set(gap.entryIds)
+      setEntries(prev => prev.filter(entry => !removed.has(entry.id)))
+      return true
+    } catch (err) {
+      console.error('Failed to resolve knowledge gap:', err)
+      return false
+    }
+  }, [])
+
+  return { entries, gaps, isLoading, error, reload, resolve, isShared: getGapLogStore().shared === true }
+}
@@ -0,0 +1,291 @@
+/**
+ * Message Search Index
+ *
+ * Client-side full-text index over every message in every conversation.
+ * Tokenizes message bodies into an inverted index, matches query terms as
+ * prefixes, ranks with BM25 and builds highlighted snippets.
+ *
+ * @example
+ * ```tsx
+ * import { createMessageSearchIndex } from '@/utils/messageSearch'
+ *
+ * const index = createMessageSearchIndex()
+ * index.sync(conversations) // only new or changed messages are re-tokenized
+ * const results = index.search('refund poli')
+ * // results[0].snippet -> [{ text: '...our ', highlight: false }, { text: 'refund', highlight: true }, ...]
+ * ```
+ */
+
+import type { Conversation, Message } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SnippetPart {
+  text: string
+  highlight: boolean
+}
+
+export interface MessageSearchResult {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: Message['role']
+  timestamp: Date
+  score: number
+  snippet: SnippetPart[]
+}
+
+export interface MessageSearchOptions {
+  /** Maximum number of results (default 50) */
+  limit?: number
+  /** Characters of context around the first match (default 60) */
+  snippetRadius?: number
+}
+
+export interface MessageSearchIndex {
+  /** Index a message, replacing any earlier version of it */
+  addMessage: (conversation: Conversation, message: Message) => void
+  removeMessage: (conversationId: string, messageId: string) => void
+  removeConversation: (conversationId: string) => void
+  /**
+   * Bring the index in line with the conversation list. Messages are
+   * compared by object identity, so only new or edited ones are re-tokenized.
+   */
+  sync: (conversations: Conversation[]) => void
+  search: (query: string, options?: MessageSearchOptions) => MessageSearchResult[]
+  /** Number of indexed messages */
+  size: () => number
+}
+
+interface IndexedMessage {
+  conversationId: string
+  message: Message
+  length: number
+}
+
+// =============================================================================
+// Tokenization
+// =============================================================================
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+// Common words that would match almost every message
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'with', 'you', 'your',
+])
+
+/**
+ * Lowercase and strip accents so "Café" matches "cafe"
+ */
+export function normalizeToken(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+/**
+ * Split text into normalized search tokens
+ */
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(normalizeToken).filter(token => !STOP_WORDS.has(token))
+}
+
+// =============================================================================
+// Snippets
+// =============================================================================
+
+/**
+ * Cut a window of text around the first word matching a query term and mark
+ * every matching word in it
+ */
+export function buildSnippet(text: string, terms: string[], radius = 60): SnippetPart[] {
+  const matches: { start: number; end: number }[] = []
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const token = normalizeToken(match[0])
+    if (terms.some(term => token.startsWith(term))) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length })
+    }
+  }
+
+  const first = matches[0]
+  let start = first ? Math.max(0, first.start - radius) : 0
+  let end = first ? Math.min(text.length, first.end + radius * 2) : Math.min(text.length, radius * 3)
+
+  // Don't cut words in half at the window edges
+  if (start > 0) {
+    const space = text.indexOf(' ', start)
+    if (space !== -1 && (!first || space < first.start)) start = space + 1
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end)
+    if (space > (first ? first.end : start)) end = space
+  }
+
+  const parts: SnippetPart[] = []
+  const push = (value: string, highlight: boolean) => {
+    // Collapse newlines so the snippet fits on one line
+    const cleaned = value.replace(/\s+/g, ' ')
+    if (cleaned) parts.push({ text: cleaned, highlight })
+  }
+
+  if (start > 0) push('…', false)
+  let cursor = start
+  matches
+    .filter(match => match.start >= start && match.end <= end)
+    .forEach(match => {
+      push(text.slice(cursor, match.start), false)
+      push(text.slice(match.start, match.end), true)
+      cursor = match.end
+    })
+  push(text.slice(cursor, end), false)
+  if (end < text.length) push('…', false)
+
+  return parts
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+// Prefix-only matches count for less than whole-word matches
+const PREFIX_WEIGHT = 0.6
+
+const docKey = (conversationId: string, messageId: string) => `${conversationId}\u0000${messageId}`
+
+/**
+ * Create an empty message search index
+ */
+export function createMessageSearchIndex(): MessageSearchIndex {
+  // token -> document key -> term frequency
+  const postings = new Map<string, Map<string, number>>()
+  const documents = new Map<string, IndexedMessage>()
+  const conversationTitles = new Map<string, string>()
+  let totalLength = 0
+
+  const removeDocument = (key: string) => {
+    const doc = documents.get(key)
+    if (!doc) return
+
+    new Set(tokenize(doc.message.content)).forEach(token => {
+      const docs = postings.get(token)
+      docs?.delete(key)
+      if (docs && docs.size === 0) postings.delete(token)
+    })
+    totalLength -= doc.length
+    documents.delete(key)
+  }
+
+  const addMessage = (conversation: Conversation, message: Message) => {
+    const key = docKey(conversation.id, message.id)
+    removeDocument(key)
+    conversationTitles.set(conversation.id, conversation.title)
+
+    const tokens = tokenize(message.content)
+    const frequencies = new Map<string, number>()
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1))
+    frequencies.forEach((count, token) => {
+      if (!postings.has(token)) postings.set(token, new Map())
+      postings.get(token)!.set(key, count)
+    })
+
+    documents.set(key, { conversationId: conversation.id, message, length: tokens.length })
+    totalLength += tokens.length
+  }
+
+  const removeConversation = (conversationId: string) => {
+    const prefix = `${conversationId}\u0000`
+    const keys = [...documents.keys()].filter(key => key.startsWith(prefix))
+    keys.forEach(removeDocument)
+    conversationTitles.delete(conversationId)
+  }
+
+  return {
+    addMessage,
+
+    removeMessage: (conversationId, messageId) => removeDocument(docKey(conversationId, messageId)),
+
+    removeConversation,
+
+    sync: conversations => {
+      const liveKeys = new Set<string>()
+
+      conversations.forEach(conversation => {
+        conversationTitles.set(conversation.id, conversation.title)
+        conversation.messages.forEach(message => {
+          const key = docKey(conversation.id, message.id)
+          liveKeys.add(key)
+          if (documents.get(key)?.message !== message) {
+            addMessage(conversation, message)
+          }
+        })
+      })
+
+      const staleKeys = [...documents.keys()].filter(key => !liveKeys.has(key))
+      staleKeys.forEach(removeDocument)
+
+      const liveConversations = new Set(conversations.map(conversation => conversation.id))
+      const staleConversations = [...conversationTitles.keys()].filter(id => !liveConversations.has(id))
+      staleConversations.forEach(id => conversationTitles.delete(id))
+    },
+
+    search: (query, options = {}) => {
+      const { limit = 50, snippetRadius = 60 } = options
+      const terms = [...new Set(tokenize(query))]
+      if (terms.length === 0 || documents.size === 0) return []
+
+      const averageLength = totalLength / documents.size || 1
+      const scores = new Map<string, number>()
+
+      // Every term must match (as a whole word or a prefix) for a message to be a result
+      terms.forEach((term, termIndex) => {
+        const termScores = new Map<string, number>()
+
+        postings.forEach((docs, token) => {
+          if (!token.startsWith(term)) return
+          const weight = token === term ? 1 : PREFIX_WEIGHT
+          const idf = Math.log(1 + (documents.size - docs.size + 0.5) / (docs.size + 0.5))
+
+          docs.forEach((frequency, key) => {
+            const length = documents.get(key)!.length
+            const tf = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * length) / averageLength))
+            termScores.set(key, Math.max(termScores.get(key) || 0, weight * idf * tf))
+          })
+        })
+
+        if (termIndex === 0) {
+          termScores.forEach((score, key) => scores.set(key, score))
+        } else {
+          for (const key of [...scores.keys()]) {
+            const termScore = termScores.get(key)
+            if (termScore === undefined) {
+              scores.delete(key)
+            } else {
+              scores.set(key, scores.get(key)! + termScore)
+            }
+          }
+        }
+      })
+
+      return [...scores.entries()]
+        .map(([key, score]) => ({ doc: documents.get(key)!, score }))
+        // Best match first, newest first among equals
+        .sort((a, b) => b.score - a.score || b.doc.message.timestamp.getTime() - a.doc.message.timestamp.getTime())
+        .slice(0, limit)
+        .map(({ doc, score }) => ({
+          conversationId: doc.conversationId,
+          conversationTitle: conversationTitles.get(doc.conversationId) || '',
+          messageId: doc.message.id,
+          role: doc.message.role,
+          timestamp: doc.message.timestamp,
+          score,
+          snippet: buildSnippet(doc.message.content, terms, snippetRadius),
+        }))
+    },
+
+    size: () => documents.size,
+  }
+}
@@ -7,10 +7,17 @@
  * - PDF (.pdf) - application/pdf
  * - DOCX (.docx) - application/vnd.openxmlformats-officedocument.wordprocessingml.document
  * - TXT (.txt) - text/plain
+ * - Markdown (.md, .markdown) - text/markdown
+ * - HTML (.html, .htm) - text/html
+ * - CSV FAQ (.csv) - text/csv
+ * - JSON FAQ (.json) - application/json
+ *
+ * PDF, DOCX and TXT go through the Lyzr Parse API; the others are converted
+ * and chunked in the browser (see documentConverters).
  *
  * @example
  * ```tsx
- * import { getDocuments, uploadAndTrainDocument, deleteDocuments } from '@/utils/ragKnowledgeBase'
+ * import { getDocuments, uploadAndTrainDocument, deleteDocuments, retrieveChunks } from '@/utils/ragKnowledgeBase'
  *
  * // Get all documents in a knowledge base
  * const docs = await getDocuments('your-rag-id')
@@ -20,23 +27,36 @@
  *
  * // Delete documents from knowledge base
  * await deleteDocuments('your-rag-id', ['document1.pdf', 'document2.txt'])
+ *
+ * // See which chunks a question retrieves
+ * const { chunks } = await retrieveChunks('your-rag-id', 'How do returns work?', { topK: 5 })
  * ```
  */
 
 import { useState } from 'react'
+import { fetchWithRetry, type RetryOption } from '@/utils/retry'
+import { createRequestSignal, type RequestSignalOptions } from '@/utils/requestSignal'
+import { getAppConfig } from '@/utils/appConfig'
+import { recordDocumentMetadata, removeDocumentMetadata, withDocumentMetadata } from '@/utils/documentMetadata'
+import { convertDocument, type ConvertibleFileType } from '@/utils/documentConverters'
+import { normalizeSources, toStorageSource, type Source } from '@/utils/sources'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
+const getRagBaseUrl = () => getAppConfig().api.ragBaseUrl
 const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
 
-// Supported file types with their parsers
-const FILE_TYPE_CONFIG: Record<string, { type: 'pdf' | 'docx' | 'txt'; parser: string }> = {
+// Supported file types with their parsers - types without one are converted in the browser
+const FILE_TYPE_CONFIG: Record<string, { type: RAGFileType; parser?: string }> = {
   'application/pdf': { type: 'pdf', parser: 'pypdf' },
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { type: 'docx', parser: 'docx2txt' },
   'text/plain': { type: 'txt', parser: 'txt_parser' },
+  'text/markdown': { type: 'md' },
+  'text/html': { type: 'html' },
+  'text/csv': { type: 'csv' },
+  'application/json': { type: 'json' },
 }
 
 // =============================================================================
@@ -50,10 +70,16 @@ export const SUPPORTED_FILE_TYPES = [
   'application/pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   'text/plain',
+  'text/markdown',
+  'text/html',
+  'text/csv',
+  'application/json',
 ] as const
 
 export type SupportedFileType = typeof SUPPORTED_FILE_TYPES[number]
 
+export type RAGFileType = 'pdf' | 'docx' | 'txt' | ConvertibleFileType
+
 /**
  * File extension to MIME type mapping
  */
@@ -61,12 +87,44 @@ export const FILE_EXTENSION_MAP: Record<string, SupportedFileType> = {
   '.pdf': 'application/pdf',
   '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+}
+
+/**
+ * Extensions accepted for upload, e.g. for an input's `accept` attribute
+ */
+export const SUPPORTED_FILE_EXTENSIONS = Object.keys(FILE_EXTENSION_MAP)
+
+/**
+ * Options accepted by the RAG API functions
+ */
+export interface RAGRequestOptions {
+  /** Retry policy overrides, or false to disable retries (see DEFAULT_RETRY_POLICY) */
+  retry?: RetryOption
+}
+
+/**
+ * Stages of uploadAndTrainDocument, in order
+ */
+export type UploadStage = 'parsing' | 'training'
+
+/**
+ * Options accepted by uploadAndTrainDocument (signal/timeout cancel the upload)
+ */
+export interface UploadRequestOptions extends RAGRequestOptions, RequestSignalOptions {
+  /** Called as each stage starts */
+  onStage?: (stage: UploadStage) => void
 }
 
 export interface RAGDocument {
   id?: string
   fileName: string
-  fileType: 'pdf' | 'docx' | 'txt'
+  fileType: RAGFileType
   fileSize?: number
   status?: 'processing' | 'active' | 'failed' | 'deleted'
   uploadedAt?: string
@@ -92,6 +150,62 @@ export interface UploadResponse {
   ragId?: string
   error?: string
   details?: string
+  /** True if the caller cancelled the upload via its AbortSignal */
+  aborted?: boolean
+  timestamp?: string
+}
+
+/**
+ * A text chunk as returned by the parse API and accepted by the train API
+ */
+export interface RAGTrainingDocument {
+  id_: string
+  text: string
+  metadata: Record<string, unknown>
+}
+
+export interface TrainResponse {
+  success: boolean
+  documentCount?: number
+  ragId?: string
+  error?: string
+  details?: string
+  /** True if the caller cancelled training via its AbortSignal */
+  aborted?: boolean
+  timestamp?: string
+}
+
+export type RetrievalType = 'basic' | 'mmr' | 'hyde'
+
+/**
+ * Options accepted by retrieveChunks
+ */
+export interface RetrieveOptions extends RAGRequestOptions, RequestSignalOptions {
+  /** Chunks to return (default 5) */
+  topK?: number
+  /** Drop chunks scoring below this, 0-1 (default 0) */
+  scoreThreshold?: number
+  /** basic = similarity, mmr = similarity with diversity, hyde = search with a generated answer */
+  retrievalType?: RetrievalType
+}
+
+/**
+ * A chunk retrieved for a query, normalized like agent sources
+ */
+export interface RetrievedChunk extends Source {
+  /** Metadata stored with the chunk */
+  metadata: Record<string, unknown>
+}
+
+export interface RetrieveResponse {
+  success: boolean
+  /** Highest score first */
+  chunks?: RetrievedChunk[]
+  ragId?: string
+  error?: string
+  details?: string
+  /** True if the caller cancelled the request via its AbortSignal */
+  aborted?: boolean
   timestamp?: string
 }
 
@@ -119,32 +233,68 @@ export function isFileTypeSupported(fileType: string): fileType is SupportedFile
 /**
  * Get file type enum from MIME type
  */
-export function getFileTypeFromMime(mimeType: string): 'pdf' | 'docx' | 'txt' | null {
-  switch (mimeType) {
-    case 'application/pdf':
-      return 'pdf'
-    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-      return 'docx'
-    case 'text/plain':
-      return 'txt'
-    default:
-      return null
-  }
+export function getFileTypeFromMime(mimeType: string): RAGFileType | null {
+  return FILE_TYPE_CONFIG[mimeType]?.type ?? null
+}
+
+/**
+ * Get file type enum from a file name's extension
+ */
+export function getFileTypeFromName(fileName: string): RAGFileType | null {
+  const extension = fileName.match(/\.[^./]+$/)?.[0].toLowerCase()
+  return extension && FILE_EXTENSION_MAP[extension] ? getFileTypeFromMime(FILE_EXTENSION_MAP[extension]) : null
+}
+
+/**
+ * MIME type to upload a file as. The extension wins: browsers report
+ * Markdown as "" or text/plain and CSV as application/vnd.ms-excel.
+ */
+export function getFileMimeType(file: File): SupportedFileType | null {
+  const extension = file.name.match(/\.[^./]+$/)?.[0].toLowerCase()
+  if (extension && FILE_EXTENSION_MAP[extension]) return FILE_EXTENSION_MAP[extension]
+  return isFileTypeSupported(file.type) ? file.type : null
 }
 
 /**
  * Validate a file before upload
  */
 export function validateFile(file: File): { isValid: boolean; error?: string } {
-  if (!isFileTypeSupported(file.type)) {
+  if (!getFileMimeType(file)) {
     return {
       isValid: false,
-      error: `Unsupported file type: ${file.type}. Only PDF, DOCX, and TXT files are supported.`,
+      error: `Unsupported file type: ${file.type || file.name}. Supported: PDF, DOCX, TXT, Markdown, HTML and CSV/JSON FAQs.`,
     }
   }
   return { isValid: true }
 }
 
+function postTrainingDocuments(ragId: string, documents: unknown[], signal: AbortSignal, retry?: RetryOption) {
+  return fetchWithRetry(`${getRagBaseUrl()}/rag/train/${ragId}/`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+    },
+    body: JSON.stringify(documents),
+    signal,
+  }, retry)
+}
+
+/**
+ * Build a training document from a chunk of text. `metadata` is stored with
+ * the chunk and comes back in agent sources - a `url` makes citations link to it.
+ */
+export function createTrainingDocument(text: string, metadata: Record<string, unknown> = {}): RAGTrainingDocument {
+  return {
+    id_: typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : `doc-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+    text,
+    metadata,
+  }
+}
+
 // =============================================================================
 // API Functions
 // =============================================================================
@@ -153,6 +303,7 @@ export function validateFile(file: File): { isValid: boolean; error?: string } {
  * Get all documents in a RAG knowledge base
  *
  * @param ragId - RAG Knowledge Base ID (required)
+ * @param options - Optional retry policy
  * @returns Promise with list of documents
  *
  * @example
@@ -163,7 +314,10 @@ export function validateFile(file: File): { isValid: boolean; error?: string } {
  * }
  * ```
  */
-export async function getDocuments(ragId: string): Promise<GetDocumentsResponse> {
+export async function getDocuments(
+  ragId: string,
+  options?: RAGRequestOptions
+): Promise<GetDocumentsResponse> {
   try {
     if (!ragId) {
       return { success: false, error: 'ragId is required' }
@@ -173,13 +327,13 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
-    const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/documents/${ragId}/`, {
+    const response = await fetchWithRetry(`${getRagBaseUrl()}/rag/documents/${ragId}/`, {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
         'x-api-key': LYZR_API_KEY,
       },
-    })
+    }, options?.retry)
 
     // Return empty array for 404 (no documents yet)
     if (response.status === 404) {
@@ -205,14 +359,9 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
           ? docPath.slice(8)
           : docPath
 
-        const ext = fileName.split('.').pop()?.toLowerCase() || ''
-        let fileType: 'pdf' | 'docx' | 'txt' = 'txt'
-        if (ext === 'pdf') fileType = 'pdf'
-        else if (ext === 'docx') fileType = 'docx'
-
         return {
           fileName,
-          fileType,
+          fileType: getFileTypeFromName(fileName) || 'txt',
           status: 'active' as const,
         }
       })
@@ -220,7 +369,7 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
 
     return {
       success: true,
-      documents,
+      documents: withDocumentMetadata(ragId, documents),
       ragId,
       timestamp: new Date().toISOString(),
     }
@@ -239,11 +388,14 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
  *
  * Process:
  * 1. Validate file type
- * 2. Parse document using Lyzr Parse API (extracts text chunks)
+ * 2. Parse document using Lyzr Parse API (extracts text chunks), or convert
+ *    Markdown/HTML/CSV/JSON into chunks in the browser
  * 3. Train knowledge base with parsed document chunks
  *
  * @param ragId - RAG Knowledge Base ID (required)
- * @param file - File to upload (PDF, DOCX, or TXT)
+ * @param file - File to upload (PDF, DOCX, TXT, Markdown, HTML, CSV or JSON)
+ * @param options - Optional retry policy (applies to both the parse and train requests),
+ *   cancellation signal/timeout and stage callback
  * @returns Promise with upload result
  *
  * @example
@@ -256,8 +408,10 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
  */
 export async function uploadAndTrainDocument(
   ragId: string,
-  file: File
+  file: File,
+  options?: UploadRequestOptions
 ): Promise<UploadResponse> {
+  const request = createRequestSignal(options)
   try {
     if (!ragId) {
       return { success: false, error: 'ragId is required' }
@@ -273,89 +427,274 @@ export async function uploadAndTrainDocument(
       return { success: false, error: validation.error }
     }
 
-    const fileConfig = FILE_TYPE_CONFIG[file.type]
+    const fileConfig = FILE_TYPE_CONFIG[getFileMimeType(file)]
     if (!fileConfig) {
       return { success: false, error: `Unsupported file type: ${file.type}` }
     }
 
-    // STEP 1: Parse document using Lyzr Parse API
-    const parseFormData = new FormData()
-    parseFormData.append('file', file)
-    parseFormData.append('data_parser', fileConfig.parser)
-    parseFormData.append('extra_info', '{}')
+    // STEP 1: Parse document using Lyzr Parse API, or convert it in the browser
+    options?.onStage?.('parsing')
+    let documents: unknown[]
+    if (!fileConfig.parser) {
+      const converted = convertDocument(await file.text(), file.name, fileConfig.type as ConvertibleFileType)
+      if (!converted.success) {
+        return { success: false, error: `Document conversion failed: ${converted.error}` }
+      }
+      documents = converted.chunks.map(chunk => createTrainingDocument(chunk.text, chunk.metadata))
+    } else {
+      const parseFormData = new FormData()
+      parseFormData.append('file', file)
+      parseFormData.append('data_parser', fileConfig.parser)
+      parseFormData.append('extra_info', '{}')
+
+      // Add chunking parameters for PDF (better RAG performance)
+      if (fileConfig.type === 'pdf') {
+        parseFormData.append('chunk_size', '1000')
+        parseFormData.append('chunk_overlap', '100')
+      }
 
-    // Add chunking parameters for PDF (better RAG performance)
-    if (fileConfig.type === 'pdf') {
-      parseFormData.append('chunk_size', '1000')
-      parseFormData.append('chunk_overlap', '100')
-    }
+      const parseUrl = `${getRagBaseUrl()}/parse/${fileConfig.type}/`
 
-    const parseUrl = `${LYZR_RAG_BASE_URL}/parse/${fileConfig.type}/`
+      const parseResponse = await fetchWithRetry(parseUrl, {
+        method: 'POST',
+        headers: {
+          'x-api-key': LYZR_API_KEY,
+        },
+        body: parseFormData,
+        signal: request.signal,
+      }, options?.retry)
 
-    const parseResponse = await fetch(parseUrl, {
-      method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: parseFormData,
-    })
+      if (!parseResponse.ok) {
+        const errorText = await parseResponse.text()
+        return {
+          success: false,
+          error: `Document parsing failed: ${parseResponse.statusText}`,
+          details: errorText,
+        }
+      }
+
+      const parseResult = await parseResponse.json()
+
+      if (!parseResult.documents || !Array.isArray(parseResult.documents)) {
+        return {
+          success: false,
+          error: 'Invalid response format from document parsing',
+        }
+      }
+
+      documents = parseResult.documents
+    }
+
+    // STEP 2: Train knowledge base with parsed documents
+    options?.onStage?.('training')
+    const trainResponse = await postTrainingDocuments(ragId, documents, request.signal, options?.retry)
 
-    if (!parseResponse.ok) {
-      const errorText = await parseResponse.text()
+    if (!trainResponse.ok) {
+      const errorText = await trainResponse.text()
       return {
         success: false,
-        error: `Document parsing failed: ${parseResponse.statusText}`,
+        error: `Knowledge base training failed: ${trainResponse.statusText}`,
         details: errorText,
       }
     }
 
-    const parseResult = await parseResponse.json()
+    recordDocumentMetadata(ragId, file.name, {
+      uploadedAt: new Date().toISOString(),
+      fileSize: file.size,
+      documentCount: documents.length,
+    })
 
-    if (!parseResult.documents || !Array.isArray(parseResult.documents)) {
+    return {
+      success: true,
+      message: 'Document uploaded and trained successfully',
+      fileName: file.name,
+      fileType: fileConfig.type,
+      documentCount: documents.length,
+      ragId,
+      timestamp: new Date().toISOString(),
+    }
+  } catch (error) {
+    const abortReason = request.abortReason()
+    if (abortReason === 'cancelled') {
+      return { success: false, error: 'Upload cancelled', aborted: true }
+    }
+    if (abortReason === 'timeout') {
+      return { success: false, error: 'Upload timed out. Please try again.' }
+    }
+    console.error('Upload document failed:', error)
+    return {
+      success: false,
+      error: 'Failed to upload document',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  } finally {
+    request.cleanup()
+  }
+}
+
+/**
+ * Train a knowledge base with already-chunked documents - text that didn't
+ * come from a file the parse API understands (web pages, FAQs, ...)
+ *
+ * @param ragId - RAG Knowledge Base ID (required)
+ * @param documents - Chunks to train, see createTrainingDocument
+ * @param options - Optional retry policy and cancellation signal/timeout
+ * @returns Promise with train result
+ *
+ * @example
+ * ```tsx
+ * const documents = chunkText(pageText).map(text => createTrainingDocument(text, { url, title }))
+ * const result = await trainDocuments('68eba8c8bc2960ccbdf1b1a0', documents)
+ * ```
+ */
+export async function trainDocuments(
+  ragId: string,
+  documents: RAGTrainingDocument[],
+  options?: RAGRequestOptions & RequestSignalOptions
+): Promise<TrainResponse> {
+  const request = createRequestSignal(options)
+  try {
+    if (!ragId) {
+      return { success: false, error: 'ragId is required' }
+    }
+
+    if (!LYZR_API_KEY) {
+      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
+    }
+
+    if (!documents || documents.length === 0) {
+      return { success: false, error: 'documents array is required and must not be empty' }
+    }
+
+    const response = await postTrainingDocuments(ragId, documents, request.signal, options?.retry)
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error')
       return {
         success: false,
-        error: 'Invalid response format from document parsing',
+        error: `Knowledge base training failed: ${response.statusText}`,
+        details: errorText,
       }
     }
 
-    // STEP 2: Train knowledge base with parsed documents
-    const trainUrl = `${LYZR_RAG_BASE_URL}/rag/train/${ragId}/`
+    return {
+      success: true,
+      documentCount: documents.length,
+      ragId,
+      timestamp: new Date().toISOString(),
+    }
+  } catch (error) {
+    const abortReason = request.abortReason()
+    if (abortReason === 'cancelled') {
+      return { success: false, error: 'Training cancelled', aborted: true }
+    }
+    if (abortReason === 'timeout') {
+      return { success: false, error: 'Training timed out. Please try again.' }
+    }
+    console.error('Train documents failed:', error)
+    return {
+      success: false,
+      error: 'Failed to train documents',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  } finally {
+    request.cleanup()
+  }
+}
+
+/**
+ * Retrieve the chunks a query matches, straight from the RAG index - what an
+ * agent using this knowledge base would get as context
+ *
+ * @param ragId - RAG Knowledge Base ID (required)
+ * @param query - Question to search for
+ * @param options - top-k, score threshold, retrieval type, retry policy and cancellation
+ * @returns Promise with retrieved chunks, highest score first
+ *
+ * @example
+ * ```tsx
+ * const result = await retrieveChunks('68eba8c8bc2960ccbdf1b1a0', 'refund window', { topK: 10, scoreThreshold: 0.3 })
+ * if (result.success) {
+ *   result.chunks?.forEach(chunk => console.log(chunk.score, chunk.title, chunk.chunkText))
+ * }
+ * ```
+ */
+export async function retrieveChunks(
+  ragId: string,
+  query: string,
+  options?: RetrieveOptions
+): Promise<RetrieveResponse> {
+  const request = createRequestSignal(options)
+  try {
+    if (!ragId) {
+      return { success: false, error: 'ragId is required' }
+    }
+
+    if (!LYZR_API_KEY) {
+      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
+    }
 
-    const trainResponse = await fetch(trainUrl, {
-      method: 'POST',
+    if (!query?.trim()) {
+      return { success: false, error: 'query is required' }
+    }
+
+    const params = new URLSearchParams({
+      query: query.trim(),
+      top_k: String(options?.topK ?? 5),
+      retrieval_type: options?.retrievalType || 'basic',
+      score_threshold: String(options?.scoreThreshold ?? 0),
+    })
+
+    const response = await fetchWithRetry(`${getRagBaseUrl()}/rag/${ragId}/retrieve/?${params}`, {
+      method: 'GET',
       headers: {
         'Accept': 'application/json',
-        'Content-Type': 'application/json',
         'x-api-key': LYZR_API_KEY,
       },
-      body: JSON.stringify(parseResult.documents),
-    })
+      signal: request.signal,
+    }, options?.retry)
 
-    if (!trainResponse.ok) {
-      const errorText = await trainResponse.text()
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error')
       return {
         success: false,
-        error: `Knowledge base training failed: ${trainResponse.statusText}`,
+        error: `Retrieval failed: ${response.statusText}`,
         details: errorText,
       }
     }
 
+    // API returns: [{ text, metadata, score }] or { results: [...] }, nodes possibly nested as { node, score }
+    const body = await response.json()
+    const rawChunks: any[] = Array.isArray(body) ? body : body?.results || body?.documents || body?.nodes || []
+    const flattened = rawChunks.filter(Boolean).map(chunk => (chunk.node ? { ...chunk.node, score: chunk.score } : chunk))
+    const chunks = normalizeSources(flattened)
+      .map((source, index) => ({ ...source, metadata: flattened[index]?.metadata || {} }))
+      .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+      // Number by rank
+      .map((chunk, index) => ({ ...chunk, index: index + 1 }))
+
     return {
       success: true,
-      message: 'Document uploaded and trained successfully',
-      fileName: file.name,
-      fileType: fileConfig.type,
-      documentCount: parseResult.documents.length,
+      chunks,
       ragId,
       timestamp: new Date().toISOString(),
     }
   } catch (error) {
-    console.error('Upload document failed:', error)
+    const abortReason = request.abortReason()
+    if (abortReason === 'cancelled') {
+      return { success: false, error: 'Retrieval cancelled', aborted: true }
+    }
+    if (abortReason === 'timeout') {
+      return { success: false, error: 'Retrieval timed out. Please try again.' }
+    }
+    console.error('Retrieve chunks failed:', error)
     return {
       success: false,
-      error: 'Failed to upload document',
+      error: 'Failed to retrieve chunks',
       details: error instanceof Error ? error.message : String(error),
     }
+  } finally {
+    request.cleanup()
   }
 }
 
@@ -364,6 +703,7 @@ export async function uploadAndTrainDocument(
  *
  * @param ragId - RAG Knowledge Base ID (required)
  * @param documents - Array of document file names to delete
+ * @param options - Optional retry policy
  * @returns Promise with delete result
  *
  * @example
@@ -376,7 +716,8 @@ export async function uploadAndTrainDocument(
  */
 export async function deleteDocuments(
   ragId: string,
-  documents: string[]
+  documents: string[],
+  options?: RAGRequestOptions
 ): Promise<DeleteResponse> {
   try {
     if (!ragId) {
@@ -392,16 +733,11 @@ export async function deleteDocuments(
     }
 
     // Format documents to include storage/ prefix if not present
-    const formattedDocuments = documents.map((doc: string) => {
-      if (doc.startsWith('storage/')) {
-        return doc
-      }
-      return `storage/${doc}`
-    })
+    const formattedDocuments = documents.map(toStorageSource)
 
-    const deleteUrl = `${LYZR_RAG_BASE_URL}/rag/${ragId}/docs/`
+    const deleteUrl = `${getRagBaseUrl()}/rag/${ragId}/docs/`
 
-    const response = await fetch(deleteUrl, {
+    const response = await fetchWithRetry(deleteUrl, {
       method: 'DELETE',
       headers: {
         'Accept': 'application/json',
@@ -409,7 +745,7 @@ export async function deleteDocuments(
         'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify(formattedDocuments),
-    })
+    }, options?.retry)
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error')
@@ -420,6 +756,8 @@ export async function deleteDocuments(
       }
     }
 
+    removeDocumentMetadata(ragId, documents.map(doc => (doc.startsWith('storage/') ? doc.slice(8) : doc)))
+
     return {
       success: true,
       message: 'Documents deleted successfully',
@@ -0,0 +1,89 @@
+/**
+ * Request Cancellation Utility
+ *
+ * Combines a caller-provided AbortSignal with an optional timeout so every
+ * agent/RAG request can be cancelled the same way.
+ *
+ * @example
+ * ```tsx
+ * const request = createRequestSignal({ signal: controller.signal, timeout: 30000 })
+ * try {
+ *   const response = await fetch(url, { signal: request.signal })
+ * } catch (error) {
+ *   if (request.abortReason() === 'cancelled') {
+ *     // Caller aborted - not an error worth showing
+ *   }
+ * } finally {
+ *   request.cleanup()
+ * }
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Cancellation options accepted by agent and RAG calls
+ */
+export interface RequestSignalOptions {
+  /** Abort the request when this signal fires */
+  signal?: AbortSignal
+  /** Abort the request after this many milliseconds */
+  timeout?: number
+}
+
+export type AbortReason = 'cancelled' | 'timeout' | null
+
+export interface RequestSignal {
+  /** Signal to pass to fetch */
+  signal: AbortSignal
+  /** Why the request was aborted, or null if it wasn't */
+  abortReason: () => AbortReason
+  /** Clear the timeout and detach from the caller's signal */
+  cleanup: () => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Create a signal that aborts when the caller's signal fires or the timeout elapses
+ */
+export function createRequestSignal(options?: RequestSignalOptions): RequestSignal {
+  const controller = new AbortController()
+  const parent = options?.signal
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const onParentAbort = () => controller.abort(parent?.reason)
+
+  if (parent) {
+    if (parent.aborted) {
+      controller.abort(parent.reason)
+    } else {
+      parent.addEventListener('abort', onParentAbort, { once: true })
+    }
+  }
+
+  if (options?.timeout && options.timeout > 0) {
+    timer = setTimeout(() => {
+      timedOut = true
+      controller.abort(new DOMException(`Request timed out after ${options.timeout}ms`, 'TimeoutError'))
+    }, options.timeout)
+  }
+
+  return {
+    signal: controller.signal,
+    abortReason: () => {
+      if (parent?.aborted) return 'cancelled'
+      if (timedOut) return 'timeout'
+      return null
+    },
+    cleanup: () => {
+      if (timer) clearTimeout(timer)
+      parent?.removeEventListener('abort', onParentAbort)
+    },
+  }
+}
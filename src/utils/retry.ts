@@ -0,0 +1,226 @@
+/**
+ * Retry Utility
+ *
+ * Shared retry policy for agent and RAG API calls: exponential backoff with
+ * jitter, Retry-After support and a whitelist of retryable status codes.
+ *
+ * @example
+ * ```tsx
+ * import { fetchWithRetry, createRetryLog } from '@/utils/retry'
+ *
+ * const log = createRetryLog()
+ * const response = await fetchWithRetry(url, { method: 'GET' }, { maxAttempts: 5 }, log)
+ * console.log(log.attempts, log.errors)
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number
+  /** Delay before the first retry; doubles on each further retry */
+  baseDelayMs: number
+  /** Upper bound for the backoff delay */
+  maxDelayMs: number
+  /** Randomize delays (full jitter) so clients don't retry in lockstep */
+  jitter: boolean
+  /** Honor the server's Retry-After header when present */
+  respectRetryAfter: boolean
+  /** Upper bound for a Retry-After delay */
+  maxRetryAfterMs: number
+  /** HTTP status codes worth retrying */
+  retryableStatuses: number[]
+  /** Retry when fetch itself fails (DNS, connection reset, offline) */
+  retryOnNetworkError: boolean
+}
+
+/**
+ * One failed attempt that was (or would have been) retried
+ */
+export interface RetryAttemptError {
+  /** 1-based attempt number */
+  attempt: number
+  /** HTTP status, if the server responded */
+  status?: number
+  /** Error description */
+  error: string
+  /** Delay before the next attempt, if one was made */
+  delayMs?: number
+}
+
+/**
+ * Record of attempts made by fetchWithRetry
+ */
+export interface RetryLog {
+  attempts: number
+  errors: RetryAttemptError[]
+}
+
+/**
+ * Retry option accepted by API functions: a partial policy, or false to disable retries
+ */
+export type RetryOption = Partial<RetryPolicy> | false
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+  respectRetryAfter: true,
+  maxRetryAfterMs: 30000,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Create an empty retry log
+ */
+export function createRetryLog(): RetryLog {
+  return { attempts: 0, errors: [] }
+}
+
+/**
+ * Merge a retry option with the defaults
+ */
+export function resolveRetryPolicy(retry?: RetryOption): RetryPolicy {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...retry }
+}
+
+/**
+ * Backoff delay before the given retry (1 = first retry)
+ */
+export function getBackoffDelay(retryNumber: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retryNumber - 1))
+  return policy.jitter ? Math.round(Math.random() * exponential) : exponential
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return null
+}
+
+/**
+ * Sleep that rejects as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// =============================================================================
+// Main API Function
+// =============================================================================
+
+/**
+ * fetch() with retries
+ *
+ * Retries network errors and retryable status codes according to the policy.
+ * Returns the last response (which may still be an error response) once it
+ * succeeds, isn't retryable, or attempts run out. Rethrows the last network
+ * error if no response was ever received. Aborting init.signal stops retrying
+ * immediately.
+ *
+ * @param url - Request URL
+ * @param init - fetch init (signal is respected between attempts too)
+ * @param retry - Partial policy merged with DEFAULT_RETRY_POLICY, or false for a single attempt
+ * @param log - Optional log that receives the attempt count and per-attempt errors
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  retry?: RetryOption,
+  log: RetryLog = createRetryLog()
+): Promise<Response> {
+  const policy = resolveRetryPolicy(retry)
+  const maxAttempts = Math.max(1, policy.maxAttempts)
+
+  for (let attempt = 1; ; attempt++) {
+    log.attempts = attempt
+    const isLastAttempt = attempt >= maxAttempts
+
+    let response: Response
+    try {
+      response = await fetch(url, init)
+    } catch (error) {
+      // Never retry a cancelled request
+      if (init.signal?.aborted) throw error
+
+      const attemptError: RetryAttemptError = {
+        attempt,
+        error: error instanceof Error ? error.message : String(error),
+      }
+      log.errors.push(attemptError)
+
+      if (isLastAttempt || !policy.retryOnNetworkError) throw error
+
+      attemptError.delayMs = getBackoffDelay(attempt, policy)
+      await sleep(attemptError.delayMs, init.signal)
+      continue
+    }
+
+    if (response.ok || !policy.retryableStatuses.includes(response.status)) {
+      return response
+    }
+
+    const attemptError: RetryAttemptError = {
+      attempt,
+      status: response.status,
+      error: `API returned status ${response.status}`,
+    }
+    log.errors.push(attemptError)
+
+    if (isLastAttempt) return response
+
+    const retryAfter = policy.respectRetryAfter ? parseRetryAfter(response.headers.get('Retry-After')) : null
+    attemptError.delayMs = retryAfter !== null
+      ? Math.min(retryAfter, policy.maxRetryAfterMs)
+      : getBackoffDelay(attempt, policy)
+
+    // Release the connection before waiting
+    await response.body?.cancel().catch(() => undefined)
+    await sleep(attemptError.delayMs, init.signal)
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Source Citation Utility
+ *
+ * Normalizes whatever the RAG agent returns in `result.sources` (plain strings,
+ * URLs, or objects with assorted field names) into a typed Source model, and
+ * splits answer text around inline citation markers like `[1]`.
+ *
+ * @example
+ * ```tsx
+ * import { normalizeSources, splitCitations } from '@/utils/sources'
+ *
+ * const sources = normalizeSources(response.result.sources)
+ * const parts = splitCitations('Returns take 5 days [1].', sources.length)
+ * // [{ type: 'text', text: 'Returns take 5 days ' }, { type: 'citation', index: 1 }, { type: 'text', text: '.' }]
+ * ```
+ */
+
+import type { RAGDocument } from '@/utils/ragKnowledgeBase'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single retrieved source backing an agent answer
+ */
+export interface Source {
+  /** 1-based citation number, matches `[n]` markers in the answer */
+  index: number
+  /** Display title */
+  title: string
+  /** Web URL, if the source came from a crawled page */
+  url?: string
+  /** Knowledge base document name, e.g. "return-policy.pdf" */
+  documentName?: string
+  /** Retrieved chunk text */
+  chunkText?: string
+  /** Page number within the document */
+  page?: number
+  /** Heading path or FAQ category within the document */
+  section?: string
+  /** Retrieval similarity score */
+  score?: number
+}
+
+export type CitationPart =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; index: number }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>)\]]+/
+
+function pickString(obj: Record<string, any>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = obj[key]
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return undefined
+}
+
+function pickNumber(obj: Record<string, any>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = typeof obj[key] === 'string' ? Number(obj[key]) : obj[key]
+    if (typeof value === 'number' && !isNaN(value)) return value
+  }
+  return undefined
+}
+
+/**
+ * Document source as the knowledge base lists and deletes it: "storage/<name>".
+ * The parse API tags chunks this way; chunks trained from the browser must
+ * match it, or deleting the document by name leaves them behind.
+ */
+export function toStorageSource(name: string): string {
+  return name.startsWith('storage/') ? name : `storage/${name}`
+}
+
+/**
+ * Strip the "storage/" prefix and any directories from a document path
+ */
+export function getDocumentBaseName(name: string): string {
+  const withoutPrefix = name.startsWith('storage/') ? name.slice(8) : name
+  return withoutPrefix.split('/').pop() || withoutPrefix
+}
+
+function titleFromUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const path = parsed.pathname.replace(/\/$/, '')
+    return path ? `${parsed.hostname}${path}` : parsed.hostname
+  } catch {
+    return url
+  }
+}
+
+// Only web links are kept - a javascript: or data: URL from metadata would run when clicked
+function safeUrl(raw: string | undefined): string | undefined {
+  if (!raw) return undefined
+  try {
+    const { protocol } = new URL(raw)
+    return protocol === 'http:' || protocol === 'https:' ? raw : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function normalizeSource(raw: any, index: number): Source | null {
+  if (raw === null || raw === undefined) return null
+
+  if (typeof raw === 'string') {
+    const text = raw.trim()
+    if (!text) return null
+
+    const url = text.match(URL_PATTERN)?.[0]
+    if (url) {
+      // "Shipping FAQ - https://..." keeps the label as the title
+      const label = text.replace(url, '').replace(/[\s\-–:|()]+$/, '').replace(/^[\s\-–:|()]+/, '')
+      return { index, title: label || titleFromUrl(url), url }
+    }
+
+    // Bare file names are knowledge base documents
+    if (/\.[a-z0-9]{2,5}$/i.test(text) && !/\s/.test(text)) {
+      const documentName = getDocumentBaseName(text)
+      return { index, title: documentName, documentName }
+    }
+
+    return { index, title: text }
+  }
+
+  if (typeof raw !== 'object') {
+    return { index, title: String(raw) }
+  }
+
+  // Some agents nest details under metadata / extra_info
+  const meta: Record<string, any> = { ...(raw.extra_info || {}), ...(raw.metadata || {}), ...raw }
+
+  const rawUrl = pickString(meta, ['url', 'link', 'href', 'source_url', 'page_url', 'website'])
+  const rawDocument = pickString(meta, ['documentName', 'document_name', 'document', 'file_name', 'fileName', 'filename', 'source', 'doc'])
+  const url = safeUrl(rawUrl) || rawDocument?.match(URL_PATTERN)?.[0]
+  const documentName = rawDocument && !URL_PATTERN.test(rawDocument) ? getDocumentBaseName(rawDocument) : undefined
+
+  const chunkText = pickString(meta, ['chunkText', 'chunk_text', 'chunk', 'text', 'content', 'page_content', 'snippet', 'excerpt'])
+  const page = pickNumber(meta, ['page', 'page_number', 'page_label', 'pageNumber'])
+  const section = pickString(meta, ['section', 'heading', 'category'])
+  const score = pickNumber(meta, ['score', 'similarity', 'relevance', 'relevance_score'])
+
+  const title = pickString(meta, ['title', 'name', 'source_title', 'heading', 'section'])
+    || documentName
+    || (url ? titleFromUrl(url) : undefined)
+    || (chunkText ? chunkText.slice(0, 60) + (chunkText.length > 60 ? '...' : '') : `Source ${index}`)
+
+  return { index, title, url, documentName, chunkText, page, section: section !== title ? section : undefined, score }
+}
+
+// =============================================================================
+// Main API Functions
+// =============================================================================
+
+/**
+ * Normalize raw agent sources into typed Source objects numbered from 1.
+ * Safe to call on already-normalized sources.
+ */
+export function normalizeSources(raw: unknown): Source[] {
+  if (!Array.isArray(raw)) return []
+
+  const sources: Source[] = []
+  for (const item of raw) {
+    const source = normalizeSource(item, sources.length + 1)
+    if (source) sources.push(source)
+  }
+  return sources
+}
+
+/**
+ * Split answer text into plain text and `[n]` citation markers.
+ * Markers outside 1..sourceCount are left as text.
+ */
+export function splitCitations(text: string, sourceCount: number): CitationPart[] {
+  const parts: CitationPart[] = []
+  const pattern = /\[(\d{1,3})\]/g
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(text)) !== null) {
+    const index = Number(match[1])
+    if (index < 1 || index > sourceCount) continue
+
+    if (match.index > lastIndex) {
+      parts.push({ type: 'text', text: text.slice(lastIndex, match.index) })
+    }
+    parts.push({ type: 'citation', index })
+    lastIndex = match.index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+
+  return parts
+}
+
+/**
+ * Find the knowledge base document (from getDocuments) a source was retrieved from
+ */
+export function findSourceDocument(source: Source, documents: RAGDocument[]): RAGDocument | undefined {
+  if (!source.documentName) return undefined
+  const name = source.documentName.toLowerCase()
+  return documents.find(doc => getDocumentBaseName(doc.fileName).toLowerCase() === name)
+}
@@ -0,0 +1,165 @@
+/**
+ * Cross-Tab Sync Utility
+ *
+ * Keeps support chat tabs of the same browser in sync. Conversation changes
+ * and in-flight request state are broadcast over a BroadcastChannel, falling
+ * back to `storage` events where BroadcastChannel isn't available.
+ *
+ * @example
+ * ```tsx
+ * import { createTabSync, mergeRemoteConversation } from '@/utils/tabSync'
+ *
+ * const tabSync = createTabSync()
+ * const unsubscribe = tabSync.subscribe(event => {
+ *   if (event.type === 'conversation-updated') {
+ *     setConversations(prev => prev.map(conv =>
+ *       conv.id === event.conversation.id ? mergeRemoteConversation(conv, event.conversation) : conv
+ *     ))
+ *   }
+ * })
+ *
+ * tabSync.post({ type: 'conversation-updated', conversation })
+ * ```
+ */
+
+import type { Conversation, Message } from '@/types'
+import { reviveDates } from '@/utils/conversationStore'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TabSyncEvent =
+  | { type: 'conversation-updated'; conversation: Conversation }
+  | { type: 'conversation-deleted'; conversationId: string }
+  /** A tab started or finished waiting on the agent in a conversation */
+  | { type: 'request-state'; conversationId: string; active: boolean }
+  /** Sent by a new tab - other tabs reply with their active request-state */
+  | { type: 'request-state-query' }
+
+export type TabSyncListener = (event: TabSyncEvent, fromTabId: string) => void
+
+export interface TabSync {
+  post: (event: TabSyncEvent) => void
+  /** Listen to events from other tabs. Returns an unsubscribe function. */
+  subscribe: (listener: TabSyncListener) => () => void
+  close: () => void
+}
+
+interface TabSyncEnvelope {
+  tabId: string
+  event: TabSyncEvent
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const TAB_SYNC_CHANNEL = 'support-conversations-sync'
+// localStorage key used to relay events when BroadcastChannel is unavailable
+const TAB_SYNC_STORAGE_KEY = 'support-conversations-sync-event'
+
+/**
+ * Identifies this tab in broadcast events
+ */
+export const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+
+// =============================================================================
+// Channel
+// =============================================================================
+
+/**
+ * Open the cross-tab channel. Events posted here are only delivered to other tabs.
+ */
+export function createTabSync(channelName: string = TAB_SYNC_CHANNEL): TabSync {
+  const listeners = new Set<TabSyncListener>()
+
+  const dispatch = (envelope: TabSyncEnvelope | null) => {
+    if (!envelope?.event || envelope.tabId === TAB_ID) return
+    listeners.forEach(listener => listener(envelope.event, envelope.tabId))
+  }
+
+  let post: (envelope: TabSyncEnvelope) => void
+  let close: () => void
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName)
+    channel.onmessage = (e: MessageEvent<TabSyncEnvelope>) => dispatch(e.data)
+    post = envelope => channel.postMessage(envelope)
+    close = () => channel.close()
+  } else {
+    const storageKey = `${TAB_SYNC_STORAGE_KEY}:${channelName}`
+    const handleStorage = (e: StorageEvent) => {
+      // Removing the relay key fires a second event with no value - skip it
+      if (e.key !== storageKey || !e.newValue) return
+      try {
+        dispatch(JSON.parse(e.newValue, reviveDates))
+      } catch (error) {
+        console.error('Failed to parse tab sync event:', error)
+      }
+    }
+    window.addEventListener('storage', handleStorage)
+    post = envelope => {
+      // The nonce makes repeated identical events still count as a change
+      localStorage.setItem(storageKey, JSON.stringify({ ...envelope, nonce: Math.random() }))
+      localStorage.removeItem(storageKey)
+    }
+    close = () => window.removeEventListener('storage', handleStorage)
+  }
+
+  return {
+    post: event => {
+      try {
+        post({ tabId: TAB_ID, event })
+      } catch (error) {
+        console.error('Failed to broadcast tab sync event:', error)
+      }
+    },
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    close: () => {
+      listeners.clear()
+      close()
+    },
+  }
+}
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+/**
+ * Merge another tab's copy of a conversation into ours, message by message.
+ * Messages only one side has are kept; for messages both sides have, the
+ * remote copy wins except for `keepLocalMessageId` (e.g. an answer this tab
+ * is still streaming).
+ */
+export function mergeRemoteConversation(
+  local: Conversation | undefined,
+  remote: Conversation,
+  keepLocalMessageId?: string | null
+): Conversation {
+  if (!local) return remote
+
+  const messagesById = new Map<string, Message>(local.messages.map(message => [message.id, message]))
+  remote.messages.forEach(message => {
+    if (message.id !== keepLocalMessageId) {
+      messagesById.set(message.id, message)
+    }
+  })
+
+  const messages = [...messagesById.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  const isRemoteNewer = remote.timestamp.getTime() >= local.timestamp.getTime()
+  const newer = isRemoteNewer ? remote : local
+
+  return {
+    ...local,
+    ...newer,
+    messages,
+    handoff: local.handoff || remote.handoff,
+  }
+}
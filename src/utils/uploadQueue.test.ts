@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SyncDocumentResponse } from '@/utils/documentVersions'
+import { createUploadQueue, getDroppedFiles, summarizeUploads, type UploadQueueItem } from '@/utils/uploadQueue'
+
+// Each syncDocument call waits until the test settles it
+const pending: { ragId: string; file: File; signal: AbortSignal; resolve: (result: SyncDocumentResponse) => void }[] = []
+
+vi.mock('@/utils/documentVersions', () => ({
+  syncDocument: (ragId: string, file: File, options: { signal: AbortSignal }) =>
+    new Promise<SyncDocumentResponse>(resolve => {
+      pending.push({ ragId, file, signal: options.signal, resolve })
+      options.signal.addEventListener('abort', () => resolve({ success: false, aborted: true }))
+    }),
+}))
+
+const file = (name: string, content = 'text') => new File([content], name, { type: 'text/markdown' })
+
+const item = (changes: Partial<UploadQueueItem>): UploadQueueItem => ({
+  id: 'upload',
+  ragId: 'rag',
+  file: file('a.md'),
+  status: 'queued',
+  canRetry: true,
+  ...changes,
+})
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+beforeEach(() => {
+  pending.length = 0
+})
+
+describe('summarizeUploads', () => {
+  it('counts each status and the chunks trained', () => {
+    const summary = summarizeUploads([
+      item({ status: 'queued' }),
+      item({ status: 'parsing' }),
+      item({ status: 'training' }),
+      item({ status: 'done', documentCount: 4 }),
+      item({ status: 'done', unchanged: true, documentCount: 0 }),
+      item({ status: 'failed' }),
+      item({ status: 'cancelled' }),
+    ])
+    expect(summary).toEqual({
+      total: 7,
+      queued: 1,
+      inProgress: 2,
+      done: 2,
+      unchanged: 1,
+      failed: 1,
+      cancelled: 1,
+      documentCount: 4,
+    })
+  })
+
+  it('is all zeros for an empty batch', () => {
+    expect(summarizeUploads([])).toMatchObject({ total: 0, done: 0, documentCount: 0 })
+  })
+})
+
+describe('getDroppedFiles', () => {
+  const fileEntry = (name: string) => ({
+    name,
+    isFile: true,
+    file: (resolve: (file: File) => void) => resolve(file(name)),
+  })
+  // readEntries hands out its entries in batches, then an empty one
+  const directoryEntry = (name: string, children: unknown[]) => ({
+    name,
+    isFile: false,
+    createReader: () => {
+      const batches = [children.slice(0, 1), children.slice(1), []]
+      return { readEntries: (resolve: (entries: unknown[]) => void) => resolve(batches.shift() || []) }
+    },
+  })
+  const dataTransfer = (entries: unknown[], files: File[] = []) => ({
+    items: entries.map(entry => ({ kind: 'file', webkitGetAsEntry: () => entry })),
+    files,
+  }) as unknown as DataTransfer
+
+  it('descends into dropped folders and skips hidden files', async () => {
+    const dropped = await getDroppedFiles(dataTransfer([
+      fileEntry('faq.md'),
+      directoryEntry('docs', [fileEntry('a.md'), fileEntry('.DS_Store'), directoryEntry('nested', [fileEntry('b.md')])]),
+      directoryEntry('.git', [fileEntry('config')]),
+    ]))
+    expect(dropped.map(dropped => dropped.name)).toEqual(['faq.md', 'a.md', 'b.md'])
+  })
+
+  it('falls back to the file list when there are no entries', async () => {
+    const dropped = await getDroppedFiles(dataTransfer([], [file('faq.md')]))
+    expect(dropped.map(dropped => dropped.name)).toEqual(['faq.md'])
+  })
+})
+
+describe('createUploadQueue', () => {
+  it('rejects a file named like an earlier one in the same batch', () => {
+    const queue = createUploadQueue()
+    const added = queue.add('rag', [file('index.html'), file('index.html'), file('other.md')])
+    expect(added.map(added => added.status)).toEqual(['queued', 'failed', 'queued'])
+    expect(added[1]).toMatchObject({ canRetry: false, error: expect.stringContaining('index.html') })
+    expect(pending.map(call => call.file.name)).toEqual(['index.html', 'other.md'])
+  })
+
+  it('fails unsupported files without uploading them', () => {
+    const queue = createUploadQueue()
+    const [added] = queue.add('rag', [new File(['x'], 'photo.png', { type: 'image/png' })])
+    expect(added).toMatchObject({ status: 'failed', canRetry: false })
+    expect(pending).toHaveLength(0)
+  })
+
+  it('uploads at most `concurrency` files at once', async () => {
+    const queue = createUploadQueue({ concurrency: 2 })
+    queue.add('rag', [file('a.md'), file('b.md'), file('c.md')])
+    expect(pending).toHaveLength(2)
+    expect(summarizeUploads(queue.getItems())).toMatchObject({ inProgress: 2, queued: 1 })
+
+    pending[0].resolve({ success: true, documentCount: 3 })
+    await flush()
+    expect(pending.map(call => call.file.name)).toEqual(['a.md', 'b.md', 'c.md'])
+  })
+
+  it('waits for a same-named upload to the same knowledge base to finish', async () => {
+    const queue = createUploadQueue()
+    queue.add('rag', [file('faq.md', 'v1')])
+    queue.add('rag', [file('faq.md', 'v2')])
+    queue.add('other-rag', [file('faq.md', 'v1')])
+    expect(pending.map(call => call.ragId)).toEqual(['rag', 'other-rag'])
+
+    pending[0].resolve({ success: true, documentCount: 1 })
+    await flush()
+    expect(pending.map(call => call.ragId)).toEqual(['rag', 'other-rag', 'rag'])
+  })
+
+  it('retries failed files and cancels running ones', async () => {
+    const settled: UploadQueueItem[] = []
+    const queue = createUploadQueue({ onItemSettled: item => settled.push(item) })
+    const [added] = queue.add('rag', [file('a.md')])
+
+    pending[0].resolve({ success: false, error: 'Training failed' })
+    await flush()
+    expect(queue.getItems()[0]).toMatchObject({ status: 'failed', error: 'Training failed' })
+
+    queue.retry(added.id)
+    expect(pending).toHaveLength(2)
+    queue.cancelAll()
+    await flush()
+    expect(pending[1].signal.aborted).toBe(true)
+    expect(queue.getItems()[0].status).toBe('cancelled')
+    expect(settled.map(item => item.status)).toEqual(['failed', 'cancelled'])
+  })
+
+  it('marks an upload done with a warning when only its bookkeeping failed', async () => {
+    const queue = createUploadQueue()
+    queue.add('rag', [file('a.md')])
+    pending[0].resolve({ success: true, documentCount: 2, warning: 'Uploaded, but its version history could not be saved' })
+    await flush()
+    expect(queue.getItems()[0]).toMatchObject({ status: 'done', documentCount: 2, warning: expect.any(String) })
+  })
+})
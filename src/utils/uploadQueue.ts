@@ -0,0 +1,313 @@
+/**
+ * Knowledge Base Upload Queue
+ *
+ * Uploads many files (or a dropped folder) to a knowledge base, a few at a
+ * time - but never two with the same name at once. Each file is validated up front, then uploaded as a new version
+ * through syncDocument while its state moves queued → parsing → training →
+ * done / failed. Files identical to the live version finish as done without
+ * uploading. Failed and cancelled files can be retried; the whole batch can
+ * be cancelled.
+ *
+ * @example
+ * ```tsx
+ * import { useUploadQueue, getDroppedFiles, summarizeUploads } from '@/utils/uploadQueue'
+ *
+ * const { items, add, retry, cancelAll } = useUploadQueue({ concurrency: 3 })
+ *
+ * const handleDrop = async (e: React.DragEvent) => {
+ *   e.preventDefault()
+ *   add(ragId, await getDroppedFiles(e.dataTransfer))
+ * }
+ *
+ * const { done, documentCount } = summarizeUploads(items)
+ * ```
+ */
+
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import { validateFile } from '@/utils/ragKnowledgeBase'
+import { syncDocument, type SyncDocumentResponse } from '@/utils/documentVersions'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type UploadItemStatus = 'queued' | 'parsing' | 'training' | 'done' | 'failed' | 'cancelled'
+
+export interface UploadQueueItem {
+  id: string
+  ragId: string
+  file: File
+  status: UploadItemStatus
+  /** Chunks trained, once done */
+  documentCount?: number
+  /** Done without uploading - the content matched the live version */
+  unchanged?: boolean
+  /** Version number the upload became */
+  version?: number
+  /** Done, but with a problem worth showing (see SyncDocumentResponse.warning) */
+  warning?: string
+  error?: string
+  details?: string
+  /** False for files that failed validation - retrying can't help */
+  canRetry: boolean
+}
+
+export interface UploadQueueOptions {
+  /** Files uploading at once */
+  concurrency?: number
+  /** Called when a file finishes, successfully or not */
+  onItemSettled?: (item: UploadQueueItem) => void
+}
+
+export interface UploadQueueSummary {
+  total: number
+  queued: number
+  /** Parsing or training */
+  inProgress: number
+  done: number
+  /** Done files that were skipped as unchanged */
+  unchanged: number
+  failed: number
+  cancelled: number
+  /** Chunks trained across finished files */
+  documentCount: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 3
+
+const isActive = (item: UploadQueueItem) => item.status === 'parsing' || item.status === 'training'
+
+// Uploads of one document replace each other's chunks and versions, so they take turns
+const isSameDocument = (a: UploadQueueItem, b: UploadQueueItem) => a.ragId === b.ragId && a.file.name === b.file.name
+
+let nextItemId = 0
+
+// =============================================================================
+// Queue
+// =============================================================================
+
+/**
+ * Framework-free upload queue; see useUploadQueue for React
+ */
+export function createUploadQueue(options: UploadQueueOptions = {}) {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY)
+  let items: UploadQueueItem[] = []
+  const listeners = new Set<() => void>()
+  const controllers = new Map<string, AbortController>()
+
+  const update = (id: string, changes: Partial<UploadQueueItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...changes } : item))
+    listeners.forEach(listener => listener())
+  }
+
+  const settle = (id: string, result: SyncDocumentResponse) => {
+    controllers.delete(id)
+    if (result.success) {
+      update(id, {
+        status: 'done',
+        documentCount: result.documentCount,
+        unchanged: result.unchanged,
+        version: result.version?.version,
+        warning: result.warning,
+        error: undefined,
+        details: result.warning ? result.details : undefined,
+      })
+    } else if (result.aborted) {
+      update(id, { status: 'cancelled', error: undefined, details: undefined })
+    } else {
+      update(id, { status: 'failed', error: result.error || 'Upload failed', details: result.details })
+    }
+    options.onItemSettled?.(items.find(item => item.id === id)!)
+    pump()
+  }
+
+  // Start queued files until the concurrency limit is reached
+  function pump() {
+    let running = items.filter(isActive).length
+    for (const item of items) {
+      if (running >= concurrency) break
+      if (item.status !== 'queued') continue
+      if (items.some(other => isActive(other) && isSameDocument(other, item))) continue
+      running++
+
+      const controller = new AbortController()
+      controllers.set(item.id, controller)
+      update(item.id, { status: 'parsing' })
+      syncDocument(item.ragId, item.file, {
+        signal: controller.signal,
+        onStage: (stage) => update(item.id, { status: stage }),
+      }).then(result => settle(item.id, result))
+    }
+  }
+
+  const requeue = (predicate: (item: UploadQueueItem) => boolean) => {
+    items = items.map(item => (predicate(item) && item.canRetry
+      ? { ...item, status: 'queued' as const, error: undefined, details: undefined }
+      : item))
+    listeners.forEach(listener => listener())
+    pump()
+  }
+
+  const cancel = (predicate: (item: UploadQueueItem) => boolean) => {
+    items = items.map(item => (predicate(item) && item.status === 'queued' ? { ...item, status: 'cancelled' as const } : item))
+    listeners.forEach(listener => listener())
+    // Running uploads settle as cancelled once their request aborts
+    items.filter(item => predicate(item) && isActive(item)).forEach(item => controllers.get(item.id)?.abort())
+  }
+
+  return {
+    /**
+     * Queue files for a knowledge base. Invalid files are added as failed, and
+     * so are files named like an earlier one in the batch - a folder can hold
+     * several index.html files, but the knowledge base keeps one per name.
+     */
+    add: (ragId: string, files: File[]): UploadQueueItem[] => {
+      const names = new Set<string>()
+      const added = files.map<UploadQueueItem>(file => {
+        if (names.has(file.name)) {
+          return {
+            id: `upload-${++nextItemId}`,
+            ragId,
+            file,
+            status: 'failed',
+            error: `Another file in this upload is named ${file.name} - rename one and upload it separately`,
+            canRetry: false,
+          }
+        }
+        names.add(file.name)
+        const validation = validateFile(file)
+        return {
+          id: `upload-${++nextItemId}`,
+          ragId,
+          file,
+          status: validation.isValid ? 'queued' : 'failed',
+          error: validation.error,
+          canRetry: validation.isValid,
+        }
+      })
+      items = [...items, ...added]
+      listeners.forEach(listener => listener())
+      pump()
+      return added
+    },
+
+    retry: (id: string) => requeue(item => item.id === id && (item.status === 'failed' || item.status === 'cancelled')),
+    retryFailed: () => requeue(item => item.status === 'failed'),
+
+    cancel: (id: string) => cancel(item => item.id === id),
+    cancelAll: () => cancel(() => true),
+
+    /** Drop a file that isn't uploading */
+    remove: (id: string) => {
+      items = items.filter(item => item.id !== id || isActive(item))
+      listeners.forEach(listener => listener())
+    },
+
+    /** Drop every done, failed and cancelled file */
+    clearFinished: () => {
+      items = items.filter(item => item.status === 'queued' || isActive(item))
+      listeners.forEach(listener => listener())
+    },
+
+    getItems: () => items,
+
+    /** For useSyncExternalStore */
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export type UploadQueue = ReturnType<typeof createUploadQueue>
+
+/**
+ * Counts and trained chunks for a batch
+ */
+export function summarizeUploads(items: UploadQueueItem[]): UploadQueueSummary {
+  return {
+    total: items.length,
+    queued: items.filter(item => item.status === 'queued').length,
+    inProgress: items.filter(isActive).length,
+    done: items.filter(item => item.status === 'done').length,
+    unchanged: items.filter(item => item.status === 'done' && item.unchanged).length,
+    failed: items.filter(item => item.status === 'failed').length,
+    cancelled: items.filter(item => item.status === 'cancelled').length,
+    documentCount: items.reduce((sum, item) => sum + (item.documentCount || 0), 0),
+  }
+}
+
+// =============================================================================
+// Dropped Folders
+// =============================================================================
+
+function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  // Skip .DS_Store and friends
+  if (entry.name.startsWith('.')) return Promise.resolve([])
+
+  if (entry.isFile) {
+    return new Promise(resolve => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])))
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  // readEntries returns at most ~100 entries per call
+  const readBatch = (): Promise<File[]> =>
+    new Promise(resolve => {
+      reader.readEntries(async entries => {
+        if (entries.length === 0) return resolve([])
+        const files = await Promise.all(entries.map(readEntry))
+        resolve([...files.flat(), ...(await readBatch())])
+      }, () => resolve([]))
+    })
+  return readBatch()
+}
+
+/**
+ * Files from a drop, descending into dropped folders
+ */
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries must be taken before the first await - the item list is cleared after the event
+  const entries = Array.from(dataTransfer.items || [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter(Boolean)
+
+  if (entries.length === 0) return Array.from(dataTransfer.files)
+  return (await Promise.all(entries.map(readEntry))).flat()
+}
+
+// =============================================================================
+// React Hook
+// =============================================================================
+
+/**
+ * Upload queue bound to a component. Running uploads are cancelled on unmount.
+ *
+ * @example
+ * ```tsx
+ * const { items, add, retry, cancelAll, clearFinished } = useUploadQueue({
+ *   onItemSettled: (item) => item.status === 'done' && fetchDocuments(item.ragId),
+ * })
+ * ```
+ */
+export function useUploadQueue(options: UploadQueueOptions = {}) {
+  // The latest callback, without recreating the queue on every render
+  const onItemSettledRef = useRef(options.onItemSettled)
+  onItemSettledRef.current = options.onItemSettled
+
+  const [queue] = useState(() => createUploadQueue({
+    concurrency: options.concurrency,
+    onItemSettled: (item) => onItemSettledRef.current?.(item),
+  }))
+  const items = useSyncExternalStore(queue.subscribe, queue.getItems)
+
+  useEffect(() => () => queue.cancelAll(), [queue])
+
+  return { ...queue, items }
+}
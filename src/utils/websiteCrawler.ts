@@ -0,0 +1,427 @@
+/**
+ * Website Crawl Ingestion
+ *
+ * Crawls a website breadth-first from seed URLs, extracts the readable text
+ * of each page, chunks it and trains a knowledge base with it. Every chunk
+ * carries its page URL and title as metadata, so agent sources for crawled
+ * content come back with a `url` and citations link to the page. Each page is
+ * a knowledge base document named by its URL: crawling a page again replaces
+ * its chunks instead of adding a second copy.
+ *
+ * Browsers only let the crawler read sites that allow cross-origin requests.
+ * For other sites set `api.crawlProxyUrl` (see appConfig) or pass `fetchPage`.
+ *
+ * @example
+ * ```tsx
+ * import { ingestWebsite } from '@/utils/websiteCrawler'
+ *
+ * const result = await ingestWebsite(ragId, {
+ *   seedUrls: ['https://help.example.com/'],
+ *   include: ['https://help.example.com/articles/*'],
+ *   exclude: ['/login', '*?page=*'],
+ *   maxDepth: 2,
+ *   maxPages: 100,
+ *   onProgress: (progress) => console.log(progress.phase, progress.pagesFetched),
+ * })
+ * if (result.success) {
+ *   console.log(`Trained ${result.documentCount} chunks from ${result.pages.length} pages`)
+ * }
+ * ```
+ */
+
+import { getAppConfig } from '@/utils/appConfig'
+import { chunkText, type ChunkOptions } from '@/utils/chunking'
+import { extractPage, normalizeUrl, type ExtractedPage } from '@/utils/htmlText'
+import { createRequestSignal } from '@/utils/requestSignal'
+import {
+  createTrainingDocument,
+  deleteDocuments,
+  getDocuments,
+  trainDocuments,
+  type RAGRequestOptions,
+  type RAGTrainingDocument,
+} from '@/utils/ragKnowledgeBase'
+import { toStorageSource } from '@/utils/sources'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CrawlOptions {
+  /** Where the crawl starts; always crawled, whatever the patterns say */
+  seedUrls: string[]
+  /**
+   * Only follow links matching one of these. A pattern with `*` is a
+   * wildcard match against the whole URL; without, a substring match.
+   */
+  include?: string[]
+  /** Never follow links matching one of these (same syntax as include) */
+  exclude?: string[]
+  /** Link hops from a seed (0 = seeds only) */
+  maxDepth?: number
+  /** Pages fetched at most */
+  maxPages?: number
+  /** Also follow links to hosts other than the seeds' */
+  followExternalLinks?: boolean
+  /** Pages fetched at once */
+  concurrency?: number
+  /** Give up on a page after this many milliseconds */
+  pageTimeoutMs?: number
+  /** Cancel the crawl */
+  signal?: AbortSignal
+  /** Fetch a page - defaults to fetch, through `api.crawlProxyUrl` when set */
+  fetchPage?: (url: string, signal: AbortSignal) => Promise<Response>
+  onProgress?: (progress: CrawlProgress) => void
+}
+
+export interface CrawlProgress {
+  phase: 'crawling' | 'training'
+  pagesFetched: number
+  /** Page fetch limit for this crawl */
+  maxPages: number
+  /** Page being fetched */
+  currentUrl?: string
+  chunksTrained?: number
+  totalChunks?: number
+}
+
+export interface CrawledPage {
+  url: string
+  title: string
+  text: string
+  depth: number
+}
+
+export type CrawlPageStatus = 'fetched' | 'ingested' | 'skipped' | 'failed'
+
+export interface CrawlPageResult {
+  url: string
+  depth: number
+  status: CrawlPageStatus
+  title?: string
+  /** Chunks trained from the page */
+  chunkCount?: number
+  /** Why the page was skipped or failed */
+  reason?: string
+}
+
+export interface CrawlResult {
+  success: boolean
+  /** Pages with readable text */
+  pages: CrawledPage[]
+  /** Every URL visited, including skipped and failed ones */
+  results: CrawlPageResult[]
+  error?: string
+  aborted?: boolean
+}
+
+export interface IngestWebsiteResult {
+  success: boolean
+  pages: CrawlPageResult[]
+  /** Chunks trained */
+  documentCount: number
+  ragId?: string
+  error?: string
+  details?: string
+  aborted?: boolean
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_CRAWL_OPTIONS = {
+  maxDepth: 2,
+  maxPages: 50,
+  concurrency: 3,
+  pageTimeoutMs: 15000,
+}
+
+// Pages with less text than this are navigation stubs, not content
+const MIN_PAGE_TEXT_LENGTH = 50
+
+// Chunks per train request
+const TRAIN_BATCH_SIZE = 50
+
+// Links to these are never pages
+const NON_PAGE_EXTENSIONS = /\.(?:pdf|docx?|xlsx?|pptx?|zip|gz|tar|rar|7z|png|jpe?g|gif|webp|svg|ico|bmp|mp3|mp4|m4a|wav|webm|mov|avi|css|js|mjs|json|xml|rss|atom|woff2?|ttf|eot|exe|dmg|apk)$/i
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * `*` wildcards match the whole URL; other patterns match anywhere in it
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const trimmed = pattern.trim()
+  if (!trimmed) return false
+  if (!trimmed.includes('*')) return url.includes(trimmed)
+  const source = trimmed.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${source}$`, 'i').test(url)
+}
+
+function defaultFetchPage(url: string, signal: AbortSignal): Promise<Response> {
+  const proxy = getAppConfig().api.crawlProxyUrl
+  return fetch(proxy ? `${proxy}${encodeURIComponent(url)}` : url, {
+    signal,
+    headers: { 'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9' },
+  })
+}
+
+// Run fn over items with at most `limit` in flight, keeping result order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker))
+  return results
+}
+
+// =============================================================================
+// Main API Functions
+// =============================================================================
+
+/**
+ * Crawl breadth-first from the seed URLs and extract each page's text
+ */
+export async function crawlWebsite(options: CrawlOptions): Promise<CrawlResult> {
+  const maxDepth = Math.max(0, options.maxDepth ?? DEFAULT_CRAWL_OPTIONS.maxDepth)
+  const maxPages = Math.max(1, options.maxPages ?? DEFAULT_CRAWL_OPTIONS.maxPages)
+  const fetchPage = options.fetchPage || defaultFetchPage
+  const include = (options.include || []).filter(pattern => pattern.trim())
+  const exclude = (options.exclude || []).filter(pattern => pattern.trim())
+
+  const seeds = [...new Set(options.seedUrls.map(url => normalizeUrl(url)).filter(Boolean))]
+  if (seeds.length === 0) {
+    return { success: false, pages: [], results: [], error: 'Enter at least one http(s) URL to crawl' }
+  }
+
+  const hosts = new Set(seeds.map(url => new URL(url).host))
+  const seen = new Set(seeds)
+  const seenText = new Set<string>()
+  const pages: CrawledPage[] = []
+  const results: CrawlPageResult[] = []
+  let pagesFetched = 0
+
+  const shouldFollow = (url: string) =>
+    (options.followExternalLinks || hosts.has(new URL(url).host))
+    && !NON_PAGE_EXTENSIONS.test(new URL(url).pathname)
+    && (include.length === 0 || include.some(pattern => matchesUrlPattern(url, pattern)))
+    && !exclude.some(pattern => matchesUrlPattern(url, pattern))
+
+  // Fetch and extract one page; resolves with the links to follow from it
+  const visit = async (url: string, depth: number): Promise<string[]> => {
+    if (options.signal?.aborted) return []
+    pagesFetched++
+    options.onProgress?.({ phase: 'crawling', pagesFetched, maxPages, currentUrl: url })
+
+    const request = createRequestSignal({
+      signal: options.signal,
+      timeout: options.pageTimeoutMs ?? DEFAULT_CRAWL_OPTIONS.pageTimeoutMs,
+    })
+    try {
+      const response = await fetchPage(url, request.signal)
+      if (!response.ok) {
+        results.push({ url, depth, status: 'failed', reason: `HTTP ${response.status}` })
+        return []
+      }
+
+      const contentType = response.headers.get('content-type') || ''
+      const isHtml = /html/i.test(contentType) || !contentType
+      if (!isHtml && !/text\/plain/i.test(contentType)) {
+        results.push({ url, depth, status: 'skipped', reason: `Not a web page (${contentType.split(';')[0]})` })
+        return []
+      }
+
+      const body = await response.text()
+      // Follow redirects from the page's final address, unless it came through the proxy
+      const baseUrl = response.redirected && response.url ? response.url : url
+      const page: ExtractedPage = isHtml
+        ? extractPage(body, baseUrl)
+        : { title: url, text: body.trim(), links: [], noindex: false, nofollow: false }
+
+      if (page.noindex) {
+        results.push({ url, depth, status: 'skipped', title: page.title, reason: 'Page asks not to be indexed' })
+      } else if (page.text.length < MIN_PAGE_TEXT_LENGTH) {
+        results.push({ url, depth, status: 'skipped', title: page.title, reason: 'No readable text' })
+      } else if (seenText.has(page.text)) {
+        results.push({ url, depth, status: 'skipped', title: page.title, reason: 'Same text as another page' })
+      } else {
+        seenText.add(page.text)
+        pages.push({ url, title: page.title, text: page.text, depth })
+        results.push({ url, depth, status: 'fetched', title: page.title })
+      }
+
+      return page.nofollow ? [] : page.links
+    } catch (error) {
+      if (request.abortReason() !== 'cancelled') {
+        results.push({
+          url,
+          depth,
+          status: 'failed',
+          reason: request.abortReason() === 'timeout'
+            ? 'Timed out'
+            // fetch rejects with a bare TypeError for CORS and network failures
+            : `${error instanceof Error ? error.message : String(error)} - the site may block cross-origin requests`,
+        })
+      }
+      return []
+    } finally {
+      request.cleanup()
+    }
+  }
+
+  let level = seeds
+  for (let depth = 0; level.length > 0 && depth <= maxDepth; depth++) {
+    const batch = level.slice(0, maxPages - pagesFetched)
+    const linksByPage = await mapWithConcurrency(
+      batch,
+      options.concurrency ?? DEFAULT_CRAWL_OPTIONS.concurrency,
+      url => visit(url, depth)
+    )
+    if (options.signal?.aborted || pagesFetched >= maxPages) break
+
+    level = []
+    linksByPage.flat().forEach(url => {
+      if (seen.has(url) || !shouldFollow(url)) return
+      seen.add(url)
+      level.push(url)
+    })
+  }
+
+  if (options.signal?.aborted) {
+    return { success: false, pages, results, error: 'Crawl cancelled', aborted: true }
+  }
+  return { success: true, pages, results }
+}
+
+/**
+ * Crawl a website and train a knowledge base with its pages
+ *
+ * @param ragId - RAG Knowledge Base ID (required)
+ * @param options - Crawl scope, chunking and retry policy for the train requests
+ */
+export async function ingestWebsite(
+  ragId: string,
+  options: CrawlOptions & ChunkOptions & RAGRequestOptions
+): Promise<IngestWebsiteResult> {
+  if (!ragId) {
+    return { success: false, pages: [], documentCount: 0, error: 'ragId is required' }
+  }
+
+  const crawl = await crawlWebsite(options)
+  if (!crawl.success) {
+    return { success: false, pages: crawl.results, documentCount: 0, error: crawl.error, aborted: crawl.aborted }
+  }
+
+  const crawledAt = new Date().toISOString()
+  const documentsByUrl = new Map<string, RAGTrainingDocument[]>()
+  crawl.pages.forEach(page => {
+    const chunks = chunkText(page.text, options)
+    documentsByUrl.set(page.url, chunks.map((chunk, index) => createTrainingDocument(chunk, {
+      source: toStorageSource(page.url),
+      url: page.url,
+      title: page.title,
+      crawled_at: crawledAt,
+      chunk_index: index,
+      chunk_count: chunks.length,
+    })))
+  })
+
+  const totalChunks = [...documentsByUrl.values()].reduce((sum, docs) => sum + docs.length, 0)
+  if (totalChunks === 0) {
+    return {
+      success: false,
+      pages: crawl.results,
+      documentCount: 0,
+      error: crawl.results.length > 0 ? 'None of the crawled pages had readable text' : 'No pages could be crawled',
+    }
+  }
+
+  // Pages crawled before are replaced, not trained a second time next to their old chunks
+  const listed = await getDocuments(ragId, { retry: options.retry })
+  if (!listed.success) {
+    return {
+      success: false,
+      pages: crawl.results,
+      documentCount: 0,
+      ragId,
+      error: 'Could not check the knowledge base for previously crawled pages',
+      details: listed.details ? `${listed.error}: ${listed.details}` : listed.error,
+    }
+  }
+  const recrawled = (listed.documents || [])
+    .map(doc => doc.fileName)
+    .filter(fileName => documentsByUrl.has(fileName))
+  if (recrawled.length > 0) {
+    const deleted = await deleteDocuments(ragId, recrawled, { retry: options.retry })
+    if (!deleted.success) {
+      return {
+        success: false,
+        pages: crawl.results,
+        documentCount: 0,
+        ragId,
+        error: 'Could not remove the previously crawled copies of these pages',
+        details: deleted.details ? `${deleted.error}: ${deleted.details}` : deleted.error,
+      }
+    }
+  }
+
+  // Train whole pages per request so a failure can be pinned on them
+  const batches: string[][] = [[]]
+  let batchSize = 0
+  documentsByUrl.forEach((docs, url) => {
+    if (batchSize > 0 && batchSize + docs.length > TRAIN_BATCH_SIZE) {
+      batches.push([])
+      batchSize = 0
+    }
+    batches[batches.length - 1].push(url)
+    batchSize += docs.length
+  })
+
+  const pages = crawl.results.map(result => ({ ...result }))
+  let chunksTrained = 0
+  let firstError: { error?: string; details?: string } | null = null
+
+  for (const urls of batches) {
+    const result = await trainDocuments(ragId, urls.flatMap(url => documentsByUrl.get(url)), {
+      retry: options.retry,
+      signal: options.signal,
+    })
+    if (result.aborted) {
+      return { success: false, pages, documentCount: chunksTrained, ragId, error: 'Crawl cancelled', aborted: true }
+    }
+
+    urls.forEach(url => {
+      const page = pages.find(p => p.url === url)
+      if (result.success) {
+        page.status = 'ingested'
+        page.chunkCount = documentsByUrl.get(url).length
+      } else {
+        page.status = 'failed'
+        page.reason = result.error
+      }
+    })
+
+    if (result.success) {
+      chunksTrained += result.documentCount
+    } else {
+      firstError = firstError || { error: result.error, details: result.details }
+    }
+    options.onProgress?.({ phase: 'training', pagesFetched: crawl.results.length, maxPages: options.maxPages ?? DEFAULT_CRAWL_OPTIONS.maxPages, chunksTrained, totalChunks })
+  }
+
+  return {
+    success: !firstError,
+    pages,
+    documentCount: chunksTrained,
+    ragId,
+    ...firstError,
+  }
+}
@@ -0,0 +1,517 @@
+/**
+ * Workflow Runtime
+ *
+ * Loads the agent graph in workflow.json and decides which agent answers a
+ * customer query. The graph runs Input → (Router →) Agent → Output:
+ *
+ * - A Router node classifies the query into one of its routes - with its own
+ *   classifier agent when it has an `agentId`, otherwise by keywords - and
+ *   follows the edge labelled with that route, or the unlabelled default edge.
+ * - The first Agent node reached answers; its `ragId` is the knowledge base
+ *   the answer cites.
+ *
+ * Once a conversation is routed it stays with that agent (see `stickyNodeId`),
+ * so the agent keeps its session memory.
+ *
+ * @example
+ * ```tsx
+ * import { getWorkflow, routeQuery } from '@/utils/workflow'
+ *
+ * const result = await routeQuery(getWorkflow(), 'I was charged twice', {
+ *   stickyNodeId: conversation.routedAgent?.nodeId,
+ * })
+ * if (result.success) {
+ *   await streamAIAgent(message, result.agent.agentId, { ... })
+ *   saveMessage({ ...answer, path: result.path })
+ * }
+ * ```
+ */
+
+import { z } from 'zod'
+import workflowJson from '../../workflow.json'
+import { getAppConfig } from '@/utils/appConfig'
+import { callAIAgent } from '@/utils/aiAgent'
+import { normalizeToken, tokenize } from '@/utils/messageSearch'
+import type { RequestSignalOptions } from '@/utils/requestSignal'
+import type { RoutedAgent, WorkflowStep } from '@/types'
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const positionSchema = z.object({ x: z.number(), y: z.number() })
+
+const baseNodeSchema = z.looseObject({
+  id: z.string().min(1),
+  label: z.string(),
+  nodeCategory: z.string().optional(),
+  position: positionSchema.optional(),
+})
+
+export const routeSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  description: z.string().optional(),
+  keywords: z.array(z.string()).default([]),
+})
+
+export const workflowNodeSchema = z.discriminatedUnion('type', [
+  baseNodeSchema.extend({ type: z.literal('Input') }),
+  baseNodeSchema.extend({ type: z.literal('Output') }),
+  baseNodeSchema.extend({
+    type: z.literal('Agent'),
+    agentId: z.string().min(1),
+    agentName: z.string().optional(),
+    hasKnowledgeBase: z.boolean().optional(),
+    ragId: z.string().optional(),
+  }),
+  baseNodeSchema.extend({
+    type: z.literal('Router'),
+    routes: z.array(routeSchema).min(1),
+    /** Optional classifier agent - should answer with `{ "route": "<route id>" }` */
+    agentId: z.string().optional(),
+  }),
+])
+
+export const workflowEdgeSchema = z.looseObject({
+  id: z.string().min(1),
+  source: z.string().min(1),
+  target: z.string().min(1),
+  /** Route of the source Router node this edge is taken for; none = default */
+  route: z.string().optional(),
+})
+
+export const workflowSchema = z.looseObject({
+  nodes: z.array(workflowNodeSchema),
+  edges: z.array(workflowEdgeSchema),
+  workflowType: z.string().optional(),
+  totalAgents: z.number().optional(),
+  knowledgeBases: z
+    .array(z.looseObject({ ragId: z.string(), ragName: z.string().optional(), name: z.string().optional() }))
+    .optional(),
+})
+
+export type Workflow = z.infer<typeof workflowSchema>
+export type WorkflowNode = z.infer<typeof workflowNodeSchema>
+export type WorkflowEdge = z.infer<typeof workflowEdgeSchema>
+export type WorkflowRoute = z.infer<typeof routeSchema>
+export type AgentNode = Extract<WorkflowNode, { type: 'Agent' }>
+export type RouterNode = Extract<WorkflowNode, { type: 'Router' }>
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Validate a workflow graph, e.g. the contents of workflow.json
+ */
+export function parseWorkflow(value: unknown): { success: boolean; workflow?: Workflow; error?: string } {
+  const result = workflowSchema.safeParse(value)
+  if (!result.success) {
+    return { success: false, error: `Invalid workflow: ${z.prettifyError(result.error)}` }
+  }
+  return { success: true, workflow: result.data }
+}
+
+const ENV_REFERENCE = /^env:(VITE_\w+)$/
+const CONFIG_REFERENCE = /^config:(agentId|ragId)$/
+
+// "env:VITE_X" strings in workflow.json take the build's value, or '' when it isn't set;
+// "config:agentId" / "config:ragId" take the app config's, so env, config.json and URL overrides apply
+function resolveReferences(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const envName = value.match(ENV_REFERENCE)?.[1]
+    if (envName) return String(import.meta.env[envName] ?? '').trim()
+    const configKey = value.match(CONFIG_REFERENCE)?.[1] as 'agentId' | 'ragId' | undefined
+    return configKey ? getAppConfig()[configKey] : value
+  }
+  if (Array.isArray(value)) return value.map(resolveReferences)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, resolveReferences(entry)]))
+  }
+  return value
+}
+
+/**
+ * Drop what the build didn't configure: agents without an agent ID (and the
+ * edges to them) and knowledge bases without a RAG ID. A router route whose
+ * agent is gone takes the router's default edge instead.
+ */
+function withoutUnconfigured(value: any) {
+  if (!value || !Array.isArray(value.nodes) || !Array.isArray(value.edges)) return value
+  const removed = new Set<string>(value.nodes
+    .filter((node: any) => node?.type === 'Agent' && !node.agentId)
+    .map((node: any) => node.id))
+  return {
+    ...value,
+    nodes: value.nodes
+      .filter((node: any) => !removed.has(node?.id))
+      .map((node: any) => (node?.type === 'Agent' && node.ragId === '' ? { ...node, ragId: undefined } : node)),
+    edges: value.edges.filter((edge: any) => !removed.has(edge?.source) && !removed.has(edge?.target)),
+    ...(Array.isArray(value.knowledgeBases) && { knowledgeBases: value.knowledgeBases.filter((kb: any) => kb?.ragId) }),
+  }
+}
+
+function loadBundledWorkflow(): Workflow {
+  const result = parseWorkflow(workflowJson)
+  if (!result.success) {
+    console.error(result.error)
+    return { nodes: [], edges: [] }
+  }
+  return result.workflow
+}
+
+// As written - references unresolved, so it can be edited and exported as is
+let activeWorkflow: Workflow = loadBundledWorkflow()
+
+/**
+ * The active workflow as the chat runs it - workflow.json unless replaced with
+ * setWorkflow - read fresh so it follows the current app config.
+ *
+ * Agent and RAG IDs can be references: `config:agentId` / `config:ragId` (the
+ * default agent, which follows the app config) and `env:VITE_X` (the specialist
+ * agents read `VITE_BILLING_AGENT_ID`, `VITE_BILLING_RAG_ID`, and the same for
+ * TECHNICAL and SALES). Agents whose ID resolves empty are dropped, so their
+ * questions go to the default agent.
+ */
+export const getWorkflow = (): Workflow => withoutUnconfigured(resolveReferences(activeWorkflow)) as Workflow
+
+/**
+ * The active workflow as written, with its references unresolved and nothing
+ * dropped - what the workflow editor edits and exports
+ */
+export const getWorkflowSource = (): Workflow => activeWorkflow
+
+export const setWorkflow = (workflow: Workflow) => {
+  activeWorkflow = workflow
+}
+
+export function getAgentNodes(workflow: Workflow): AgentNode[] {
+  return workflow.nodes.filter((node): node is AgentNode => node.type === 'Agent')
+}
+
+/**
+ * True when the graph has anything to route between
+ */
+export function hasRouting(workflow: Workflow): boolean {
+  return workflow.nodes.some(node => node.type === 'Router') && getAgentNodes(workflow).length > 0
+}
+
+export interface WorkflowKnowledgeBase {
+  ragId: string
+  name: string
+  /** Agent nodes answering from this knowledge base */
+  agents: AgentNode[]
+}
+
+/**
+ * Every knowledge base the graph mentions - listed in `knowledgeBases` or
+ * referenced by an agent - plus any extra IDs (e.g. the configured `ragId`)
+ */
+export function getKnowledgeBases(workflow: Workflow, extraRagIds: string[] = []): WorkflowKnowledgeBase[] {
+  const agents = getAgentNodes(workflow)
+  const ragIds = [
+    ...(workflow.knowledgeBases || []).map(kb => kb.ragId),
+    ...agents.map(agent => agent.ragId),
+    ...extraRagIds,
+  ].filter(Boolean)
+
+  return [...new Set(ragIds)].map(ragId => {
+    const listed = workflow.knowledgeBases?.find(kb => kb.ragId === ragId)
+    return {
+      ragId,
+      name: listed?.name || listed?.ragName || ragId,
+      agents: agents.filter(agent => agent.ragId === ragId),
+    }
+  })
+}
+
+export function toRoutedAgent(node: AgentNode): RoutedAgent {
+  return { nodeId: node.id, agentId: node.agentId, ragId: node.ragId, label: node.label }
+}
+
+// =============================================================================
+// Classification
+// =============================================================================
+
+export type RouteMethod = 'sticky' | 'classifier' | 'keywords' | 'default'
+
+/**
+ * Pick the route whose keywords best match the query. Keywords match word
+ * prefixes, so "refund" also catches "refunds" and "refunded".
+ */
+export function classifyByKeywords(query: string, routes: WorkflowRoute[]): WorkflowRoute | null {
+  const tokens = tokenize(query)
+  let best: WorkflowRoute | null = null
+  let bestScore = 0
+
+  routes.forEach(route => {
+    const keywords = route.keywords.map(normalizeToken)
+    const score = tokens.filter(token => keywords.some(keyword => token.startsWith(keyword))).length
+    // Earlier routes win ties
+    if (score > bestScore) {
+      best = route
+      bestScore = score
+    }
+  })
+
+  return best
+}
+
+async function classify(
+  router: RouterNode,
+  query: string,
+  options?: RequestSignalOptions & { user_id?: string }
+): Promise<{ route: WorkflowRoute | null; method: RouteMethod }> {
+  if (router.agentId) {
+    const result = await callAIAgent(query, router.agentId, {
+      user_id: options?.user_id,
+      signal: options?.signal,
+      timeout: options?.timeout,
+      retry: false,
+    })
+    const picked = result.success ? String(result.response.result?.route ?? result.response.result?.category ?? '') : ''
+    const route = router.routes.find(r => r.id.toLowerCase() === picked.trim().toLowerCase())
+    if (route) return { route, method: 'classifier' }
+    if (!result.success && result.aborted) return { route: null, method: 'default' }
+    // Classifier unavailable or unsure - fall back to keywords
+  }
+
+  const route = classifyByKeywords(query, router.routes)
+  return { route, method: route ? 'keywords' : 'default' }
+}
+
+// =============================================================================
+// Routing
+// =============================================================================
+
+export interface RouteQueryResult {
+  success: boolean
+  agent?: AgentNode
+  /** Nodes the query passed through, Input to Output */
+  path?: WorkflowStep[]
+  /** Route picked by the router, if one ran */
+  route?: string
+  method?: RouteMethod
+  error?: string
+}
+
+function toStep(node: WorkflowNode, route?: string): WorkflowStep {
+  return {
+    nodeId: node.id,
+    type: node.type,
+    label: node.label,
+    ...(route ? { route } : {}),
+    ...(node.type === 'Agent' ? { agentId: node.agentId, ragId: node.ragId } : {}),
+  }
+}
+
+/**
+ * Walk the graph from its Input node to the agent that should answer `query`
+ *
+ * @param options.stickyNodeId - Agent node the conversation is already routed to
+ */
+export async function routeQuery(
+  workflow: Workflow,
+  query: string,
+  options?: RequestSignalOptions & { stickyNodeId?: string; user_id?: string }
+): Promise<RouteQueryResult> {
+  const nodesById = new Map(workflow.nodes.map(node => [node.id, node]))
+  const outgoing = (nodeId: string) => workflow.edges.filter(edge => edge.source === nodeId)
+  const outputStep = (agent: AgentNode) => {
+    const output = outgoing(agent.id)
+      .map(edge => nodesById.get(edge.target))
+      .find(node => node?.type === 'Output')
+    return output ? [toStep(output)] : []
+  }
+
+  const input = workflow.nodes.find(node => node.type === 'Input')
+  if (!input) return { success: false, error: 'Workflow has no Input node' }
+
+  const sticky = options?.stickyNodeId ? nodesById.get(options.stickyNodeId) : undefined
+  if (sticky?.type === 'Agent') {
+    return {
+      success: true,
+      agent: sticky,
+      path: [toStep(input), toStep(sticky), ...outputStep(sticky)],
+      method: 'sticky',
+    }
+  }
+
+  const path: WorkflowStep[] = []
+  const visited = new Set<string>()
+  let node: WorkflowNode | undefined = input
+  let route: string | undefined
+  let method: RouteMethod = 'default'
+
+  while (node && !visited.has(node.id)) {
+    visited.add(node.id)
+
+    if (node.type === 'Agent') {
+      path.push(toStep(node))
+      return { success: true, agent: node, path: [...path, ...outputStep(node)], route, method }
+    }
+
+    const edges = outgoing(node.id)
+    let next: WorkflowEdge | undefined
+    if (node.type === 'Router') {
+      const classified = await classify(node, query, options)
+      route = classified.route?.id
+      method = classified.method
+      path.push(toStep(node, route))
+      next = edges.find(edge => route && edge.route === route) || edges.find(edge => !edge.route) || edges[0]
+    } else {
+      path.push(toStep(node))
+      next = edges[0]
+    }
+
+    node = next ? nodesById.get(next.target) : undefined
+  }
+
+  return { success: false, path, error: 'No Agent node is reachable from the Input node' }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export interface WorkflowIssue {
+  severity: 'error' | 'warning'
+  message: string
+  nodeId?: string
+  edgeId?: string
+}
+
+/**
+ * Check a graph before it is exported or used for routing
+ *
+ * Errors: not exactly one Input, no Output reachable from it, edges to
+ * missing nodes, agents without an agent ID or with an unknown RAG ID,
+ * router edges for routes the router doesn't have, duplicate IDs.
+ * Warnings: nodes the Input can't reach, agents that lead to no Output,
+ * routers without a default edge, duplicate edges.
+ *
+ * @param knownRagIds - Defaults to the graph's own `knowledgeBases`
+ */
+export function validateWorkflow(workflow: Workflow, knownRagIds?: string[]): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = []
+  const ragIds = new Set(knownRagIds ?? (workflow.knowledgeBases || []).map(kb => kb.ragId))
+  const nodesById = new Map<string, WorkflowNode>()
+
+  workflow.nodes.forEach(node => {
+    if (nodesById.has(node.id)) {
+      issues.push({ severity: 'error', message: `Duplicate node ID "${node.id}"`, nodeId: node.id })
+    }
+    nodesById.set(node.id, node)
+  })
+
+  const inputs = workflow.nodes.filter(node => node.type === 'Input')
+  if (inputs.length === 0) {
+    issues.push({ severity: 'error', message: 'The workflow needs an Input node' })
+  } else if (inputs.length > 1) {
+    inputs.slice(1).forEach(node => {
+      issues.push({ severity: 'error', message: `Only one Input node is allowed - "${node.label}" is extra`, nodeId: node.id })
+    })
+  }
+
+  const edgeKeys = new Set<string>()
+  workflow.edges.forEach(edge => {
+    const source = nodesById.get(edge.source)
+    const target = nodesById.get(edge.target)
+    if (!source || !target) {
+      const missing = [!source && `source "${edge.source}"`, !target && `target "${edge.target}"`].filter(Boolean).join(' and ')
+      issues.push({ severity: 'error', message: `Edge ${edge.id} points to a missing ${missing}`, edgeId: edge.id })
+      return
+    }
+    if (edge.route && source.type === 'Router' && !source.routes.some(route => route.id === edge.route)) {
+      issues.push({
+        severity: 'error',
+        message: `Edge from "${source.label}" uses route "${edge.route}", which the router doesn't define`,
+        edgeId: edge.id,
+      })
+    }
+    const key = `${edge.source}→${edge.target}→${edge.route || ''}`
+    if (edgeKeys.has(key)) {
+      issues.push({ severity: 'warning', message: `Duplicate edge from "${source.label}" to "${target.label}"`, edgeId: edge.id })
+    }
+    edgeKeys.add(key)
+  })
+
+  // Reachability from the (first) Input over edges with both ends present
+  const reachable = new Set<string>()
+  const queue = inputs.slice(0, 1).map(node => node.id)
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (reachable.has(id)) continue
+    reachable.add(id)
+    workflow.edges
+      .filter(edge => edge.source === id && nodesById.has(edge.target))
+      .forEach(edge => queue.push(edge.target))
+  }
+
+  const outputs = workflow.nodes.filter(node => node.type === 'Output')
+  if (inputs.length > 0 && !outputs.some(node => reachable.has(node.id))) {
+    issues.push({ severity: 'error', message: 'No Output node is reachable from the Input' })
+  }
+
+  workflow.nodes.forEach(node => {
+    if (node.type !== 'Input' && inputs.length > 0 && !reachable.has(node.id)) {
+      issues.push({ severity: 'warning', message: `"${node.label}" can't be reached from the Input`, nodeId: node.id })
+    }
+
+    if (node.type === 'Agent') {
+      if (!node.agentId?.trim()) {
+        issues.push({ severity: 'error', message: `Agent "${node.label}" has no agent ID`, nodeId: node.id })
+      }
+      if (node.ragId && !ragIds.has(node.ragId)) {
+        issues.push({ severity: 'error', message: `Agent "${node.label}" uses unknown RAG ID "${node.ragId}"`, nodeId: node.id })
+      }
+      const leadsToOutput = workflow.edges.some(edge => edge.source === node.id && nodesById.get(edge.target)?.type === 'Output')
+      if (!leadsToOutput) {
+        issues.push({ severity: 'warning', message: `Agent "${node.label}" isn't connected to an Output`, nodeId: node.id })
+      }
+    }
+
+    if (node.type === 'Router') {
+      const edges = workflow.edges.filter(edge => edge.source === node.id)
+      if (edges.length > 0 && !edges.some(edge => !edge.route)) {
+        issues.push({
+          severity: 'warning',
+          message: `Router "${node.label}" has no default edge - unmatched questions take its first edge`,
+          nodeId: node.id,
+        })
+      }
+    }
+  })
+
+  return issues
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Serialize a graph in the workflow.json format, refreshing the summary fields
+ */
+export function workflowToJSON(workflow: Workflow): string {
+  const agents = getAgentNodes(workflow)
+  const { nodes, edges, workflowType, totalAgents, knowledgeBases, ...rest } = workflow
+
+  return JSON.stringify(
+    {
+      nodes,
+      edges,
+      workflowType: workflow.nodes.some(node => node.type === 'Router')
+        ? 'multi_agent_router'
+        : agents.some(agent => agent.ragId)
+          ? 'single_agent_with_kb'
+          : workflowType || 'single_agent',
+      totalAgents: agents.length,
+      knowledgeBases: knowledgeBases || [],
+      ...rest,
+    },
+    null,
+    2
+  )
+}
@@ -2,6 +2,11 @@
 
 interface ImportMetaEnv {
   readonly VITE_AGENT_ID?: string
+  readonly VITE_RAG_ID?: string
+  readonly VITE_LYZR_AGENT_API_URL?: string
+  readonly VITE_LYZR_RAG_API_URL?: string
+  readonly VITE_CRAWL_PROXY_URL?: string
+  readonly VITE_CONFIG_URL?: string
   readonly VITE_LYZR_API_KEY?: string
   readonly VITE_API_URL?: string
 }
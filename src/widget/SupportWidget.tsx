@@ -0,0 +1,417 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import { MessageCircle, Minimize2, Send, Square, X } from 'lucide-react'
+import { MarkdownContent } from '@/components/MarkdownContent'
+import { CitationMarker, SourceList } from '@/components/SourceCitations'
+import { SuggestedFollowups } from '@/components/SuggestedFollowups'
+import { FeedbackControls } from '@/components/FeedbackControls'
+import { PortalContainerContext } from '@/lib/portalContainer'
+import { streamAIAgent, createSessionId, getBrowserUserId } from '@/utils/aiAgent'
+import { getDocuments, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import { normalizeSources } from '@/utils/sources'
+import { createFeedbackEvent, submitFeedback } from '@/utils/feedback'
+import { getConversationStore, syncConversationStore } from '@/utils/conversationStore'
+import { getAppConfig } from '@/utils/appConfig'
+import type { Conversation, Message, MessageFeedback, SupportResponse } from '@/types'
+import type { WidgetController } from './controller'
+import type { ResolvedSupportBotConfig } from './types'
+
+interface SupportWidgetProps {
+  config: ResolvedSupportBotConfig
+  controller: WidgetController
+}
+
+function createWidgetConversation(config: ResolvedSupportBotConfig): Conversation {
+  const now = new Date()
+  return {
+    // One conversation per agent, so the chat follows the customer across host pages
+    id: `widget-${config.agentId}`,
+    title: 'New Conversation',
+    preview: config.greeting.slice(0, 60),
+    timestamp: now,
+    messages: [{ id: `msg-${now.getTime()}`, role: 'agent', content: config.greeting, timestamp: now }],
+    sessionId: createSessionId(config.agentId),
+    userId: getBrowserUserId()
+  }
+}
+
+/**
+ * Floating launcher bubble and collapsible chat panel for the embeddable widget
+ */
+export function SupportWidget({ config, controller }: SupportWidgetProps) {
+  const isOpen = useSyncExternalStore(controller.subscribe, controller.getIsOpen)
+  const [conversation, setConversation] = useState<Conversation>(() => createWidgetConversation(config))
+  const [inputValue, setInputValue] = useState('')
+  const [isTyping, setIsTyping] = useState(false)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  const [documents, setDocuments] = useState<RAGDocument[]>([])
+  const [portalContainer, setPortalContainer] = useState<HTMLDivElement | null>(null)
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Latest conversation for the imperative sendMessage handler
+  const conversationRef = useRef(conversation)
+  conversationRef.current = conversation
+  const savedConversationRef = useRef<Conversation | null>(null)
+  // Nothing is saved until the stored conversation has been read, so it can't be overwritten
+  const loadedRef = useRef(false)
+  const sendMessageRef = useRef(handleSendMessage)
+  sendMessageRef.current = handleSendMessage
+
+  const { theme } = config
+  const { maxMessageLength, requestTimeoutMs } = getAppConfig().limits
+  const gradient = `linear-gradient(135deg, ${theme.primaryColor}, ${theme.secondaryColor})`
+  const side = config.position === 'bottom-left' ? { left: 20 } : { right: 20 }
+
+  // Restore this agent's widget conversation
+  useEffect(() => {
+    let cancelled = false
+    loadedRef.current = false
+    getConversationStore()
+      .loadConversations()
+      .then(stored => {
+        const existing = stored.find(conv => conv.id === `widget-${config.agentId}`)
+        if (cancelled) return
+        savedConversationRef.current = existing || null
+        loadedRef.current = true
+        if (existing) setConversation(existing)
+      })
+      .catch(e => {
+        console.error('Failed to load widget conversation:', e)
+        if (cancelled) return
+        savedConversationRef.current = null
+        loadedRef.current = true
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [config.agentId])
+
+  // Save once an answer has finished streaming
+  useEffect(() => {
+    if (streamingMessageId || !loadedRef.current) return
+    const previous = savedConversationRef.current
+    if (previous === conversation) return
+    savedConversationRef.current = conversation
+    syncConversationStore(getConversationStore(), previous ? [previous] : [], [conversation]).catch(e =>
+      console.error('Failed to save widget conversation:', e)
+    )
+  }, [conversation, streamingMessageId])
+
+  useEffect(() => {
+    if (!config.ragId) return
+    getDocuments(config.ragId).then(result => {
+      if (result.success) setDocuments(result.documents || [])
+    })
+  }, [config.ragId])
+
+  useEffect(() => {
+    if (isOpen) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+    }
+  }, [isOpen, conversation.messages, isTyping])
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus()
+  }, [isOpen])
+
+  // Messages sent through window.SupportBot.sendMessage
+  useEffect(() => {
+    controller.setMessageHandler(text => {
+      controller.setOpen(true)
+      sendMessageRef.current(text)
+    })
+    return () => {
+      controller.setMessageHandler(null)
+      abortControllerRef.current?.abort()
+    }
+  }, [controller])
+
+  function addMessage(message: Message) {
+    setConversation(prev => ({
+      ...prev,
+      messages: [...prev.messages, message],
+      title: message.role === 'user' && prev.title === 'New Conversation'
+        ? message.content.slice(0, 40) + (message.content.length > 40 ? '...' : '')
+        : prev.title,
+      preview: message.content.slice(0, 60) + (message.content.length > 60 ? '...' : ''),
+      timestamp: new Date()
+    }))
+  }
+
+  function updateMessage(messageId: string, updates: Partial<Message>) {
+    setConversation(prev => ({
+      ...prev,
+      messages: prev.messages.map(msg => (msg.id === messageId ? { ...msg, ...updates } : msg))
+    }))
+  }
+
+  async function handleSendMessage(messageText?: string) {
+    const textToSend = (messageText || inputValue).trim().slice(0, maxMessageLength)
+    if (!textToSend) return
+
+    const current = conversationRef.current
+    const userMessage: Message = { id: `msg-${Date.now()}-user`, role: 'user', content: textToSend, timestamp: new Date() }
+    addMessage(userMessage)
+    controller.emit('messageSent', { message: userMessage })
+    setInputValue('')
+    setIsTyping(true)
+
+    abortControllerRef.current?.abort()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    const agentMessageId = `msg-${Date.now()}-agent`
+    let agentMessage: Message | null = null
+    const putAgentMessage = (fields: Partial<Message>) => {
+      if (!agentMessage) {
+        agentMessage = { id: agentMessageId, role: 'agent', content: '', timestamp: new Date(), ...fields }
+        addMessage(agentMessage)
+      } else {
+        agentMessage = { ...agentMessage, ...fields }
+        updateMessage(agentMessageId, fields)
+      }
+    }
+
+    try {
+      const result = await streamAIAgent(textToSend, config.agentId, {
+        user_id: current.userId,
+        session_id: current.sessionId,
+        signal: abortController.signal,
+        timeout: requestTimeoutMs || undefined,
+        onAnswer: partialAnswer => {
+          setIsTyping(false)
+          setStreamingMessageId(agentMessageId)
+          putAgentMessage({ content: partialAnswer })
+        }
+      })
+
+      if (result.aborted) {
+        // Keep whatever was streamed so far
+      } else if (result.success && result.response) {
+        const response = result.response as unknown as SupportResponse
+        putAgentMessage({
+          content: response.result.answer,
+          confidence: response.result.confidence,
+          status: response.status,
+          sources: normalizeSources(response.result.sources),
+          suggested_followup: response.result.suggested_followup
+        })
+      } else {
+        const error = result.error || 'Sorry, I encountered an error. Please try again.'
+        putAgentMessage({ content: error, status: 'error' })
+        controller.emit('error', { error })
+      }
+    } catch (error) {
+      console.error('Failed to send message:', error)
+      putAgentMessage({ content: 'Sorry, something went wrong. Please try again.', status: 'error' })
+      controller.emit('error', { error: error instanceof Error ? error.message : String(error) })
+    } finally {
+      if (agentMessage && !abortController.signal.aborted) {
+        controller.emit('messageReceived', { message: agentMessage })
+      }
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+        setIsTyping(false)
+        setStreamingMessageId(null)
+      }
+    }
+  }
+
+  function handleFeedback(message: Message, feedback: MessageFeedback | undefined) {
+    updateMessage(message.id, { feedback })
+    if (feedback) {
+      submitFeedback(createFeedbackEvent(conversation, message, feedback))
+    }
+  }
+
+  function handleClose() {
+    // Closing (unlike minimizing) cancels a reply that is still on its way
+    abortControllerRef.current?.abort()
+    controller.setOpen(false)
+  }
+
+  const isBusy = isTyping || !!streamingMessageId
+  const latestMessage = conversation.messages[conversation.messages.length - 1]
+  const latestFollowups = latestMessage?.role === 'agent' && !isBusy ? latestMessage.suggested_followup || [] : []
+
+  return (
+    <PortalContainerContext.Provider value={portalContainer}>
+      <div className="sb-root text-white" style={{ fontFamily: theme.fontFamily }}>
+        {isOpen && (
+          <div
+            role="dialog"
+            aria-label={config.title}
+            className="fixed bottom-24 flex flex-col w-[380px] max-w-[calc(100vw-40px)] h-[600px] max-h-[calc(100vh-120px)] rounded-2xl overflow-hidden border border-white/20 shadow-2xl bg-gradient-to-br from-slate-900 via-blue-950 to-slate-900 animate-in slide-in-from-bottom-4 fade-in-0 duration-200"
+            style={{ ...side, zIndex: theme.zIndex }}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 backdrop-blur-xl bg-white/10 border-b border-white/20">
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0 shadow-lg" style={{ backgroundImage: gradient }}>
+                  <MessageCircle className="h-4 w-4 text-white" />
+                </div>
+                <div className="min-w-0">
+                  <h2 className="text-sm font-semibold truncate">{config.title}</h2>
+                  <div className="flex items-center gap-1.5">
+                    <div className="w-1.5 h-1.5 bg-green-400 rounded-full" />
+                    <span className="text-xs text-white/70">Online</span>
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => controller.setOpen(false)}
+                  aria-label="Minimize"
+                  className="p-1.5 rounded text-white/80 hover:text-white hover:bg-white/10"
+                >
+                  <Minimize2 className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  aria-label="Close"
+                  className="p-1.5 rounded text-white/80 hover:text-white hover:bg-white/10"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            {/* Messages */}
+            <div className="flex-1 overflow-y-auto px-4 py-3">
+              {conversation.messages.map((message, index) => {
+                const isAgent = message.role === 'agent'
+                const sources = isAgent ? message.sources || [] : []
+                const isStreaming = message.id === streamingMessageId
+                return (
+                  <div key={message.id} className={`flex ${isAgent ? 'justify-start' : 'justify-end'} mb-3`}>
+                    <div className={`flex flex-col ${isAgent ? 'items-start' : 'items-end'} max-w-[85%]`}>
+                      <div
+                        className={`px-3 py-2 rounded-2xl border border-white/30 shadow-lg ${
+                          isAgent ? 'rounded-bl-sm' : 'bg-white/20 rounded-br-sm'
+                        }`}
+                        style={isAgent ? { backgroundImage: gradient } : undefined}
+                      >
+                        {isAgent ? (
+                          <MarkdownContent
+                            content={message.content}
+                            isStreaming={isStreaming}
+                            citationCount={sources.length}
+                            renderCitation={(citation) => (
+                              <CitationMarker source={sources[citation - 1]} documents={documents} />
+                            )}
+                          />
+                        ) : (
+                          <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                        )}
+                        {isStreaming && <span className="inline-block w-1.5 h-4 mt-1 bg-white/80 animate-pulse" />}
+                        {sources.length > 0 && (
+                          <SourceList sources={sources} documents={documents} className="mt-2 pt-2 border-t border-white/20" />
+                        )}
+                      </div>
+                      {isAgent && index > 0 && !isStreaming && (
+                        <FeedbackControls
+                          feedback={message.feedback}
+                          onFeedback={(feedback) => handleFeedback(message, feedback)}
+                          className="mt-1 ml-1"
+                        />
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+
+              {isTyping && (
+                <div className="flex gap-1 px-3 py-3 mb-3 w-fit rounded-2xl rounded-bl-sm border border-white/30" style={{ backgroundImage: gradient }}>
+                  <div className="w-1.5 h-1.5 bg-white rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                  <div className="w-1.5 h-1.5 bg-white rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                  <div className="w-1.5 h-1.5 bg-white rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                </div>
+              )}
+
+              {latestFollowups.length > 0 && (
+                <SuggestedFollowups
+                  suggestions={latestFollowups}
+                  onSelect={(suggestion) => handleSendMessage(suggestion)}
+                  className="mb-3"
+                />
+              )}
+
+              {conversation.messages.length === 1 && !isBusy && config.quickReplies.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {config.quickReplies.map(reply => (
+                    <button
+                      key={reply}
+                      type="button"
+                      onClick={() => handleSendMessage(reply)}
+                      className="px-3 py-1.5 bg-white/10 border border-white/30 rounded-full text-xs hover:bg-white/20 transition-colors"
+                    >
+                      {reply}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div ref={messagesEndRef} />
+            </div>
+
+            {/* Input */}
+            <div className="flex items-end gap-2 px-3 py-3 border-t border-white/20 bg-white/5">
+              <textarea
+                ref={inputRef}
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value.slice(0, maxMessageLength))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault()
+                    handleSendMessage()
+                  }
+                }}
+                placeholder="Type your question..."
+                rows={1}
+                className="flex-1 resize-none bg-transparent border-0 text-sm text-white placeholder:text-white/50 focus:outline-none max-h-24 overflow-y-auto"
+              />
+              {isBusy ? (
+                <button
+                  type="button"
+                  onClick={() => abortControllerRef.current?.abort()}
+                  aria-label="Stop generating"
+                  className="p-2 rounded-lg bg-white/20 hover:bg-white/30 border border-white/30"
+                >
+                  <Square className="h-3.5 w-3.5 fill-current" />
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleSendMessage()}
+                  disabled={!inputValue.trim()}
+                  aria-label="Send"
+                  className="p-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+                  style={{ backgroundImage: gradient }}
+                >
+                  <Send className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Launcher bubble */}
+        <button
+          type="button"
+          onClick={() => controller.setOpen(!isOpen)}
+          aria-label={isOpen ? 'Close support chat' : 'Open support chat'}
+          aria-expanded={isOpen}
+          className="fixed bottom-5 w-14 h-14 rounded-full flex items-center justify-center shadow-2xl hover:scale-105 transition-transform focus:outline-none focus-visible:ring-2 focus-visible:ring-white/70"
+          style={{ ...side, zIndex: theme.zIndex, backgroundImage: gradient }}
+        >
+          {isOpen ? <X className="h-6 w-6 text-white" /> : <MessageCircle className="h-6 w-6 text-white" />}
+        </button>
+
+        {/* Popovers render here so they stay inside the shadow root, above the panel */}
+        <div ref={setPortalContainer} className="relative" style={{ zIndex: theme.zIndex + 1 }} />
+      </div>
+    </PortalContainerContext.Provider>
+  )
+}
@@ -0,0 +1,75 @@
+/**
+ * Widget configuration defaults and validation
+ */
+
+import { DEFAULT_APP_CONFIG, readParamConfig } from '@/utils/appConfig'
+import type { ResolvedSupportBotConfig, SupportBotConfig } from './types'
+
+export const DEFAULT_WIDGET_CONFIG: Omit<ResolvedSupportBotConfig, 'agentId'> = {
+  position: 'bottom-right',
+  title: DEFAULT_APP_CONFIG.title,
+  greeting: DEFAULT_APP_CONFIG.greeting,
+  quickReplies: DEFAULT_APP_CONFIG.quickReplies,
+  open: false,
+  theme: {
+    primaryColor: '#3b82f6',
+    secondaryColor: '#9333ea',
+    // Above almost anything a host page puts on screen
+    zIndex: 2147483000,
+  },
+}
+
+/**
+ * Fill in defaults for `window.SupportBot.init` options
+ */
+export function resolveWidgetConfig(
+  config: SupportBotConfig
+): { success: boolean; config?: ResolvedSupportBotConfig; error?: string } {
+  if (!config || typeof config.agentId !== 'string' || !config.agentId.trim()) {
+    return { success: false, error: 'SupportBot.init requires an agentId' }
+  }
+  if (config.position && !['bottom-right', 'bottom-left'].includes(config.position)) {
+    return { success: false, error: `Unknown position "${config.position}" - use "bottom-right" or "bottom-left"` }
+  }
+
+  // Options passed as undefined fall back to the default
+  const defined = <T extends object>(value: T | undefined) =>
+    Object.fromEntries(Object.entries(value || {}).filter(([, v]) => v !== undefined)) as Partial<T>
+
+  return {
+    success: true,
+    config: {
+      ...DEFAULT_WIDGET_CONFIG,
+      ...defined(config),
+      agentId: config.agentId.trim(),
+      theme: { ...DEFAULT_WIDGET_CONFIG.theme, ...defined(config.theme) },
+    },
+  }
+}
+
+/**
+ * Options from `data-*` attributes on the widget's script tag, e.g.
+ * `<script src=".../support-bot.js" data-agent-id="..." data-position="bottom-left">`.
+ * Returns null when the tag has no `data-agent-id`, i.e. the page calls init itself.
+ */
+export function readEmbedConfig(dataset: DOMStringMap): { success: boolean; config?: SupportBotConfig; error?: string } | null {
+  if (!dataset.agentId) return null
+
+  const result = readParamConfig(key => dataset[key])
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+  const { agentId, ragId, title, greeting, quickReplies } = result.override
+  return {
+    success: true,
+    config: {
+      agentId,
+      ragId,
+      title,
+      greeting,
+      quickReplies,
+      position: dataset.position as SupportBotConfig['position'],
+      open: dataset.open === '' || dataset.open === 'true',
+    },
+  }
+}
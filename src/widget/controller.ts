@@ -0,0 +1,76 @@
+/**
+ * Widget controller - the bridge between the imperative `window.SupportBot`
+ * API and the React widget. Holds the open state, lifecycle event handlers
+ * and messages sent before the widget finished mounting.
+ */
+
+import type { SupportBotEvent, SupportBotEventHandler, SupportBotEventMap } from './types'
+
+export function createWidgetController() {
+  let isOpen = false
+  const stateListeners = new Set<() => void>()
+  const eventHandlers = new Map<SupportBotEvent, Set<SupportBotEventHandler<any>>>()
+  let messageHandler: ((text: string) => void) | null = null
+  const pendingMessages: string[] = []
+
+  const emit = <E extends SupportBotEvent>(event: E, payload: SupportBotEventMap[E]) => {
+    eventHandlers.get(event)?.forEach(handler => {
+      // A broken host handler must not break the widget
+      try {
+        handler(payload)
+      } catch (error) {
+        console.error(`SupportBot "${event}" handler failed:`, error)
+      }
+    })
+  }
+
+  const off = <E extends SupportBotEvent>(event: E, handler: SupportBotEventHandler<E>) => {
+    eventHandlers.get(event)?.delete(handler)
+  }
+
+  return {
+    emit,
+    off,
+
+    on: <E extends SupportBotEvent>(event: E, handler: SupportBotEventHandler<E>) => {
+      if (!eventHandlers.has(event)) eventHandlers.set(event, new Set())
+      eventHandlers.get(event)!.add(handler)
+      return () => off(event, handler)
+    },
+
+    getIsOpen: () => isOpen,
+
+    setOpen: (open: boolean) => {
+      if (open === isOpen) return
+      isOpen = open
+      stateListeners.forEach(listener => listener())
+      emit(open ? 'open' : 'close', undefined)
+    },
+
+    /** For useSyncExternalStore */
+    subscribe: (listener: () => void) => {
+      stateListeners.add(listener)
+      return () => {
+        stateListeners.delete(listener)
+      }
+    },
+
+    sendMessage: (text: string) => {
+      if (messageHandler) {
+        messageHandler(text)
+      } else {
+        pendingMessages.push(text)
+      }
+    },
+
+    /** Registered by the mounted widget; flushes messages sent before it was ready */
+    setMessageHandler: (handler: ((text: string) => void) | null) => {
+      messageHandler = handler
+      if (handler) {
+        pendingMessages.splice(0).forEach(handler)
+      }
+    },
+  }
+}
+
+export type WidgetController = ReturnType<typeof createWidgetController>
@@ -0,0 +1,144 @@
+/**
+ * Embeddable Support Chat Widget
+ *
+ * Entry point of the widget library build (`npm run build:widget`), which
+ * emits a single `support-bot.js`. The script registers `window.SupportBot`;
+ * `init` mounts a launcher bubble and chat panel inside a shadow root so the
+ * host page's CSS and ours never touch.
+ *
+ * @example
+ * ```html
+ * <script src="https://support.example.com/widget/support-bot.js"></script>
+ * <script>
+ *   SupportBot.init({
+ *     agentId: 'your-agent-id',
+ *     ragId: 'your-rag-id',
+ *     position: 'bottom-left',
+ *     theme: { primaryColor: '#0ea5e9', secondaryColor: '#6366f1' },
+ *     greeting: 'Hi! How can we help?',
+ *     quickReplies: ['Pricing', 'Shipping'],
+ *   })
+ *   SupportBot.on('messageReceived', ({ message }) => console.log(message.content))
+ * </script>
+ * ```
+ *
+ * @example
+ * ```html
+ * <!-- No code: initialized from the tag's data attributes -->
+ * <script
+ *   src="https://support.example.com/widget/support-bot.js"
+ *   data-agent-id="your-agent-id"
+ *   data-rag-id="your-rag-id"
+ *   data-quick-replies="Pricing|Shipping"
+ * ></script>
+ * ```
+ */
+
+import { createRoot, type Root } from 'react-dom/client'
+import styles from '@/index.css?inline'
+import { SupportWidget } from './SupportWidget'
+import { createWidgetController } from './controller'
+import { readEmbedConfig, resolveWidgetConfig } from './config'
+import type { ResolvedSupportBotConfig, SupportBotAPI, SupportBotConfig } from './types'
+
+export type * from './types'
+
+declare global {
+  interface Window {
+    SupportBot?: SupportBotAPI
+  }
+}
+
+const HOST_ELEMENT_ID = 'support-bot-widget'
+
+// The app stylesheet targets :root for its theme variables; inside a shadow
+// root those have to live on :host. `all: initial` stops host page styles
+// from inheriting into the widget.
+const WIDGET_STYLES = `${styles.replace(/:root\b/g, ':host')}
+:host { all: initial; }
+.sb-root { font-family: ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 16px; line-height: 1.5; -webkit-font-smoothing: antialiased; }
+`
+
+const controller = createWidgetController()
+
+let hostElement: HTMLElement | null = null
+let root: Root | null = null
+let initialized = false
+
+function mount(config: ResolvedSupportBotConfig) {
+  hostElement = document.createElement('div')
+  hostElement.id = HOST_ELEMENT_ID
+  const shadowRoot = hostElement.attachShadow({ mode: 'open' })
+
+  const style = document.createElement('style')
+  style.textContent = WIDGET_STYLES
+  shadowRoot.appendChild(style)
+
+  const container = document.createElement('div')
+  shadowRoot.appendChild(container)
+  document.body.appendChild(hostElement)
+
+  root = createRoot(container)
+  root.render(<SupportWidget config={config} controller={controller} />)
+
+  if (config.open) controller.setOpen(true)
+  controller.emit('ready', { config })
+}
+
+const SupportBot: SupportBotAPI = {
+  init: (config: SupportBotConfig) => {
+    if (initialized) {
+      console.warn('SupportBot is already initialized - call SupportBot.destroy() first to re-initialize')
+      return
+    }
+
+    const result = resolveWidgetConfig(config)
+    if (!result.success) {
+      console.error(result.error)
+      controller.emit('error', { error: result.error })
+      return
+    }
+
+    initialized = true
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', () => initialized && mount(result.config), { once: true })
+    } else {
+      mount(result.config)
+    }
+  },
+
+  open: () => controller.setOpen(true),
+  close: () => controller.setOpen(false),
+  toggle: () => controller.setOpen(!controller.getIsOpen()),
+  isOpen: () => controller.getIsOpen(),
+  sendMessage: (text: string) => {
+    if (typeof text !== 'string' || !text.trim()) return
+    controller.sendMessage(text)
+  },
+  on: controller.on,
+  off: controller.off,
+
+  destroy: () => {
+    if (!initialized) return
+    initialized = false
+    controller.setOpen(false)
+    root?.unmount()
+    hostElement?.remove()
+    root = null
+    hostElement = null
+    controller.emit('destroy', undefined)
+  },
+}
+
+window.SupportBot = SupportBot
+
+// document.currentScript is only set while this script first runs
+const embedScript = document.currentScript as HTMLScriptElement | null
+const embedConfig = embedScript ? readEmbedConfig(embedScript.dataset) : null
+if (embedConfig?.success) {
+  SupportBot.init(embedConfig.config)
+} else if (embedConfig) {
+  console.error(embedConfig.error)
+}
+
+export default SupportBot
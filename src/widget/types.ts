@@ -0,0 +1,76 @@
+/**
+ * Embeddable widget types - the public `window.SupportBot` API
+ */
+
+import type { Message } from '@/types'
+
+export type SupportBotPosition = 'bottom-right' | 'bottom-left'
+
+export interface SupportBotTheme {
+  /** Launcher and agent bubble gradient start (any CSS color) */
+  primaryColor?: string
+  /** Gradient end (any CSS color) */
+  secondaryColor?: string
+  fontFamily?: string
+  /** Stacking order of the launcher and panel on the host page */
+  zIndex?: number
+}
+
+/**
+ * Options for `window.SupportBot.init`
+ */
+export interface SupportBotConfig {
+  agentId: string
+  /** Knowledge base the agent answers from - used to link citations */
+  ragId?: string
+  theme?: SupportBotTheme
+  position?: SupportBotPosition
+  /** Panel title */
+  title?: string
+  /** First agent message in a new conversation */
+  greeting?: string
+  /** Chips offered before the customer has asked anything */
+  quickReplies?: string[]
+  /** Start with the panel open */
+  open?: boolean
+}
+
+export type ResolvedSupportBotConfig = Required<Omit<SupportBotConfig, 'ragId' | 'theme'>> & {
+  ragId?: string
+  theme: Required<Omit<SupportBotTheme, 'fontFamily'>> & { fontFamily?: string }
+}
+
+/**
+ * Lifecycle events and their payloads
+ */
+export interface SupportBotEventMap {
+  ready: { config: ResolvedSupportBotConfig }
+  open: undefined
+  close: undefined
+  messageSent: { message: Message }
+  messageReceived: { message: Message }
+  error: { error: string }
+  destroy: undefined
+}
+
+export type SupportBotEvent = keyof SupportBotEventMap
+
+export type SupportBotEventHandler<E extends SupportBotEvent> = (payload: SupportBotEventMap[E]) => void
+
+/**
+ * `window.SupportBot`
+ */
+export interface SupportBotAPI {
+  init: (config: SupportBotConfig) => void
+  open: () => void
+  close: () => void
+  toggle: () => void
+  isOpen: () => boolean
+  /** Send a message as the customer; opens the panel */
+  sendMessage: (text: string) => void
+  /** Subscribe to a lifecycle event. Returns an unsubscribe function. */
+  on: <E extends SupportBotEvent>(event: E, handler: SupportBotEventHandler<E>) => () => void
+  off: <E extends SupportBotEvent>(event: E, handler: SupportBotEventHandler<E>) => void
+  /** Unmount the widget and remove it from the page */
+  destroy: () => void
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -20,4 +21,9 @@ export default defineConfig({
   build: {
     outDir: 'dist',
   },
+  test: {
+    env: {
+      VITE_LYZR_API_KEY: 'test-key',
+    },
+  },
 })